@@ -0,0 +1,111 @@
+import type React from 'react';
+import { annotationBox, leaderStart, TEXT_ANCHORS, translateAnnotation } from '../domain/annotations';
+import type { Annotation } from '../domain/types';
+
+type Props = {
+  annotations: Annotation[];
+  selectedIds: string[];
+  draftDelta?: { ids: string[]; dx: number; dy: number } | null;
+  draftLeader?: { id: string; points: { x: number; y: number }[] } | null;
+  interactive: boolean;
+  onAnnotationPointerDown: (event: React.PointerEvent, annotation: Annotation) => void;
+  onLeaderPointPointerDown: (event: React.PointerEvent, annotation: Annotation, index: number) => void;
+};
+
+function arrowHead(from: { x: number; y: number }, tip: { x: number; y: number }, size: number) {
+  const angle = Math.atan2(tip.y - from.y, tip.x - from.x);
+  const spread = Math.PI / 7;
+  const back = (offset: number) => ({
+    x: tip.x - size * Math.cos(angle + offset),
+    y: tip.y - size * Math.sin(angle + offset),
+  });
+  const left = back(spread);
+  const right = back(-spread);
+  return `${tip.x},${tip.y} ${left.x},${left.y} ${right.x},${right.y}`;
+}
+
+export default function AnnotationLayer({
+  annotations,
+  selectedIds,
+  draftDelta,
+  draftLeader,
+  interactive,
+  onAnnotationPointerDown,
+  onLeaderPointPointerDown,
+}: Props) {
+  if (!annotations.length) return null;
+
+  return (
+    <g>
+      {annotations.map((original) => {
+        const moving = draftDelta?.ids.includes(original.id);
+        let annotation = moving && draftDelta ? translateAnnotation(original, draftDelta.dx, draftDelta.dy) : original;
+        if (draftLeader?.id === annotation.id) annotation = { ...annotation, leader: draftLeader.points };
+        const selected = selectedIds.includes(annotation.id);
+        const color = selected ? '#1d4ed8' : '#0f172a';
+        // Strokes follow the text size so callouts read the same in any unit system.
+        const stroke = annotation.fontSize * 0.08;
+        const box = annotationBox(annotation);
+        const start = leaderStart(annotation);
+        const leader = start && annotation.leader ? [start, ...annotation.leader] : null;
+        return (
+          <g key={annotation.id} opacity={moving ? 0.7 : 1}>
+            {leader && (
+              <g pointerEvents="none">
+                <polyline
+                  points={leader.map((p) => `${p.x},${p.y}`).join(' ')}
+                  fill="none"
+                  stroke={color}
+                  strokeWidth={stroke}
+                  strokeLinejoin="round"
+                />
+                <polygon points={arrowHead(leader[leader.length - 2], leader[leader.length - 1], annotation.fontSize * 0.6)} fill={color} />
+              </g>
+            )}
+            <g
+              transform={`translate(${annotation.x} ${annotation.y}) rotate(${annotation.rotation})`}
+              pointerEvents={interactive ? 'all' : 'none'}
+              style={{ cursor: interactive ? 'move' : undefined }}
+              onPointerDown={(e) => onAnnotationPointerDown(e, original)}
+            >
+              <rect
+                x={box.x}
+                y={box.y}
+                width={box.width}
+                height={box.height}
+                fill={selected ? 'rgba(59,130,246,0.12)' : 'transparent'}
+                stroke={selected ? '#2563eb' : 'none'}
+                strokeWidth={stroke / 2}
+                strokeDasharray={selected ? `${stroke * 3} ${stroke * 2}` : undefined}
+              />
+              <text
+                fontSize={annotation.fontSize}
+                textAnchor={TEXT_ANCHORS[annotation.align]}
+                dominantBaseline="middle"
+                fill={color}
+                style={{ userSelect: 'none' }}
+              >
+                {annotation.text}
+              </text>
+            </g>
+            {selected &&
+              interactive &&
+              annotation.leader?.map((point, index) => (
+                <circle
+                  key={index}
+                  cx={point.x}
+                  cy={point.y}
+                  r={annotation.fontSize * 0.25}
+                  fill="#fff"
+                  stroke="#2563eb"
+                  strokeWidth={stroke / 2}
+                  style={{ cursor: 'crosshair' }}
+                  onPointerDown={(e) => onLeaderPointPointerDown(e, original, index)}
+                />
+              ))}
+          </g>
+        );
+      })}
+    </g>
+  );
+}
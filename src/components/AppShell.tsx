@@ -1,14 +1,23 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import CanvasStage from './CanvasStage';
+import FixtureLibrary from './FixtureLibrary';
 import PropertiesPanel from './PropertiesPanel';
 import Toolbar from './Toolbar';
 import TopBar from './TopBar';
 import { usePlanStore } from '../store/usePlanStore';
 import PromptOverlay from './PromptOverlay';
+import GroupsPanel from './GroupsPanel';
+import LayersPanel from './LayersPanel';
+import LevelSwitcher from './LevelSwitcher';
+import { lengthInputValue, parseLength } from '../domain/format';
 import { shapeBoundingBox } from '../domain/geometry';
-import type { Area } from '../domain/types';
+import { editableAreaIds } from '../domain/layers';
+import { activeLevel } from '../domain/levels';
+import type { Area, Units } from '../domain/types';
+import { UNIT_OPTIONS } from '../domain/units';
 
-const COPY_GAP = 0.5;
+/** Space left between pasted copies, in plan units. */
+const COPY_GAP: Record<Units, number> = { mm: 500, cm: 50, m: 0.5, in: 6, ft: 0.5 };
 
 function cloneAreas(areas: Area[]) {
   return structuredClone ? structuredClone(areas) : JSON.parse(JSON.stringify(areas));
@@ -61,16 +70,16 @@ export default function AppShell() {
   const handleCreatePlan = () => {
     const width = parseFloat(newWidthRef.current?.value ?? '10');
     const height = parseFloat(newHeightRef.current?.value ?? '10');
-    const units = (newUnitsRef.current?.value ?? 'm') as 'm' | 'cm' | 'ft';
+    const units = (newUnitsRef.current?.value ?? 'm') as Units;
     if (!Number.isFinite(width) || !Number.isFinite(height)) return;
     apply({ type: 'plan/create', payload: { width, height, units, name: 'New Plan' } });
     setShowNewPlan(false);
   };
 
   const handleResizePlan = () => {
-    const width = parseFloat(resizeWidthRef.current?.value ?? '');
-    const height = parseFloat(resizeHeightRef.current?.value ?? '');
-    if (!Number.isFinite(width) || !Number.isFinite(height)) return;
+    const width = parseLength(resizeWidthRef.current?.value ?? '', plan.units);
+    const height = parseLength(resizeHeightRef.current?.value ?? '', plan.units);
+    if (width === null || height === null) return;
     apply({ type: 'plan/resize-boundary', payload: { width, height } });
     setShowResize(false);
   };
@@ -108,7 +117,7 @@ export default function AppShell() {
       } else if ((e.metaKey || e.ctrlKey) && key === 'c') {
         const ids = selectionRef.current.areaIds;
         if (!ids.length) return;
-        const selected = planRef.current.areas.filter((area) => ids.includes(area.id));
+        const selected = activeLevel(planRef.current).areas.filter((area) => ids.includes(area.id));
         if (!selected.length) return;
         e.preventDefault();
         clipboardRef.current = cloneAreas(selected);
@@ -119,10 +128,19 @@ export default function AppShell() {
         e.preventDefault();
         pasteCountRef.current += 1;
         const bounds = selectionBounds(clipboard);
-        const dx = (bounds.width + COPY_GAP) * pasteCountRef.current;
-        const dy = (bounds.height + COPY_GAP) * pasteCountRef.current;
+        const gap = COPY_GAP[planRef.current.units];
+        const dx = (bounds.width + gap) * pasteCountRef.current;
+        const dy = (bounds.height + gap) * pasteCountRef.current;
         const suffix = pasteCountRef.current === 1 ? 'copy' : `copy ${pasteCountRef.current}`;
         apply({ type: 'area/paste', payload: { areas: clipboard, dx, dy, nameSuffix: suffix } });
+      } else if ((e.metaKey || e.ctrlKey) && (e.code === 'BracketRight' || e.code === 'BracketLeft')) {
+        // Ctrl/Cmd+] and [ step the stacking order; with Shift they jump to the front or back.
+        const ids = editableAreaIds(activeLevel(planRef.current), selectionRef.current.areaIds);
+        if (!ids.length) return;
+        e.preventDefault();
+        const up = e.code === 'BracketRight';
+        const direction = e.shiftKey ? (up ? 'front' : 'back') : up ? 'forward' : 'backward';
+        apply({ type: 'area/reorder', payload: { ids, direction } });
       }
     };
     window.addEventListener('keydown', onKey);
@@ -136,8 +154,8 @@ export default function AppShell() {
           <TopBar
             onNew={() => setShowNewPlan(true)}
             onResize={() => {
-              if (resizeWidthRef.current) resizeWidthRef.current.value = String(plan.canvas.width);
-              if (resizeHeightRef.current) resizeHeightRef.current.value = String(plan.canvas.height);
+              if (resizeWidthRef.current) resizeWidthRef.current.value = lengthInputValue(plan.canvas.width, plan.units);
+              if (resizeHeightRef.current) resizeHeightRef.current.value = lengthInputValue(plan.canvas.height, plan.units);
               setShowResize(true);
             }}
             onUndock={() => setUndocked(true)}
@@ -145,10 +163,16 @@ export default function AppShell() {
           <div className="grid min-h-[70vh] grid-cols-[300px_1fr] gap-4">
             <div className="flex flex-col gap-3">
               <Toolbar activeTool={activeTool} onChangeTool={setTool} hasSelection={hasSelection} />
+              <LayersPanel />
+              <GroupsPanel />
+              <FixtureLibrary />
               <PropertiesPanel />
             </div>
-            <div className="overflow-hidden rounded-2xl bg-white shadow-shell ring-1 ring-slate-200">
-              <CanvasStage />
+            <div className="flex min-h-0 flex-col gap-3">
+              <LevelSwitcher />
+              <div className="min-h-0 flex-1 overflow-hidden rounded-2xl bg-white shadow-shell ring-1 ring-slate-200">
+                <CanvasStage />
+              </div>
             </div>
           </div>
         </div>
@@ -193,9 +217,11 @@ export default function AppShell() {
                   defaultValue={plan.units}
                   className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 focus:border-accent focus:outline-none"
                 >
-                  <option value="m">Meters</option>
-                  <option value="cm">Centimeters</option>
-                  <option value="ft">Feet</option>
+                  {UNIT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
                 </select>
               </label>
               </div>
@@ -230,9 +256,9 @@ export default function AppShell() {
                   Width
                   <input
                     ref={resizeWidthRef}
-                    defaultValue={plan.canvas.width}
-                    type="number"
-                    step="0.1"
+                    defaultValue={lengthInputValue(plan.canvas.width, plan.units)}
+                    type="text"
+                    inputMode="decimal"
                     className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 focus:border-accent focus:outline-none"
                   />
                 </label>
@@ -240,9 +266,9 @@ export default function AppShell() {
                   Height
                   <input
                     ref={resizeHeightRef}
-                    defaultValue={plan.canvas.height}
-                    type="number"
-                    step="0.1"
+                    defaultValue={lengthInputValue(plan.canvas.height, plan.units)}
+                    type="text"
+                    inputMode="decimal"
                     className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 focus:border-accent focus:outline-none"
                   />
                 </label>
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import type { Area, AreaPropertyType, AreaPropertyValue } from '../domain/types';
+import { usePlanStore } from '../store/usePlanStore';
+
+type Props = {
+  area: Area;
+};
+
+const inputClass = 'w-full rounded-lg border border-slate-200 px-2 py-1 text-sm';
+
+function initialValue(type: AreaPropertyType, options: string[]): AreaPropertyValue {
+  if (type === 'number') return { type, value: 0 };
+  if (type === 'boolean') return { type, value: false };
+  if (type === 'enum') return { type, value: options[0] ?? '', options };
+  return { type: 'string', value: '' };
+}
+
+export default function AreaPropertiesEditor({ area }: Props) {
+  const apply = usePlanStore((s) => s.apply);
+  const [newKey, setNewKey] = useState('');
+  const [newType, setNewType] = useState<AreaPropertyType>('string');
+  const [newOptions, setNewOptions] = useState('');
+  const entries = Object.entries(area.properties ?? {});
+
+  const setProperty = (key: string, value: AreaPropertyValue | null) =>
+    apply({ type: 'area/set-property', payload: { id: area.id, key, value } });
+
+  const options = newOptions
+    .split(',')
+    .map((option) => option.trim())
+    .filter(Boolean);
+  const canAdd =
+    newKey.trim().length > 0 && !(newKey.trim() in (area.properties ?? {})) && (newType !== 'enum' || options.length > 0);
+
+  const addProperty = () => {
+    if (!canAdd) return;
+    setProperty(newKey.trim(), initialValue(newType, options));
+    setNewKey('');
+    setNewOptions('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">Properties</p>
+      {!entries.length && <p className="text-xs text-slate-400">No custom properties yet.</p>}
+      {entries.map(([key, prop]) => (
+        <div key={key} className="grid grid-cols-[1fr_1.4fr_auto] items-center gap-2">
+          <span className="truncate text-xs font-medium text-slate-600" title={`${key} (${prop.type})`}>
+            {key}
+          </span>
+          {prop.type === 'string' && (
+            <input
+              key={`${area.id}-${key}-${prop.value}`}
+              className={inputClass}
+              defaultValue={prop.value}
+              onBlur={(e) => setProperty(key, { type: 'string', value: e.target.value })}
+            />
+          )}
+          {prop.type === 'number' && (
+            <input
+              key={`${area.id}-${key}-${prop.value}`}
+              type="number"
+              className={inputClass}
+              defaultValue={prop.value}
+              onBlur={(e) => {
+                const value = parseFloat(e.target.value);
+                if (Number.isFinite(value)) setProperty(key, { type: 'number', value });
+              }}
+            />
+          )}
+          {prop.type === 'boolean' && (
+            <input
+              type="checkbox"
+              className="justify-self-start"
+              checked={prop.value}
+              onChange={(e) => setProperty(key, { type: 'boolean', value: e.target.checked })}
+            />
+          )}
+          {prop.type === 'enum' && (
+            <select
+              className={inputClass}
+              value={prop.value}
+              onChange={(e) => setProperty(key, { ...prop, value: e.target.value })}
+            >
+              {prop.options.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            className="text-xs text-slate-400 hover:text-red-600"
+            title={`Remove ${key}`}
+            onClick={() => setProperty(key, null)}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <div className="space-y-2 rounded-lg bg-slate-50 p-2">
+        <div className="grid grid-cols-[1fr_auto] gap-2">
+          <input
+            className={inputClass}
+            placeholder="New property"
+            value={newKey}
+            onChange={(e) => setNewKey(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') addProperty();
+            }}
+          />
+          <select
+            className="rounded-lg border border-slate-200 px-2 py-1 text-sm"
+            value={newType}
+            onChange={(e) => setNewType(e.target.value as AreaPropertyType)}
+          >
+            <option value="string">Text</option>
+            <option value="number">Number</option>
+            <option value="boolean">Yes/No</option>
+            <option value="enum">Choice</option>
+          </select>
+        </div>
+        {newType === 'enum' && (
+          <input
+            className={inputClass}
+            placeholder="Options, comma separated"
+            value={newOptions}
+            onChange={(e) => setNewOptions(e.target.value)}
+          />
+        )}
+        <button
+          className="w-full rounded-lg border border-slate-200 bg-white px-3 py-1 text-sm font-semibold text-slate-700 hover:bg-slate-100 disabled:cursor-not-allowed disabled:text-slate-300"
+          disabled={!canAdd}
+          onClick={addProperty}
+        >
+          Add property
+        </button>
+      </div>
+    </div>
+  );
+}
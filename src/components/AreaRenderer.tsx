@@ -1,7 +1,8 @@
 import type React from 'react';
 import TransformHandles from './TransformHandles';
 import type { Area, Plan, RectHandle, RectShape, PolygonShape, MultiPolygonShape, EllipseShape } from '../domain/types';
-import { polygonAreaWithHoles, shapeBoundingBox, ellipseToRect } from '../domain/geometry';
+import { polygonAreaWithHoles, rectCenter, rectCorners, shapeBoundingBox, ellipseToRect } from '../domain/geometry';
+import { formatArea, formatLength } from '../domain/format';
 
 type Props = {
   area: Area;
@@ -12,9 +13,15 @@ type Props = {
   edgeLabelOffsets?: Record<string, { x: number; y: number }>;
   radiusLabelOffset?: { x: number; y: number };
   showDimensions?: boolean;
+  /** Areas on locked layers are drawn but ignore the pointer, so clicks reach the canvas. */
+  locked?: boolean;
+  /** Member of a locked group; shows a lock badge next to the label. */
+  groupLocked?: boolean;
   onSelect: (id: string) => void;
   onPointerDown: (event: React.PointerEvent, area: Area) => void;
   onHandlePointerDown: (handle: RectHandle, event: React.PointerEvent) => void;
+  /** Shows a rotation knob on a selected rect. */
+  onRotateHandlePointerDown?: (event: React.PointerEvent) => void;
   onLabelPointerDown?: (event: React.PointerEvent, area: Area) => void;
   onEdgeLabelPointerDown?: (event: React.PointerEvent, area: Area, edgeKey: string) => void;
   onRadiusLabelPointerDown?: (event: React.PointerEvent, area: Area) => void;
@@ -35,9 +42,12 @@ export default function AreaRenderer({
   edgeLabelOffsets,
   radiusLabelOffset,
   showDimensions = true,
+  locked = false,
+  groupLocked = false,
   onSelect,
   onPointerDown,
   onHandlePointerDown,
+  onRotateHandlePointerDown,
   onLabelPointerDown,
   onEdgeLabelPointerDown,
   onRadiusLabelPointerDown,
@@ -65,6 +75,20 @@ export default function AreaRenderer({
           : shape.polygons.reduce((acc, poly, idx) => acc + polygonAreaWithHoles(poly, shape.holes?.[idx]), 0);
 
   const bounds = shapeBoundingBox(shape);
+  // Rects and ellipses are drawn unrotated inside a rotated group; polygons carry rotation in their points.
+  const rotation = shape.type === 'rect' || shape.type === 'ellipse' ? (shape.rotation ?? 0) : 0;
+  const pivot = shape.type === 'rect' ? rectCenter(shape) : shape.type === 'ellipse' ? { x: shape.cx, y: shape.cy } : null;
+  const rotateTransform = rotation && pivot ? `rotate(${rotation} ${pivot.x} ${pivot.y})` : undefined;
+  const rectEdges = (() => {
+    if (shape.type !== 'rect') return [];
+    const [nw, ne, se, sw] = rectCorners(shape);
+    return [
+      { key: 'rect-top', a: nw, b: ne },
+      { key: 'rect-right', a: ne, b: se },
+      { key: 'rect-bottom', a: se, b: sw },
+      { key: 'rect-left', a: sw, b: nw },
+    ];
+  })();
   const labelOffsetX = labelOffset?.x ?? 0;
   const labelOffsetY = labelOffset?.y ?? 0;
   const labelInset = 0.18;
@@ -76,7 +100,7 @@ export default function AreaRenderer({
   const labelGap = 0.03;
   const labelPaddingX = 0.03;
   const labelPaddingY = 0.02;
-  const areaText = `${areaSize.toFixed(2)} ${plan.units}²`;
+  const areaText = formatArea(areaSize, plan);
   const nameWidth = area.name.length * nameFontSize * 0.6;
   const areaWidth = areaText.length * areaFontSize * 0.6;
   const labelWidth = Math.max(nameWidth, areaWidth) + labelPaddingX * 2;
@@ -106,7 +130,7 @@ export default function AreaRenderer({
   const radiusLabelFontSize = 0.15;
   const radiusPaddingX = 0.05;
   const radiusPaddingY = 0.03;
-  const radiusLabelText = radius !== null ? `R ${radius.toFixed(2)} ${plan.units}` : '';
+  const radiusLabelText = radius !== null ? `R ${formatLength(radius, plan)}` : '';
   const radiusLabelWidth = radiusLabelText.length * radiusLabelFontSize * 0.6 + radiusPaddingX * 2;
   const radiusLabelHeight = radiusLabelFontSize + radiusPaddingY * 2;
   const polygonPath = (points: { x: number; y: number }[], holes: { x: number; y: number }[][] = []) => {
@@ -119,6 +143,7 @@ export default function AreaRenderer({
 
   return (
     <g
+      pointerEvents={locked ? 'none' : undefined}
       onPointerDown={(e) => {
         e.stopPropagation();
         onSelect(area.id);
@@ -133,103 +158,48 @@ export default function AreaRenderer({
     >
       {isRect ? (
         <g>
-          <rect
-            x={shape.x}
-            y={shape.y}
-            width={shape.width}
-            height={shape.height}
-            fill={area.fill}
-            stroke={selected ? '#111827' : area.stroke}
-            strokeWidth={area.strokeWidth}
-            opacity={baseOpacity}
-            rx={0.04}
-          />
-          {!selected && (
+          <g transform={rotateTransform}>
             <rect
               x={shape.x}
               y={shape.y}
               width={shape.width}
               height={shape.height}
-              fill="url(#hatch)"
-              opacity={hatchOpacity}
+              fill={area.fill}
+              stroke={selected ? '#111827' : area.stroke}
+              strokeWidth={area.strokeWidth}
+              opacity={baseOpacity}
               rx={0.04}
             />
-          )}
-          {showDimensions && (
-            <>
-              <line
-                x1={shape.x}
-                y1={shape.y}
-                x2={shape.x + shape.width}
-                y2={shape.y}
-                stroke="transparent"
-                strokeWidth={0.3}
-                pointerEvents="stroke"
-                onPointerMove={(e) => onEdgeHover?.(e, area, 'rect-top', { x: shape.x, y: shape.y }, { x: shape.x + shape.width, y: shape.y })}
-                onPointerLeave={onEdgeHoverEnd}
-              />
-              <line
-                x1={shape.x + shape.width}
-                y1={shape.y}
-                x2={shape.x + shape.width}
-                y2={shape.y + shape.height}
-                stroke="transparent"
-                strokeWidth={0.3}
-                pointerEvents="stroke"
-                onPointerMove={(e) =>
-                  onEdgeHover?.(
-                    e,
-                    area,
-                    'rect-right',
-                    { x: shape.x + shape.width, y: shape.y },
-                    { x: shape.x + shape.width, y: shape.y + shape.height },
-                  )
-                }
-                onPointerLeave={onEdgeHoverEnd}
-              />
-              <line
-                x1={shape.x + shape.width}
-                y1={shape.y + shape.height}
-                x2={shape.x}
-                y2={shape.y + shape.height}
-                stroke="transparent"
-                strokeWidth={0.3}
-                pointerEvents="stroke"
-                onPointerMove={(e) =>
-                  onEdgeHover?.(
-                    e,
-                    area,
-                    'rect-bottom',
-                    { x: shape.x + shape.width, y: shape.y + shape.height },
-                    { x: shape.x, y: shape.y + shape.height },
-                  )
-                }
-                onPointerLeave={onEdgeHoverEnd}
+            {!selected && (
+              <rect
+                x={shape.x}
+                y={shape.y}
+                width={shape.width}
+                height={shape.height}
+                fill="url(#hatch)"
+                opacity={hatchOpacity}
+                rx={0.04}
               />
+            )}
+          </g>
+          {showDimensions &&
+            rectEdges.map((edge) => (
               <line
-                x1={shape.x}
-                y1={shape.y + shape.height}
-                x2={shape.x}
-                y2={shape.y}
+                key={edge.key}
+                x1={edge.a.x}
+                y1={edge.a.y}
+                x2={edge.b.x}
+                y2={edge.b.y}
                 stroke="transparent"
                 strokeWidth={0.3}
-                pointerEvents="stroke"
-                onPointerMove={(e) =>
-                  onEdgeHover?.(
-                    e,
-                    area,
-                    'rect-left',
-                    { x: shape.x, y: shape.y + shape.height },
-                    { x: shape.x, y: shape.y },
-                  )
-                }
+                pointerEvents={locked ? 'none' : 'stroke'}
+                onPointerMove={(e) => onEdgeHover?.(e, area, edge.key, edge.a, edge.b)}
                 onPointerLeave={onEdgeHoverEnd}
               />
-            </>
-          )}
+            ))}
         </g>
       ) : isEllipse ? (
-        <g>
+        <g transform={rotateTransform}>
           <ellipse
             cx={shape.cx}
             cy={shape.cy}
@@ -281,7 +251,7 @@ export default function AreaRenderer({
                   y2={next.y}
                   stroke="transparent"
                   strokeWidth={0.3}
-                  pointerEvents="stroke"
+                  pointerEvents={locked ? 'none' : 'stroke'}
                   onPointerDown={(e) => {
                     if (selected) onPolygonEdgePointerDown?.(idx, e);
                   }}
@@ -321,7 +291,7 @@ export default function AreaRenderer({
                     y2={next.y}
                     stroke="transparent"
                     strokeWidth={0.3}
-                    pointerEvents="stroke"
+                    pointerEvents={locked ? 'none' : 'stroke'}
                     onPointerDown={(e) => {
                       if (selected) onMultiPolygonEdgePointerDown?.(idx, edgeIdx, e);
                     }}
@@ -401,12 +371,23 @@ export default function AreaRenderer({
         >
           {areaText}
         </text>
+        {groupLocked && (
+          <text
+            x={labelRect.x + labelRect.width + 0.06}
+            y={labelY}
+            fontSize={nameFontSize}
+            dominantBaseline="hanging"
+            style={{ userSelect: 'none', pointerEvents: 'none' }}
+          >
+            🔒
+          </text>
+        )}
       </g>
 
       {selected && (
         <>
           {showDimensions && isRect && (
-            <>
+            <g transform={rotateTransform}>
               <rect
                 x={shape.x}
                 y={shape.y}
@@ -425,6 +406,7 @@ export default function AreaRenderer({
                   e.stopPropagation();
                   onHandlePointerDown(handle, e);
                 }}
+                onRotatePointerDown={onRotateHandlePointerDown}
               />
               <text
                 x={shape.x + shape.width / 2}
@@ -434,7 +416,7 @@ export default function AreaRenderer({
                 fill="#0f172a"
                 style={{ userSelect: 'none', pointerEvents: 'none' }}
               >
-                {shape.width.toFixed(2)} {plan.units}
+                {formatLength(shape.width, plan)}
               </text>
               <text
                 x={shape.x + shape.width + 0.16}
@@ -445,9 +427,9 @@ export default function AreaRenderer({
                 fill="#0f172a"
                 style={{ userSelect: 'none', pointerEvents: 'none' }}
               >
-                {shape.height.toFixed(2)} {plan.units}
+                {formatLength(shape.height, plan)}
               </text>
-            </>
+            </g>
           )}
           {isPolygon &&
             (shape as PolygonShape).points.map((p, idx) => (
@@ -480,7 +462,7 @@ export default function AreaRenderer({
               )),
             )}
           {showDimensions && (isPolygon || shape.type === 'multipolygon') &&
-            getEdgeLabels(shape, edgeLabelOffsets ?? {}, plan.units).map((edge) => (
+            getEdgeLabels(shape, edgeLabelOffsets ?? {}, plan).map((edge) => (
               <g
                 key={edge.key}
                 onPointerDown={(e) => {
@@ -611,7 +593,7 @@ function getTextColor(hex: string) {
 function getEdgeLabels(
   shape: PolygonShape | MultiPolygonShape,
   edgeLabelOffsets: Record<string, { x: number; y: number }>,
-  units: Plan['units'],
+  plan: Plan,
 ) {
   const fontSize = 0.14;
   const paddingX = 0.05;
@@ -643,7 +625,7 @@ function getEdgeLabels(
       const ny = dx / length;
       const key = shape.type === 'polygon' ? `edge-${idx}` : `poly-${polyIdx}-edge-${idx}`;
       const offset = edgeLabelOffsets[key] ?? { x: 0, y: 0 };
-      const label = `${length.toFixed(2)} ${units}`;
+      const label = formatLength(length, plan);
       const width = label.length * fontSize * 0.6 + paddingX * 2;
       const height = fontSize + paddingY * 2;
       const labelX = mid.x + nx * offsetDistance + offset.x;
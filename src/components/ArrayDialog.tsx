@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import LengthInput from './LengthInput';
+import { arrayOffsets, shapesBoundingBox } from '../domain/geometry';
+import { activeLevel } from '../domain/levels';
+import { sequenceNames } from '../domain/naming';
+import type { ArrayLayout } from '../domain/types';
+import { usePlanStore } from '../store/usePlanStore';
+
+type Props = {
+  ids: string[];
+  onClose: () => void;
+};
+
+const inputClass = 'mt-1 w-full rounded-lg border border-slate-200 px-2 py-1 text-sm';
+
+function parseCount(text: string) {
+  const value = parseInt(text, 10);
+  return Number.isInteger(value) && value >= 1 ? value : null;
+}
+
+export default function ArrayDialog({ ids, onClose }: Props) {
+  const plan = usePlanStore((s) => s.plan);
+  const apply = usePlanStore((s) => s.apply);
+  const level = activeLevel(plan);
+  const areas = level.areas.filter((area) => ids.includes(area.id));
+  const bounds = areas.length ? shapesBoundingBox(areas.map((area) => area.shape)) : null;
+  const [kind, setKind] = useState<ArrayLayout['kind']>('linear');
+  const [count, setCount] = useState('3');
+  const [step, setStep] = useState({ dx: bounds?.width ?? 1, dy: 0 });
+  const [rows, setRows] = useState('2');
+  const [columns, setColumns] = useState('3');
+  const [gap, setGap] = useState({ x: 0, y: 0 });
+
+  const parsed = kind === 'linear' ? [parseCount(count)] : [parseCount(rows), parseCount(columns)];
+  const layout: ArrayLayout | null = !parsed.every((n) => n !== null)
+    ? null
+    : kind === 'linear'
+      ? { kind, count: parseCount(count) ?? 1, dx: step.dx, dy: step.dy }
+      : { kind, rows: parseCount(rows) ?? 1, columns: parseCount(columns) ?? 1, gapX: gap.x, gapY: gap.y };
+  // Same placements and names the command will produce, so skipped copies are not previewed.
+  const copies = layout && bounds ? arrayOffsets(layout, bounds, plan.canvas).length : 0;
+  const names = copies
+    ? sequenceNames(
+        areas.map((area) => area.name),
+        copies,
+        level.areas.map((area) => area.name),
+      ).flat()
+    : [];
+
+  const submit = () => {
+    if (!layout || !copies) return;
+    apply({ type: 'area/array', payload: { ids: areas.map((area) => area.id), layout } });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/20 p-4">
+      <div className="w-full max-w-sm rounded-xl bg-white p-6 shadow-lg ring-1 ring-slate-200">
+        <div className="mb-3 flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Array {areas.length > 1 ? `${areas.length} areas` : 'area'}</h2>
+          <button className="text-sm text-slate-500 hover:text-ink" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <form
+          className="grid grid-cols-2 gap-3 text-sm text-slate-600"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit();
+          }}
+        >
+          <label className="col-span-2">
+            Layout
+            <select className={inputClass} value={kind} onChange={(e) => setKind(e.target.value as ArrayLayout['kind'])}>
+              <option value="linear">Linear — copies along a step</option>
+              <option value="grid">Grid — rows × columns</option>
+            </select>
+          </label>
+          {kind === 'linear' ? (
+            <>
+              <label className="col-span-2">
+                Copies
+                <input className={inputClass} value={count} onChange={(e) => setCount(e.target.value)} autoFocus />
+              </label>
+              <label>
+                Step X
+                <LengthInput
+                  value={step.dx}
+                  units={plan.units}
+                  className={inputClass}
+                  onCommit={(value) => setStep((s) => ({ ...s, dx: value }))}
+                />
+              </label>
+              <label>
+                Step Y
+                <LengthInput
+                  value={step.dy}
+                  units={plan.units}
+                  className={inputClass}
+                  onCommit={(value) => setStep((s) => ({ ...s, dy: value }))}
+                />
+              </label>
+            </>
+          ) : (
+            <>
+              <label>
+                Rows
+                <input className={inputClass} value={rows} onChange={(e) => setRows(e.target.value)} autoFocus />
+              </label>
+              <label>
+                Columns
+                <input className={inputClass} value={columns} onChange={(e) => setColumns(e.target.value)} />
+              </label>
+              <label>
+                Gap X
+                <LengthInput
+                  value={gap.x}
+                  units={plan.units}
+                  className={inputClass}
+                  onCommit={(value) => setGap((g) => ({ ...g, x: value }))}
+                />
+              </label>
+              <label>
+                Gap Y
+                <LengthInput
+                  value={gap.y}
+                  units={plan.units}
+                  className={inputClass}
+                  onCommit={(value) => setGap((g) => ({ ...g, y: value }))}
+                />
+              </label>
+            </>
+          )}
+          <p className="col-span-2 text-xs text-slate-400">
+            {names.length
+              ? `${copies} ${copies === 1 ? 'copy' : 'copies'}: ${names[0]}${names.length > 1 ? ` … ${names[names.length - 1]}` : ''}`
+              : layout
+                ? 'No copies fit inside the plan.'
+                : 'Enter whole numbers of 1 or more.'}
+            {' '}Copies past the plan boundary are skipped.
+          </p>
+          <div className="col-span-2 flex justify-end gap-2">
+            <button
+              type="button"
+              className="rounded-lg border border-slate-200 px-3 py-2 font-semibold text-slate-700 hover:bg-slate-100"
+              onClick={onClose}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!names.length}
+              className="rounded-lg bg-slate-900 px-3 py-2 font-semibold text-white hover:bg-slate-800 disabled:opacity-40"
+            >
+              Create
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
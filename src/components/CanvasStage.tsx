@@ -1,7 +1,8 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
-  applyRectResize,
+  ellipsePoints,
   MIN_SIZE,
+  oppositeHandle,
   moveRect,
   rectFromPoints,
   snapValue,
@@ -12,14 +13,61 @@ import {
   clamp,
   polygonArea,
   ellipseToRect,
+  rectCorners,
+  rectHandlePoint,
   rectToEllipse,
+  resizeRotatedRect,
+  rotateShape,
+  scaleShape,
+  shapesBoundingBox,
+  snapAngle,
+  translateShape,
 } from '../domain/geometry';
-import type { Area, BoundaryHandle, EllipseShape, PolygonShape, RectHandle, RectShape, MultiPolygonShape } from '../domain/types';
+import { activeLayer, areasInLayerOrder, editableAreaIds, findLayer, isAreaLocked, isAreaVisible } from '../domain/layers';
+import { activeLevel } from '../domain/levels';
+import { formatArea, formatLength } from '../domain/format';
+import { isAreaGroupLocked } from '../domain/locking';
+import { METRES_PER_UNIT, planSnapGrid } from '../domain/units';
+import { groupAreaIds, groupForArea, isAreaGroupHidden } from '../domain/grouping';
+import { areaEdges, nearestAreaEdge, offsetAlongEdge } from '../domain/openings';
+import { offsetThrough, resolveDimension } from '../domain/dimensions';
+import type { ResolvedDimension } from '../domain/dimensions';
+import { nearestEdgePoint, nearestSnapTarget, snapTargets } from '../domain/snapping';
+import { measurePath } from '../domain/measure';
+import { translateWalls } from '../domain/walls';
+import type {
+  Annotation,
+  Area,
+  BoundaryHandle,
+  Dimension,
+  DimensionAnchor,
+  EllipseShape,
+  Fixture,
+  Opening,
+  OpeningKind,
+  PolygonShape,
+  RectHandle,
+  RectShape,
+  MultiPolygonShape,
+  ReorderDirection,
+  Wall,
+} from '../domain/types';
 import { usePlanStore } from '../store/usePlanStore';
 import { usePromptStore } from '../store/usePromptStore';
+import AnnotationLayer from './AnnotationLayer';
 import AreaRenderer from './AreaRenderer';
+import ArrayDialog from './ArrayDialog';
+import DimensionLayer from './DimensionLayer';
+import FixtureLayer from './FixtureLayer';
+import OffsetDialog from './OffsetDialog';
+import OpeningLayer from './OpeningLayer';
+import ScaleDialog from './ScaleDialog';
+import TransformHandles from './TransformHandles';
+import WallLayer from './WallLayer';
 import polygonClipping from 'polygon-clipping';
 
+type MeasurePoint = { x: number; y: number; snap?: 'vertex' | 'edge' };
+
 type Interaction =
   | { kind: 'panning'; start: { x: number; y: number }; panStart: { x: number; y: number } }
   | { kind: 'dragging-area'; areaId: string; origin: RectShape; start: { x: number; y: number } }
@@ -68,9 +116,35 @@ type Interaction =
   | { kind: 'drawing-circle'; start: { x: number; y: number }; current: { x: number; y: number } }
   | { kind: 'drawing-semi-circle'; start: { x: number; y: number }; current: { x: number; y: number } }
   | { kind: 'drawing-quadrant'; start: { x: number; y: number }; current: { x: number; y: number } }
-  | { kind: 'drawing-polygon'; points: { x: number; y: number }[]; hover?: { x: number; y: number } };
+  | { kind: 'drawing-polygon'; points: { x: number; y: number }[]; hover?: { x: number; y: number } }
+  | { kind: 'drawing-wall'; points: { x: number; y: number }[]; hover?: { x: number; y: number } }
+  | { kind: 'dragging-wall'; ids: string[]; start: { x: number; y: number } }
+  | { kind: 'dragging-opening'; id: string; areaId: string; edgeKey: string }
+  | { kind: 'dragging-fixture'; ids: string[]; start: { x: number; y: number } }
+  | { kind: 'drawing-annotation'; start: { x: number; y: number }; current: { x: number; y: number } }
+  | { kind: 'dragging-annotation'; ids: string[]; start: { x: number; y: number } }
+  | { kind: 'dragging-leader'; id: string; index: number }
+  | { kind: 'drawing-dimension'; points: DimensionAnchor[]; hover?: DimensionAnchor }
+  | { kind: 'dragging-dimension'; id: string }
+  | { kind: 'measuring'; points: { x: number; y: number }[]; hover?: MeasurePoint; closed: boolean }
+  | { kind: 'dragging-group'; ids: string[]; start: { x: number; y: number } }
+  | { kind: 'rotating'; ids: string[]; center: { x: number; y: number }; start: { x: number; y: number }; angle: number }
+  | {
+      kind: 'scaling';
+      ids: string[];
+      handle: RectHandle;
+      origin: { x: number; y: number };
+      start: { x: number; y: number };
+      factor: { x: number; y: number };
+    };
 
 const paddingPx = 36;
+const REORDER_ITEMS: { direction: ReorderDirection; label: string; shortcut: string }[] = [
+  { direction: 'front', label: 'Bring to front', shortcut: 'Ctrl+Shift+]' },
+  { direction: 'forward', label: 'Bring forward', shortcut: 'Ctrl+]' },
+  { direction: 'backward', label: 'Send backward', shortcut: 'Ctrl+[' },
+  { direction: 'back', label: 'Send to back', shortcut: 'Ctrl+Shift+[' },
+];
 type Ring = [number, number][];
 type PolygonRings = Ring[];
 
@@ -86,27 +160,10 @@ const closeRing = (points: { x: number; y: number }[]): Ring => {
 
 const shapeToPolygons = (shape: RectShape | PolygonShape | MultiPolygonShape | EllipseShape): PolygonRings[] => {
   if (shape.type === 'rect') {
-    const { x, y, width, height } = shape;
-    return [
-      [
-        [
-          [x, y],
-          [x + width, y],
-          [x + width, y + height],
-          [x, y + height],
-          [x, y],
-        ],
-      ],
-    ];
+    return [[closeRing(rectCorners(shape))]];
   }
   if (shape.type === 'ellipse') {
-    const segments = 48;
-    const points: { x: number; y: number }[] = [];
-    for (let i = 0; i < segments; i += 1) {
-      const angle = (i / segments) * Math.PI * 2;
-      points.push({ x: shape.cx + Math.cos(angle) * shape.rx, y: shape.cy + Math.sin(angle) * shape.ry });
-    }
-    return [[closeRing(points)]];
+    return [[closeRing(ellipsePoints(shape))]];
   }
   if (shape.type === 'polygon') {
     return [[closeRing(shape.points), ...(shape.holes ?? []).map(closeRing)]];
@@ -145,16 +202,22 @@ export default function CanvasStage() {
   const containerRef = useRef<HTMLDivElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
   const plan = usePlanStore((s) => s.plan);
+  const level = activeLevel(plan);
   const selection = usePlanStore((s) => s.selection);
   const setSelection = usePlanStore((s) => s.setSelection);
   const activeTool = usePlanStore((s) => s.activeTool);
   const paletteColor = usePlanStore((s) => s.paletteColor);
+  const activeFixture = usePlanStore((s) => s.activeFixture);
+  const activeDimensionStyle = usePlanStore((s) => s.activeDimensionStyle);
   const snapEnabled = usePlanStore((s) => s.snapEnabled);
+  const snapGrid = usePlanStore((s) => planSnapGrid(s.plan));
   const showDimensions = usePlanStore((s) => s.showDimensions);
   const showGrid = usePlanStore((s) => s.showGrid);
   const apply = usePlanStore((s) => s.apply);
   const undo = usePlanStore((s) => s.undo);
   const history = usePlanStore((s) => s.history);
+  const notice = usePlanStore((s) => s.notice);
+  const dismissNotice = usePlanStore((s) => s.dismissNotice);
   const [interaction, setInteraction] = useState<Interaction | null>(null);
   const [draftShapes, setDraftShapes] = useState<Record<string, RectShape | PolygonShape | MultiPolygonShape | EllipseShape>>({});
   const [draftLabelOffsets, setDraftLabelOffsets] = useState<Record<string, { x: number; y: number }>>({});
@@ -168,9 +231,18 @@ export default function CanvasStage() {
     point: { x: number; y: number };
   } | null>(null);
   const [draftNew, setDraftNew] = useState<RectShape | null>(null);
+  const [draftWallDelta, setDraftWallDelta] = useState<{ dx: number; dy: number } | null>(null);
+  const [draftFixtureDelta, setDraftFixtureDelta] = useState<{ dx: number; dy: number } | null>(null);
+  const [draftAnnotationDelta, setDraftAnnotationDelta] = useState<{ dx: number; dy: number } | null>(null);
+  const [draftLeader, setDraftLeader] = useState<{ id: string; points: { x: number; y: number }[] } | null>(null);
+  const [draftDimensionOffset, setDraftDimensionOffset] = useState<{ id: string; offset: number } | null>(null);
+  const [draftOpeningOffset, setDraftOpeningOffset] = useState<{ id: string; offset: number } | null>(null);
   const [draftBoundary, setDraftBoundary] = useState<{ width: number; height: number } | null>(null);
   const [spacePressed, setSpacePressed] = useState(false);
   const [size, setSize] = useState({ width: 900, height: 700 });
+  const [scaleDialog, setScaleDialog] = useState<{ ids: string[]; point: { x: number; y: number } } | null>(null);
+  const [arrayIds, setArrayIds] = useState<string[] | null>(null);
+  const [offsetIds, setOffsetIds] = useState<string[] | null>(null);
   const [contextMenu, setContextMenu] = useState<{ visible: boolean; x: number; y: number; targetId?: string }>({
     visible: false,
     x: 0,
@@ -184,6 +256,7 @@ export default function CanvasStage() {
   const longPressTriggered = useRef(false);
   const canUnmerge = history.undo.at(-1)?.type === 'area/merge';
 
+
   const completePolygon = useCallback(() => {
     if (interaction?.kind !== 'drawing-polygon') return;
     if (interaction.points.length < 3) {
@@ -194,6 +267,17 @@ export default function CanvasStage() {
     setInteraction(null);
   }, [apply, interaction]);
 
+  const completeWall = useCallback(
+    (closed = false) => {
+      if (interaction?.kind !== 'drawing-wall') return;
+      if (interaction.points.length >= 2) {
+        apply({ type: 'wall/create', payload: { points: interaction.points, closed } });
+      }
+      setInteraction(null);
+    },
+    [apply, interaction],
+  );
+
   const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
 
   const projectPointToSegment = (p: { x: number; y: number }, a: { x: number; y: number }, b: { x: number; y: number }) => {
@@ -238,11 +322,26 @@ export default function CanvasStage() {
   const baseScale = useMemo(() => {
     const wScale = (size.width - paddingPx * 2) / plan.canvas.width;
     const hScale = (size.height - paddingPx * 2) / plan.canvas.height;
-    return Math.max(2, Math.min(wScale, hScale));
-  }, [plan.canvas.height, plan.canvas.width, size.height, size.width]);
+    // Floor of 2px per metre, whatever the plan's units.
+    return Math.max(2 * METRES_PER_UNIT[plan.units], Math.min(wScale, hScale));
+  }, [plan.canvas.height, plan.canvas.width, plan.units, size.height, size.width]);
 
   const scale = baseScale * plan.canvas.zoom;
 
+  /** New dimension lines start a short distance off the measured points. */
+  const defaultDimensionOffset = -24 / scale;
+
+  const completeDimension = useCallback(() => {
+    if (interaction?.kind !== 'drawing-dimension') return;
+    if (interaction.points.length >= 2) {
+      apply({
+        type: 'dimension/create',
+        payload: { style: activeDimensionStyle, points: interaction.points, offset: defaultDimensionOffset },
+      });
+    }
+    setInteraction(null);
+  }, [apply, interaction, activeDimensionStyle, defaultDimensionOffset]);
+
   const availablePolygons = useMemo(() => {
     const canvasPoly: PolygonRings = [
       [
@@ -253,12 +352,12 @@ export default function CanvasStage() {
         [0, 0],
       ],
     ];
-    const occupied = plan.areas.flatMap((area) => shapeToPolygons(area.shape));
+    const occupied = level.areas.flatMap((area) => shapeToPolygons(area.shape));
     const diff = occupied.length ? polygonClipping.difference(canvasPoly, ...occupied) : [canvasPoly];
     return (diff ?? [])
       .map((poly: Ring[]) => ringToPoints(poly[0] ?? []))
       .filter((points) => points.length >= 3);
-  }, [plan.areas, plan.canvas.height, plan.canvas.width]);
+  }, [level.areas, plan.canvas.height, plan.canvas.width]);
 
   useEffect(() => {
     const down = (e: KeyboardEvent) => {
@@ -270,10 +369,26 @@ export default function CanvasStage() {
         target.isContentEditable;
       if (isTyping) return;
       if (e.code === 'Space') setSpacePressed(true);
-      if ((e.key === 'Delete' || e.key === 'Backspace') && selection.areaIds.length) {
-        selection.areaIds.forEach((id) => apply({ type: 'area/delete', payload: { id } }));
+      const editableIds = editableAreaIds(level, selection.areaIds);
+      if ((e.key === 'Delete' || e.key === 'Backspace') && editableIds.length) {
+        editableIds.forEach((id) => apply({ type: 'area/delete', payload: { id } }));
+      }
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selection.wallIds?.length) {
+        apply({ type: 'wall/delete', payload: { ids: selection.wallIds } });
+      }
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selection.openingIds?.length) {
+        apply({ type: 'opening/delete', payload: { ids: selection.openingIds } });
+      }
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selection.fixtureIds?.length) {
+        apply({ type: 'fixture/delete', payload: { ids: selection.fixtureIds } });
+      }
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selection.annotationIds?.length) {
+        apply({ type: 'annotation/delete', payload: { ids: selection.annotationIds } });
+      }
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selection.dimensionIds?.length) {
+        apply({ type: 'dimension/delete', payload: { ids: selection.dimensionIds } });
       }
-      if (selection.areaIds.length && ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(e.key)) {
+      if (editableIds.length && ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(e.key)) {
         e.preventDefault();
         const stepPx = e.shiftKey ? 10 : 1;
         const step = stepPx / scale;
@@ -283,12 +398,23 @@ export default function CanvasStage() {
         if (e.key === 'ArrowDown') dy = step;
         if (e.key === 'ArrowLeft') dx = -step;
         if (e.key === 'ArrowRight') dx = step;
-        apply({ type: 'area/move-multi', payload: { ids: selection.areaIds, dx, dy } });
+        apply({ type: 'area/move-multi', payload: { ids: editableIds, dx, dy } });
       }
       if (e.key === 'Enter') {
         completePolygon();
+        completeWall();
+        completeDimension();
+        if (interaction?.kind === 'measuring' && interaction.points.length >= 3) {
+          setInteraction({ ...interaction, hover: undefined, closed: true });
+        }
       }
-      if (e.key === 'Escape' && interaction?.kind === 'drawing-polygon') {
+      if (
+        e.key === 'Escape' &&
+        (interaction?.kind === 'drawing-polygon' ||
+          interaction?.kind === 'drawing-wall' ||
+          interaction?.kind === 'drawing-dimension' ||
+          interaction?.kind === 'measuring')
+      ) {
         setInteraction(null);
       }
     };
@@ -301,7 +427,13 @@ export default function CanvasStage() {
       window.removeEventListener('keydown', down);
       window.removeEventListener('keyup', up);
     };
-  }, [apply, selection.areaIds, completePolygon, interaction, scale, prompt.open]);
+  }, [apply, level, selection.areaIds, selection.wallIds, selection.openingIds, selection.fixtureIds, selection.annotationIds, selection.dimensionIds, completePolygon, completeWall, completeDimension, interaction, scale, prompt.open]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = window.setTimeout(dismissNotice, 3000);
+    return () => window.clearTimeout(timer);
+  }, [notice, dismissNotice]);
 
   const toWorld = (evt: { clientX: number; clientY: number }) => {
     const rect = svgRef.current?.getBoundingClientRect();
@@ -366,6 +498,26 @@ export default function CanvasStage() {
       // Allow native context menu
       return;
     }
+    if (activeTool === 'place-door' || activeTool === 'place-window') {
+      placeOpening(toWorld(event), activeTool === 'place-door' ? 'door' : 'window');
+      return;
+    }
+    if (activeTool === 'place-fixture') {
+      placeFixture(toWorld(event));
+      return;
+    }
+    if (activeTool === 'annotate') {
+      startAnnotation(event);
+      return;
+    }
+    if (activeTool === 'dimension') {
+      addDimensionPoint(event);
+      return;
+    }
+    if (activeTool === 'measure') {
+      addMeasurePoint(event);
+      return;
+    }
     if (activeTool === 'select' && event.button === 0) {
       startLongPress(event, area.id);
     }
@@ -402,6 +554,14 @@ export default function CanvasStage() {
         }
       }
     }
+    const group = activeTool === 'select' && !event.shiftKey ? groupForArea(level, area.id) : undefined;
+    const members = group ? groupAreaIds(level, group.id) : [];
+    if (members.length > 1) {
+      const ids = editableAreaIds(level, members).filter((id) => !isAreaGroupHidden(level, id));
+      setSelection({ areaIds: ids });
+      setInteraction({ kind: 'dragging-group', ids, start: toWorld(event) });
+      return;
+    }
     const currentlySelected = selection.areaIds;
     const alreadySelected = currentlySelected.includes(area.id);
     const nextSelection = event.shiftKey
@@ -443,6 +603,275 @@ export default function CanvasStage() {
     }
   };
 
+  const onWallPointerDown = (event: React.PointerEvent, wall: Wall) => {
+    if (event.button === 2 && !event.ctrlKey) return;
+    if (activeTool !== 'select' || spacePressed) return;
+    event.stopPropagation();
+    const world = toWorld(event);
+    if (event.altKey) {
+      apply({ type: 'wall/split', payload: { id: wall.id, point: world } });
+      return;
+    }
+    const current = selection.wallIds ?? [];
+    const ids = event.shiftKey
+      ? Array.from(new Set([...current, wall.id]))
+      : current.includes(wall.id)
+        ? current
+        : [wall.id];
+    setSelection({ areaIds: [], wallIds: ids });
+    setInteraction({ kind: 'dragging-wall', ids, start: world });
+  };
+
+  const placeOpening = (world: { x: number; y: number }, kind: OpeningKind) => {
+    const hosts = level.areas.filter((area) => isAreaVisible(level, area) && !isAreaLocked(level, area));
+    const hit = nearestAreaEdge(hosts, world, 12 / scale);
+    if (!hit) return;
+    const offset = offsetAlongEdge(hit.edge, world);
+    apply({
+      type: 'opening/create',
+      payload: {
+        areaId: hit.area.id,
+        edgeKey: hit.edge.key,
+        kind,
+        offset: snapEnabled ? snapValue(offset, snapGrid) : offset,
+      },
+    });
+  };
+
+  const startRotation = (event: React.PointerEvent, ids: string[]) => {
+    const areas = level.areas.filter((a) => editableAreaIds(level, ids).includes(a.id));
+    if (!areas.length) return;
+    const bounds = shapesBoundingBox(areas.map((a) => a.shape));
+    const center = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+    setInteraction({ kind: 'rotating', ids: areas.map((a) => a.id), center, start: toWorld(event), angle: 0 });
+  };
+
+  /** Clockwise degrees swept around the pivot; Shift snaps to the common angles. */
+  const rotationAngle = (
+    rotating: { center: { x: number; y: number }; start: { x: number; y: number } },
+    world: { x: number; y: number },
+    snap: boolean,
+  ) => {
+    const { center, start } = rotating;
+    const angle =
+      ((Math.atan2(world.y - center.y, world.x - center.x) - Math.atan2(start.y - center.y, start.x - center.x)) * 180) /
+      Math.PI;
+    return snapAngle(angle, snap);
+  };
+
+  /** Scales `ids` about the handle opposite the one grabbed on `frame`. */
+  const startScaling = (event: React.PointerEvent, ids: string[], handle: RectHandle, frame: RectShape) => {
+    const editable = editableAreaIds(level, ids);
+    if (!editable.length) return;
+    setInteraction({
+      kind: 'scaling',
+      ids: editable,
+      handle,
+      origin: rectHandlePoint(frame, oppositeHandle(handle)),
+      start: toWorld(event),
+      factor: { x: 1, y: 1 },
+    });
+  };
+
+  /** Per-axis factors for the handle's sides, or one factor along the drag when `uniform`. */
+  const scalingFactor = (
+    scaling: { handle: RectHandle; origin: { x: number; y: number }; start: { x: number; y: number } },
+    world: { x: number; y: number },
+    uniform: boolean,
+  ) => {
+    const { handle, origin, start } = scaling;
+    const min = 0.01;
+    const from = { x: start.x - origin.x, y: start.y - origin.y };
+    if (uniform) {
+      const length = from.x * from.x + from.y * from.y;
+      const s = length ? ((world.x - origin.x) * from.x + (world.y - origin.y) * from.y) / length : 1;
+      return { x: Math.max(min, s), y: Math.max(min, s) };
+    }
+    const horizontal = (handle.includes('e') || handle.includes('w')) && from.x;
+    const vertical = (handle.includes('n') || handle.includes('s')) && from.y;
+    return {
+      x: horizontal ? Math.max(min, (world.x - origin.x) / from.x) : 1,
+      y: vertical ? Math.max(min, (world.y - origin.y) / from.y) : 1,
+    };
+  };
+
+  const groupDragDelta = (start: { x: number; y: number }, world: { x: number; y: number }) => {
+    const dx = world.x - start.x;
+    const dy = world.y - start.y;
+    return snapEnabled ? { dx: snapValue(dx, snapGrid), dy: snapValue(dy, snapGrid) } : { dx, dy };
+  };
+
+  const placeFixture = (world: { x: number; y: number }) => {
+    const point = snapEnabled ? { x: snapValue(world.x, snapGrid), y: snapValue(world.y, snapGrid) } : world;
+    apply({ type: 'fixture/create', payload: { symbol: activeFixture, x: point.x, y: point.y } });
+  };
+
+  const onFixturePointerDown = (event: React.PointerEvent, fixture: Fixture) => {
+    if (event.button === 2 && !event.ctrlKey) return;
+    if (activeTool === 'delete') {
+      event.stopPropagation();
+      apply({ type: 'fixture/delete', payload: { ids: [fixture.id] } });
+      return;
+    }
+    if (activeTool !== 'select' || spacePressed) return;
+    event.stopPropagation();
+    const current = selection.fixtureIds ?? [];
+    const ids = event.shiftKey
+      ? Array.from(new Set([...current, fixture.id]))
+      : current.includes(fixture.id)
+        ? current
+        : [fixture.id];
+    setSelection({ areaIds: [], fixtureIds: ids });
+    setInteraction({ kind: 'dragging-fixture', ids, start: toWorld(event) });
+  };
+
+  const snapPoint = (world: { x: number; y: number }) =>
+    snapEnabled ? { x: snapValue(world.x, snapGrid), y: snapValue(world.y, snapGrid) } : world;
+
+  const startAnnotation = (event: React.PointerEvent) => {
+    const world = snapPoint(toWorld(event));
+    setInteraction({ kind: 'drawing-annotation', start: world, current: world });
+  };
+
+  /** A click places a note; dragging from a point places a callout whose arrow ends there. */
+  const finishAnnotation = (start: { x: number; y: number }, end: { x: number; y: number }) => {
+    const callout = distance(start, end) * scale > 6;
+    openPrompt(callout ? 'Callout text' : 'Note text', '', (val) => {
+      const text = val.trim();
+      if (!text) return;
+      apply({
+        type: 'annotation/create',
+        payload: callout ? { text, x: end.x, y: end.y, leader: [start] } : { text, x: start.x, y: start.y },
+      });
+    });
+  };
+
+  const onAnnotationPointerDown = (event: React.PointerEvent, annotation: Annotation) => {
+    if (event.button === 2 && !event.ctrlKey) return;
+    if (activeTool === 'delete') {
+      event.stopPropagation();
+      apply({ type: 'annotation/delete', payload: { ids: [annotation.id] } });
+      return;
+    }
+    if (activeTool === 'label') {
+      event.stopPropagation();
+      openPrompt('Edit annotation', annotation.text, (val) => {
+        if (val.trim()) apply({ type: 'annotation/update', payload: { id: annotation.id, text: val.trim() } });
+      });
+      return;
+    }
+    if (activeTool !== 'select' || spacePressed) return;
+    event.stopPropagation();
+    const current = selection.annotationIds ?? [];
+    const ids = event.shiftKey
+      ? Array.from(new Set([...current, annotation.id]))
+      : current.includes(annotation.id)
+        ? current
+        : [annotation.id];
+    setSelection({ areaIds: [], annotationIds: ids });
+    setInteraction({ kind: 'dragging-annotation', ids, start: toWorld(event) });
+  };
+
+  const onLeaderPointPointerDown = (event: React.PointerEvent, annotation: Annotation, index: number) => {
+    if (event.button !== 0 || !annotation.leader) return;
+    event.stopPropagation();
+    if (event.altKey) {
+      // Alt-click removes a bend; the arrow tip always stays.
+      if (index < annotation.leader.length - 1) {
+        apply({ type: 'annotation/update', payload: { id: annotation.id, leader: annotation.leader.filter((_, i) => i !== index) } });
+      }
+      return;
+    }
+    if (event.shiftKey) {
+      // Shift-drag pulls a new bend out of the point, between it and the text.
+      const leader = [...annotation.leader.slice(0, index), annotation.leader[index], ...annotation.leader.slice(index)];
+      setDraftLeader({ id: annotation.id, points: leader });
+    } else {
+      setDraftLeader({ id: annotation.id, points: annotation.leader });
+    }
+    setInteraction({ kind: 'dragging-leader', id: annotation.id, index });
+  };
+
+  /** Attaches to a nearby area vertex, wall end or boundary corner, else snaps to the grid. */
+  const snapAnchor = (world: { x: number; y: number }): DimensionAnchor => {
+    const visible = level.areas.filter((area) => isAreaVisible(level, area) && !isAreaGroupHidden(level, area.id));
+    const targets = snapTargets(plan, level, visible);
+    const target = nearestSnapTarget(targets, world, 10 / scale);
+    return target ? { ...target.point, ref: target.ref } : snapPoint(world);
+  };
+
+  const addDimensionPoint = (evt: React.PointerEvent) => {
+    const anchor = snapAnchor(toWorld(evt));
+    if (interaction?.kind !== 'drawing-dimension') {
+      setSelection({ areaIds: [] });
+      setInteraction({ kind: 'drawing-dimension', points: [anchor] });
+      return;
+    }
+    const last = interaction.points[interaction.points.length - 1];
+    if (distance(anchor, last) === 0) return;
+    const points = [...interaction.points, anchor];
+    if (activeDimensionStyle === 'chained') {
+      setInteraction({ kind: 'drawing-dimension', points });
+      return;
+    }
+    apply({ type: 'dimension/create', payload: { style: activeDimensionStyle, points, offset: defaultDimensionOffset } });
+    setInteraction(null);
+  };
+
+  /** Measure points snap to area vertices, then to area edges; they never touch the plan. */
+  const snapMeasurePoint = (world: { x: number; y: number }): MeasurePoint => {
+    const visible = level.areas.filter((area) => isAreaVisible(level, area) && !isAreaGroupHidden(level, area.id));
+    const vertex = nearestSnapTarget(snapTargets(plan, level, visible), world, 10 / scale);
+    if (vertex) return { ...vertex.point, snap: 'vertex' };
+    const edgePoint = nearestEdgePoint(visible, world, 8 / scale);
+    return edgePoint ? { ...edgePoint, snap: 'edge' } : world;
+  };
+
+  const addMeasurePoint = (evt: React.PointerEvent) => {
+    const { x, y } = snapMeasurePoint(toWorld(evt));
+    const point = { x, y };
+    // Areas clicked while measuring would otherwise be selected and show their handles.
+    setSelection({ areaIds: [] });
+    if (interaction?.kind !== 'measuring' || interaction.closed) {
+      setInteraction({ kind: 'measuring', points: [point], closed: false });
+      return;
+    }
+    const { points } = interaction;
+    if (distance(point, points[points.length - 1]) === 0) return;
+    // Clicking the first point again closes the shape and reports its area.
+    if (points.length >= 3 && distance(point, points[0]) <= 10 / scale) {
+      setInteraction({ kind: 'measuring', points, closed: true });
+      return;
+    }
+    setInteraction({ kind: 'measuring', points: [...points, point], closed: false });
+  };
+
+  const onDimensionPointerDown = (event: React.PointerEvent, dimension: Dimension) => {
+    if (event.button === 2 && !event.ctrlKey) return;
+    if (activeTool === 'delete') {
+      event.stopPropagation();
+      apply({ type: 'dimension/delete', payload: { ids: [dimension.id] } });
+      return;
+    }
+    if (activeTool !== 'select' || spacePressed) return;
+    event.stopPropagation();
+    setSelection({ areaIds: [], dimensionIds: [dimension.id] });
+    setInteraction({ kind: 'dragging-dimension', id: dimension.id });
+  };
+
+  const onOpeningPointerDown = (event: React.PointerEvent, opening: Opening) => {
+    if (event.button === 2 && !event.ctrlKey) return;
+    if (activeTool === 'delete') {
+      event.stopPropagation();
+      apply({ type: 'opening/delete', payload: { ids: [opening.id] } });
+      return;
+    }
+    if (activeTool !== 'select' || spacePressed) return;
+    event.stopPropagation();
+    setSelection({ areaIds: [], openingIds: [opening.id] });
+    setInteraction({ kind: 'dragging-opening', id: opening.id, areaId: opening.areaId, edgeKey: opening.edgeKey });
+  };
+
   const onLabelPointerDown = (event: React.PointerEvent, area: Area) => {
     if (event.button === 2 && !event.ctrlKey) return;
     if (activeTool !== 'select') return;
@@ -478,12 +907,17 @@ export default function CanvasStage() {
 
   const onHandlePointerDown = (handle: RectHandle, event: React.PointerEvent, area: Area) => {
     if (area.shape.type !== 'rect' && area.shape.type !== 'ellipse') return;
+    if (event.shiftKey && area.shape.type === 'rect') {
+      const ids = selection.areaIds.includes(area.id) ? selection.areaIds : [area.id];
+      startScaling(event, ids, handle, area.shape);
+      return;
+    }
     const world = toWorld(event);
     if (area.shape.type === 'rect') {
       if (selection.areaIds.length > 1 && selection.areaIds.includes(area.id)) {
         const origins: Record<string, RectShape> = {};
         selection.areaIds.forEach((id) => {
-          const found = plan.areas.find((a) => a.id === id && a.shape.type === 'rect') as Area & {
+          const found = level.areas.find((a) => a.id === id && a.shape.type === 'rect') as Area & {
             shape: RectShape;
           } | undefined;
           if (found) origins[id] = found.shape;
@@ -656,13 +1090,7 @@ export default function CanvasStage() {
   };
 
   const insertRectPoint = (area: Area & { shape: RectShape }, world: { x: number; y: number }) => {
-    const { x, y, width, height } = area.shape;
-    const points = [
-      { x, y },
-      { x: x + width, y },
-      { x: x + width, y: y + height },
-      { x, y: y + height },
-    ];
+    const points = rectCorners(area.shape);
     let bestIdx = 0;
     let bestDist = Number.POSITIVE_INFINITY;
     let bestPoint = world;
@@ -686,7 +1114,7 @@ export default function CanvasStage() {
   };
 
   const removePolygonPoint = (areaId: string, index: number) => {
-    const area = plan.areas.find((a) => a.id === areaId);
+    const area = level.areas.find((a) => a.id === areaId);
     if (!area || area.shape.type !== 'polygon') return;
     if (area.shape.points.length <= 3) return;
     const points = area.shape.points.filter((_, idx) => idx !== index);
@@ -695,7 +1123,7 @@ export default function CanvasStage() {
   };
 
   const removeMultiPolygonPoint = (areaId: string, polyIndex: number, pointIndex: number) => {
-    const area = plan.areas.find((a) => a.id === areaId);
+    const area = level.areas.find((a) => a.id === areaId);
     if (!area || area.shape.type !== 'multipolygon') return;
     const polygons = area.shape.polygons.map((poly, idx) =>
       idx === polyIndex ? poly.filter((_, pIdx) => pIdx !== pointIndex) : poly,
@@ -704,6 +1132,36 @@ export default function CanvasStage() {
     apply({ type: 'area/set-multipolygon', payload: { id: areaId, polygons } });
   };
 
+  // Wall points snap to existing wall endpoints first so new walls join cleanly, then to the grid.
+  const snapWallPoint = (world: { x: number; y: number }, anchor?: { x: number; y: number }, orthogonal = false) => {
+    const point = orthogonal && anchor ? constrainOrthogonal(world, anchor) : world;
+    const tolerance = 10 / scale;
+    const endpoints = (level.walls ?? []).flatMap((wall) => [wall.start, wall.end]);
+    const near = endpoints.find((p) => distance(p, point) <= tolerance);
+    if (near && !orthogonal) return near;
+    if (!snapEnabled) return point;
+    const snapped = { x: snapValue(point.x, snapGrid), y: snapValue(point.y, snapGrid) };
+    return orthogonal && anchor ? constrainOrthogonal(snapped, anchor) : snapped;
+  };
+
+  const addWallPoint = (evt: React.PointerEvent) => {
+    const world = toWorld(evt);
+    if (interaction?.kind === 'drawing-wall') {
+      const last = interaction.points[interaction.points.length - 1];
+      const point = snapWallPoint(world, last, evt.shiftKey);
+      if (distance(point, last) === 0) return;
+      // Clicking the first point again closes the loop.
+      if (interaction.points.length > 2 && distance(point, interaction.points[0]) <= 10 / scale) {
+        completeWall(true);
+        return;
+      }
+      setInteraction({ kind: 'drawing-wall', points: [...interaction.points, point] });
+    } else {
+      setSelection({ areaIds: [] });
+      setInteraction({ kind: 'drawing-wall', points: [snapWallPoint(world)] });
+    }
+  };
+
   const addPolygonPoint = (evt: React.PointerEvent) => {
     const world = toWorld(evt);
     if (interaction?.kind === 'drawing-polygon') {
@@ -721,7 +1179,7 @@ export default function CanvasStage() {
       removePolygonPoint(areaId, index);
       return;
     }
-    const area = plan.areas.find((a) => a.id === areaId && a.shape.type === 'polygon') as
+    const area = level.areas.find((a) => a.id === areaId && a.shape.type === 'polygon') as
       | (Area & { shape: PolygonShape })
       | undefined;
     if (!area) return;
@@ -742,7 +1200,7 @@ export default function CanvasStage() {
       removeMultiPolygonPoint(areaId, polyIndex, pointIndex);
       return;
     }
-    const area = plan.areas.find((a) => a.id === areaId && a.shape.type === 'multipolygon') as
+    const area = level.areas.find((a) => a.id === areaId && a.shape.type === 'multipolygon') as
       | (Area & { shape: MultiPolygonShape })
       | undefined;
     if (!area) return;
@@ -759,7 +1217,7 @@ export default function CanvasStage() {
   };
 
   const handlePolygonEdgePointerDown = (areaId: string, index: number, evt: React.PointerEvent) => {
-    const area = plan.areas.find((a) => a.id === areaId);
+    const area = level.areas.find((a) => a.id === areaId);
     if (!area || area.shape.type !== 'polygon') return;
     if (area.shape.points.length <= 3) return;
     evt.stopPropagation();
@@ -785,7 +1243,7 @@ export default function CanvasStage() {
   };
 
   const handleMultiPolygonEdgePointerDown = (areaId: string, polyIndex: number, index: number, evt: React.PointerEvent) => {
-    const area = plan.areas.find((a) => a.id === areaId);
+    const area = level.areas.find((a) => a.id === areaId);
     if (!area || area.shape.type !== 'multipolygon') return;
     const poly = area.shape.polygons[polyIndex];
     if (!poly || poly.length <= 3) return;
@@ -849,13 +1307,13 @@ export default function CanvasStage() {
       const ids = selection.areaIds.length ? selection.areaIds : [interaction.areaId];
       const drafts: Record<string, RectShape | PolygonShape> = {};
       ids.forEach((id) => {
-        const area = plan.areas.find((a) => a.id === id);
+        const area = level.areas.find((a) => a.id === id);
         if (area && area.shape.type === 'rect') {
           const moved = moveRect(area.shape, { dx, dy }, plan.canvas);
-          const neighborEdges = plan.areas
+          const neighborEdges = level.areas
             .filter((a): a is Area & { shape: RectShape } => a.id !== id && a.shape.type === 'rect')
             .flatMap((a) => [a.shape.x, a.shape.x + a.shape.width, a.shape.y, a.shape.y + a.shape.height]);
-          const snapped = snapEnabled ? snapRect(moved, 0.25, neighborEdges) : moved;
+          const snapped = snapEnabled ? snapRect(moved, snapGrid, neighborEdges) : moved;
           drafts[id] = snapped;
         }
       });
@@ -865,7 +1323,7 @@ export default function CanvasStage() {
     if (interaction.kind === 'dragging-ellipse') {
       const dx = world.x - interaction.start.x;
       const dy = world.y - interaction.start.y;
-      const area = plan.areas.find((a) => a.id === interaction.areaId);
+      const area = level.areas.find((a) => a.id === interaction.areaId);
       if (area && area.shape.type === 'ellipse') {
         const movedRect = moveRect(ellipseToRect(area.shape), { dx, dy }, plan.canvas);
         setDraftShapes({ [interaction.areaId]: rectToEllipse(movedRect) });
@@ -875,10 +1333,10 @@ export default function CanvasStage() {
     if (interaction.kind === 'dragging-polygon') {
       const dx = world.x - interaction.start.x;
       const dy = world.y - interaction.start.y;
-      const area = plan.areas.find((a) => a.id === interaction.areaId);
+      const area = level.areas.find((a) => a.id === interaction.areaId);
       if (area && area.shape.type === 'polygon') {
-        const snapDx = snapEnabled ? snapValue(dx, 0.25) : dx;
-        const snapDy = snapEnabled ? snapValue(dy, 0.25) : dy;
+        const snapDx = snapEnabled ? snapValue(dx, snapGrid) : dx;
+        const snapDy = snapEnabled ? snapValue(dy, snapGrid) : dy;
         const clamped = clampDeltaForPolygon(interaction.points, plan.canvas, { dx: snapDx, dy: snapDy });
         const snappedPoints = translatePolygon(interaction.points, clamped);
         setDraftShapes({ [interaction.areaId]: { ...area.shape, points: snappedPoints } });
@@ -888,10 +1346,10 @@ export default function CanvasStage() {
     if (interaction.kind === 'dragging-multipolygon') {
       const dx = world.x - interaction.start.x;
       const dy = world.y - interaction.start.y;
-      const area = plan.areas.find((a) => a.id === interaction.areaId);
+      const area = level.areas.find((a) => a.id === interaction.areaId);
       if (area && area.shape.type === 'multipolygon') {
-        const snapDx = snapEnabled ? snapValue(dx, 0.25) : dx;
-        const snapDy = snapEnabled ? snapValue(dy, 0.25) : dy;
+        const snapDx = snapEnabled ? snapValue(dx, snapGrid) : dx;
+        const snapDy = snapEnabled ? snapValue(dy, snapGrid) : dy;
         const clamped = clampDeltaForMultiPolygon(interaction.polygons, plan.canvas, { dx: snapDx, dy: snapDy }, interaction.holes);
         const translated = interaction.polygons.map((poly) => translatePolygon(poly, clamped));
         const translatedHoles = interaction.holes?.map((holeList) => holeList.map((hole) => translatePolygon(hole, clamped)));
@@ -933,7 +1391,7 @@ export default function CanvasStage() {
       const dx = world.x - interaction.start.x;
       const dy = world.y - interaction.start.y;
       const amount = interaction.normal.x * dx + interaction.normal.y * dy;
-      const snapped = snapEnabled ? snapValue(amount, 0.25) : amount;
+      const snapped = snapEnabled ? snapValue(amount, snapGrid) : amount;
       const offset = { x: interaction.normal.x * snapped, y: interaction.normal.y * snapped };
       const nextPoints = interaction.points.map((p, idx) => {
         if (idx === interaction.index || idx === (interaction.index + 1) % interaction.points.length) {
@@ -948,7 +1406,7 @@ export default function CanvasStage() {
       const dx = world.x - interaction.start.x;
       const dy = world.y - interaction.start.y;
       const amount = interaction.normal.x * dx + interaction.normal.y * dy;
-      const snapped = snapEnabled ? snapValue(amount, 0.25) : amount;
+      const snapped = snapEnabled ? snapValue(amount, snapGrid) : amount;
       const offset = { x: interaction.normal.x * snapped, y: interaction.normal.y * snapped };
       const polygons = interaction.polygons.map((poly, pIdx) =>
         poly.map((p, idx) => {
@@ -962,8 +1420,8 @@ export default function CanvasStage() {
       return;
     }
     if (interaction.kind === 'polygon-point') {
-      const dx = snapEnabled ? snapValue(world.x - interaction.start.x, 0.25) : world.x - interaction.start.x;
-      const dy = snapEnabled ? snapValue(world.y - interaction.start.y, 0.25) : world.y - interaction.start.y;
+      const dx = snapEnabled ? snapValue(world.x - interaction.start.x, snapGrid) : world.x - interaction.start.x;
+      const dy = snapEnabled ? snapValue(world.y - interaction.start.y, snapGrid) : world.y - interaction.start.y;
       const points = interaction.points.map((p, idx) =>
         idx === interaction.index
           ? { x: clamp(p.x + dx, 0, plan.canvas.width), y: clamp(p.y + dy, 0, plan.canvas.height) }
@@ -973,8 +1431,8 @@ export default function CanvasStage() {
       return;
     }
     if (interaction.kind === 'multipolygon-point') {
-      const dx = snapEnabled ? snapValue(world.x - interaction.start.x, 0.25) : world.x - interaction.start.x;
-      const dy = snapEnabled ? snapValue(world.y - interaction.start.y, 0.25) : world.y - interaction.start.y;
+      const dx = snapEnabled ? snapValue(world.x - interaction.start.x, snapGrid) : world.x - interaction.start.x;
+      const dy = snapEnabled ? snapValue(world.y - interaction.start.y, snapGrid) : world.y - interaction.start.y;
       const polygons = interaction.polygons.map((poly, pIdx) =>
         poly.map((p, idx) =>
           pIdx === interaction.polyIndex && idx === interaction.pointIndex
@@ -988,12 +1446,12 @@ export default function CanvasStage() {
     if (interaction.kind === 'resizing-area') {
       const dx = world.x - interaction.start.x;
       const dy = world.y - interaction.start.y;
-      const rect = applyRectResize(interaction.origin, interaction.handle, { dx, dy }, plan.canvas);
-      const snapped = snapEnabled
+      const rect = resizeRotatedRect(interaction.origin, interaction.handle, { dx, dy }, plan.canvas);
+      const snapped = snapEnabled && !rect.rotation
         ? snapRect(
             rect,
-            0.25,
-            plan.areas
+            snapGrid,
+            level.areas
               .filter((a): a is Area & { shape: RectShape } => a.id !== interaction.areaId && a.shape.type === 'rect')
               .flatMap((a) => [a.shape.x, a.shape.x + a.shape.width, a.shape.y, a.shape.y + a.shape.height]),
           )
@@ -1004,8 +1462,8 @@ export default function CanvasStage() {
     if (interaction.kind === 'resizing-ellipse') {
       const dx = world.x - interaction.start.x;
       const dy = world.y - interaction.start.y;
-      const rect = applyRectResize(ellipseToRect(interaction.origin), interaction.handle, { dx, dy }, plan.canvas);
-      const snapped = snapEnabled ? snapRect(rect, 0.25) : rect;
+      const rect = resizeRotatedRect(ellipseToRect(interaction.origin), interaction.handle, { dx, dy }, plan.canvas);
+      const snapped = snapEnabled && !rect.rotation ? snapRect(rect, snapGrid) : rect;
       setDraftShapes({ [interaction.areaId]: rectToEllipse(snapped) });
       return;
     }
@@ -1016,11 +1474,11 @@ export default function CanvasStage() {
       interaction.ids.forEach((id) => {
         const origin = interaction.origins[id];
         if (origin) {
-          const rect = applyRectResize(origin, interaction.handle, { dx, dy }, plan.canvas);
-          const neighborEdges = plan.areas
+          const rect = resizeRotatedRect(origin, interaction.handle, { dx, dy }, plan.canvas);
+          const neighborEdges = level.areas
             .filter((a): a is Area & { shape: RectShape } => a.id !== id && a.shape.type === 'rect')
             .flatMap((a) => [a.shape.x, a.shape.x + a.shape.width, a.shape.y, a.shape.y + a.shape.height]);
-          drafts[id] = snapEnabled ? snapRect(rect, 0.25, neighborEdges) : rect;
+          drafts[id] = snapEnabled && !rect.rotation ? snapRect(rect, snapGrid, neighborEdges) : rect;
         }
       });
       setDraftShapes(drafts);
@@ -1031,8 +1489,8 @@ export default function CanvasStage() {
       const snapped = snapEnabled
         ? snapRect(
             rect,
-            0.25,
-            plan.areas
+            snapGrid,
+            level.areas
               .filter((a): a is Area & { shape: RectShape } => a.shape.type === 'rect')
               .flatMap((a) => [a.shape.x, a.shape.x + a.shape.width, a.shape.y, a.shape.y + a.shape.height]),
           )
@@ -1043,14 +1501,14 @@ export default function CanvasStage() {
     }
     if (interaction.kind === 'drawing-ellipse') {
       const rect = rectFromPoints(interaction.start, world);
-      const snapped = snapEnabled ? snapRect(rect, 0.25) : rect;
+      const snapped = snapEnabled ? snapRect(rect, snapGrid) : rect;
       setDraftNew(snapped);
       setInteraction({ ...interaction, current: world });
       return;
     }
     if (interaction.kind === 'drawing-circle' || interaction.kind === 'drawing-semi-circle' || interaction.kind === 'drawing-quadrant') {
       const rect = squareRectFromPoints(interaction.start, world);
-      const snapped = snapEnabled ? snapRect(rect, 0.25) : rect;
+      const snapped = snapEnabled ? snapRect(rect, snapGrid) : rect;
       setDraftNew(snapped);
       setInteraction({ ...interaction, current: world });
       return;
@@ -1071,6 +1529,96 @@ export default function CanvasStage() {
       setInteraction({ ...interaction, hover });
       return;
     }
+    if (interaction.kind === 'drawing-wall') {
+      const last = interaction.points[interaction.points.length - 1];
+      setInteraction({ ...interaction, hover: snapWallPoint(world, last, evt.shiftKey) });
+      return;
+    }
+    if (interaction.kind === 'scaling') {
+      // Handles on a lone rotated rect only scale uniformly; its sides no longer follow the plan axes.
+      const first = level.areas.find((a) => a.id === interaction.ids[0]);
+      const rotated = interaction.ids.length === 1 && first?.shape.type === 'rect' && !!first.shape.rotation;
+      const factor = scalingFactor(interaction, world, evt.shiftKey || rotated);
+      const drafts: Record<string, RectShape | PolygonShape | MultiPolygonShape | EllipseShape> = {};
+      level.areas.forEach((area) => {
+        if (interaction.ids.includes(area.id)) {
+          drafts[area.id] = scaleShape(area.shape, interaction.origin, factor.x, factor.y);
+        }
+      });
+      setDraftShapes(drafts);
+      setInteraction({ ...interaction, factor });
+      return;
+    }
+    if (interaction.kind === 'rotating') {
+      const angle = rotationAngle(interaction, world, evt.shiftKey);
+      const drafts: Record<string, RectShape | PolygonShape | MultiPolygonShape | EllipseShape> = {};
+      level.areas.forEach((area) => {
+        if (interaction.ids.includes(area.id)) drafts[area.id] = rotateShape(area.shape, interaction.center, angle);
+      });
+      setDraftShapes(drafts);
+      setInteraction({ ...interaction, angle });
+      return;
+    }
+    if (interaction.kind === 'dragging-group') {
+      const delta = groupDragDelta(interaction.start, world);
+      const drafts: Record<string, RectShape | PolygonShape | MultiPolygonShape | EllipseShape> = {};
+      level.areas.forEach((area) => {
+        if (interaction.ids.includes(area.id)) drafts[area.id] = translateShape(area.shape, delta);
+      });
+      setDraftShapes(drafts);
+      return;
+    }
+    if (interaction.kind === 'dragging-fixture') {
+      const dx = world.x - interaction.start.x;
+      const dy = world.y - interaction.start.y;
+      setDraftFixtureDelta(snapEnabled ? { dx: snapValue(dx, snapGrid), dy: snapValue(dy, snapGrid) } : { dx, dy });
+      return;
+    }
+    if (interaction.kind === 'drawing-annotation') {
+      setInteraction({ ...interaction, current: snapPoint(world) });
+      return;
+    }
+    if (interaction.kind === 'drawing-dimension') {
+      setInteraction({ ...interaction, hover: snapAnchor(world) });
+      return;
+    }
+    if (interaction.kind === 'measuring') {
+      if (!interaction.closed) setInteraction({ ...interaction, hover: snapMeasurePoint(world) });
+      return;
+    }
+    if (interaction.kind === 'dragging-dimension') {
+      const dimension = level.dimensions?.find((d) => d.id === interaction.id);
+      const resolved = dimension && resolveDimension(plan, level, dimension);
+      if (!resolved) return;
+      const offset = offsetThrough(resolved, world);
+      setDraftDimensionOffset({ id: interaction.id, offset: snapEnabled ? snapValue(offset, snapGrid) : offset });
+      return;
+    }
+    if (interaction.kind === 'dragging-annotation') {
+      setDraftAnnotationDelta(groupDragDelta(interaction.start, world));
+      return;
+    }
+    if (interaction.kind === 'dragging-leader') {
+      const point = snapPoint(world);
+      setDraftLeader((draft) =>
+        draft && { ...draft, points: draft.points.map((p, i) => (i === interaction.index ? point : p)) },
+      );
+      return;
+    }
+    if (interaction.kind === 'dragging-opening') {
+      const area = level.areas.find((a) => a.id === interaction.areaId);
+      const edge = area && areaEdges(area).find((e) => e.key === interaction.edgeKey);
+      if (!edge) return;
+      const offset = offsetAlongEdge(edge, world);
+      setDraftOpeningOffset({ id: interaction.id, offset: snapEnabled ? snapValue(offset, snapGrid) : offset });
+      return;
+    }
+    if (interaction.kind === 'dragging-wall') {
+      const dx = world.x - interaction.start.x;
+      const dy = world.y - interaction.start.y;
+      setDraftWallDelta(snapEnabled ? { dx: snapValue(dx, snapGrid), dy: snapValue(dy, snapGrid) } : { dx, dy });
+      return;
+    }
   };
 
   const finishInteraction = (evt: PointerEvent) => {
@@ -1085,12 +1633,12 @@ export default function CanvasStage() {
       const dx = world.x - interaction.start.x;
       const dy = world.y - interaction.start.y;
       const ids = selection.areaIds.length ? selection.areaIds : [interaction.areaId];
-      const first = plan.areas.find((a) => a.id === interaction.areaId);
+      const first = level.areas.find((a) => a.id === interaction.areaId);
       const rect = first && first.shape.type === 'rect' ? moveRect(interaction.origin, { dx, dy }, plan.canvas) : null;
-      const neighborEdges = plan.areas
+      const neighborEdges = level.areas
         .filter((a): a is Area & { shape: RectShape } => !ids.includes(a.id) && a.shape.type === 'rect')
         .flatMap((a) => [a.shape.x, a.shape.x + a.shape.width, a.shape.y, a.shape.y + a.shape.height]);
-      const snapRectIf = (r: RectShape) => (snapEnabled ? snapRect(r, 0.25, neighborEdges) : r);
+      const snapRectIf = (r: RectShape) => (snapEnabled ? snapRect(r, snapGrid, neighborEdges) : r);
       if (ids.length > 1) {
         apply({ type: 'area/move-multi', payload: { ids, dx, dy } });
       } else if (rect) {
@@ -1101,7 +1649,7 @@ export default function CanvasStage() {
     if (interaction.kind === 'dragging-ellipse') {
       const dx = world.x - interaction.start.x;
       const dy = world.y - interaction.start.y;
-      const area = plan.areas.find((a) => a.id === interaction.areaId);
+      const area = level.areas.find((a) => a.id === interaction.areaId);
       if (area && area.shape.type === 'ellipse') {
         const movedRect = moveRect(ellipseToRect(area.shape), { dx, dy }, plan.canvas);
         apply({
@@ -1114,8 +1662,8 @@ export default function CanvasStage() {
     if (interaction.kind === 'dragging-polygon') {
       const dx = world.x - interaction.start.x;
       const dy = world.y - interaction.start.y;
-      const snapDx = snapEnabled ? snapValue(dx, 0.25) : dx;
-      const snapDy = snapEnabled ? snapValue(dy, 0.25) : dy;
+      const snapDx = snapEnabled ? snapValue(dx, snapGrid) : dx;
+      const snapDy = snapEnabled ? snapValue(dy, snapGrid) : dy;
       const clamped = clampDeltaForPolygon(interaction.points, plan.canvas, { dx: snapDx, dy: snapDy });
       apply({ type: 'area/move-polygon', payload: { id: interaction.areaId, dx: clamped.dx, dy: clamped.dy } });
       setDraftShapes({});
@@ -1123,8 +1671,8 @@ export default function CanvasStage() {
     if (interaction.kind === 'dragging-multipolygon') {
       const dx = world.x - interaction.start.x;
       const dy = world.y - interaction.start.y;
-      const snapDx = snapEnabled ? snapValue(dx, 0.25) : dx;
-      const snapDy = snapEnabled ? snapValue(dy, 0.25) : dy;
+      const snapDx = snapEnabled ? snapValue(dx, snapGrid) : dx;
+      const snapDy = snapEnabled ? snapValue(dy, snapGrid) : dy;
       const clamped = clampDeltaForMultiPolygon(interaction.polygons, plan.canvas, { dx: snapDx, dy: snapDy }, interaction.holes);
       apply({ type: 'area/move-multi', payload: { ids: [interaction.areaId], dx: clamped.dx, dy: clamped.dy } });
       setDraftShapes({});
@@ -1179,7 +1727,7 @@ export default function CanvasStage() {
       const dx = world.x - interaction.start.x;
       const dy = world.y - interaction.start.y;
       const amount = interaction.normal.x * dx + interaction.normal.y * dy;
-      const snapped = snapEnabled ? snapValue(amount, 0.25) : amount;
+      const snapped = snapEnabled ? snapValue(amount, snapGrid) : amount;
       const offset = { x: interaction.normal.x * snapped, y: interaction.normal.y * snapped };
       const points = interaction.points.map((p, idx) => {
         if (idx === interaction.index || idx === (interaction.index + 1) % interaction.points.length) {
@@ -1194,7 +1742,7 @@ export default function CanvasStage() {
       const dx = world.x - interaction.start.x;
       const dy = world.y - interaction.start.y;
       const amount = interaction.normal.x * dx + interaction.normal.y * dy;
-      const snapped = snapEnabled ? snapValue(amount, 0.25) : amount;
+      const snapped = snapEnabled ? snapValue(amount, snapGrid) : amount;
       const offset = { x: interaction.normal.x * snapped, y: interaction.normal.y * snapped };
       const polygons = interaction.polygons.map((poly, pIdx) =>
         poly.map((p, idx) => {
@@ -1208,8 +1756,8 @@ export default function CanvasStage() {
       setDraftShapes({});
     }
     if (interaction.kind === 'polygon-point') {
-      const dx = snapEnabled ? snapValue(world.x - interaction.start.x, 0.25) : world.x - interaction.start.x;
-      const dy = snapEnabled ? snapValue(world.y - interaction.start.y, 0.25) : world.y - interaction.start.y;
+      const dx = snapEnabled ? snapValue(world.x - interaction.start.x, snapGrid) : world.x - interaction.start.x;
+      const dy = snapEnabled ? snapValue(world.y - interaction.start.y, snapGrid) : world.y - interaction.start.y;
       const points = interaction.points.map((p, idx) =>
         idx === interaction.index
           ? { x: clamp(p.x + dx, 0, plan.canvas.width), y: clamp(p.y + dy, 0, plan.canvas.height) }
@@ -1219,8 +1767,8 @@ export default function CanvasStage() {
       setDraftShapes({});
     }
     if (interaction.kind === 'multipolygon-point') {
-      const dx = snapEnabled ? snapValue(world.x - interaction.start.x, 0.25) : world.x - interaction.start.x;
-      const dy = snapEnabled ? snapValue(world.y - interaction.start.y, 0.25) : world.y - interaction.start.y;
+      const dx = snapEnabled ? snapValue(world.x - interaction.start.x, snapGrid) : world.x - interaction.start.x;
+      const dy = snapEnabled ? snapValue(world.y - interaction.start.y, snapGrid) : world.y - interaction.start.y;
       const polygons = interaction.polygons.map((poly, pIdx) =>
         poly.map((p, idx) =>
           pIdx === interaction.polyIndex && idx === interaction.pointIndex
@@ -1234,19 +1782,19 @@ export default function CanvasStage() {
     if (interaction.kind === 'resizing-area') {
       const dx = world.x - interaction.start.x;
       const dy = world.y - interaction.start.y;
-      const rect = applyRectResize(interaction.origin, interaction.handle, { dx, dy }, plan.canvas);
-      const neighborEdges = plan.areas
+      const rect = resizeRotatedRect(interaction.origin, interaction.handle, { dx, dy }, plan.canvas);
+      const neighborEdges = level.areas
         .filter((a): a is Area & { shape: RectShape } => a.id !== interaction.areaId && a.shape.type === 'rect')
         .flatMap((a) => [a.shape.x, a.shape.x + a.shape.width, a.shape.y, a.shape.y + a.shape.height]);
-      const snapped = snapEnabled ? snapRect(rect, 0.25, neighborEdges) : rect;
+      const snapped = snapEnabled && !rect.rotation ? snapRect(rect, snapGrid, neighborEdges) : rect;
       apply({ type: 'area/set-rect', payload: { id: interaction.areaId, rect: snapped } });
       setDraftShapes({});
     }
     if (interaction.kind === 'resizing-ellipse') {
       const dx = world.x - interaction.start.x;
       const dy = world.y - interaction.start.y;
-      const rect = applyRectResize(ellipseToRect(interaction.origin), interaction.handle, { dx, dy }, plan.canvas);
-      const snapped = snapEnabled ? snapRect(rect, 0.25) : rect;
+      const rect = resizeRotatedRect(ellipseToRect(interaction.origin), interaction.handle, { dx, dy }, plan.canvas);
+      const snapped = snapEnabled && !rect.rotation ? snapRect(rect, snapGrid) : rect;
       apply({ type: 'area/set-ellipse', payload: { id: interaction.areaId, ellipse: rectToEllipse(snapped) } });
       setDraftShapes({});
     }
@@ -1257,11 +1805,11 @@ export default function CanvasStage() {
       interaction.ids.forEach((id) => {
         const origin = interaction.origins[id];
         if (origin) {
-          const rect = applyRectResize(origin, interaction.handle, { dx, dy }, plan.canvas);
-          const neighborEdges = plan.areas
+          const rect = resizeRotatedRect(origin, interaction.handle, { dx, dy }, plan.canvas);
+          const neighborEdges = level.areas
             .filter((a): a is Area & { shape: RectShape } => a.id !== id && a.shape.type === 'rect')
             .flatMap((a) => [a.shape.x, a.shape.x + a.shape.width, a.shape.y, a.shape.y + a.shape.height]);
-          updates.push({ id, rect: snapEnabled ? snapRect(rect, 0.25, neighborEdges) : rect });
+          updates.push({ id, rect: snapEnabled && !rect.rotation ? snapRect(rect, snapGrid, neighborEdges) : rect });
         }
       });
       if (updates.length) {
@@ -1271,10 +1819,10 @@ export default function CanvasStage() {
     }
     if (interaction.kind === 'drawing') {
       const rectRaw = rectFromPoints(interaction.start, world);
-      const neighborEdges = plan.areas
+      const neighborEdges = level.areas
         .filter((a): a is Area & { shape: RectShape } => a.shape.type === 'rect')
         .flatMap((a) => [a.shape.x, a.shape.x + a.shape.width, a.shape.y, a.shape.y + a.shape.height]);
-      const rect = snapEnabled ? snapRect(rectRaw, 0.25, neighborEdges) : rectRaw;
+      const rect = snapEnabled ? snapRect(rectRaw, snapGrid, neighborEdges) : rectRaw;
       if (rect.width >= MIN_SIZE && rect.height >= MIN_SIZE) {
         apply({
           type: 'area/create',
@@ -1285,7 +1833,7 @@ export default function CanvasStage() {
     }
     if (interaction.kind === 'drawing-ellipse') {
       const rectRaw = rectFromPoints(interaction.start, world);
-      const rect = snapEnabled ? snapRect(rectRaw, 0.25) : rectRaw;
+      const rect = snapEnabled ? snapRect(rectRaw, snapGrid) : rectRaw;
       if (rect.width >= MIN_SIZE && rect.height >= MIN_SIZE) {
         const rx = rect.width / 2;
         const ry = rect.height / 2;
@@ -1298,7 +1846,7 @@ export default function CanvasStage() {
     }
     if (interaction.kind === 'drawing-circle') {
       const rectRaw = squareRectFromPoints(interaction.start, world);
-      const rect = snapEnabled ? snapRect(rectRaw, 0.25) : rectRaw;
+      const rect = snapEnabled ? snapRect(rectRaw, snapGrid) : rectRaw;
       if (rect.width >= MIN_SIZE && rect.height >= MIN_SIZE) {
         const r = rect.width / 2;
         apply({
@@ -1310,7 +1858,7 @@ export default function CanvasStage() {
     }
     if (interaction.kind === 'drawing-semi-circle') {
       const rectRaw = squareRectFromPoints(interaction.start, world);
-      const rect = snapEnabled ? snapRect(rectRaw, 0.25) : rectRaw;
+      const rect = snapEnabled ? snapRect(rectRaw, snapGrid) : rectRaw;
       if (rect.width >= MIN_SIZE && rect.height >= MIN_SIZE) {
         const points = semiCirclePoints(rect, interaction.start, world);
         apply({ type: 'area/create-polygon', payload: { points } });
@@ -1319,13 +1867,68 @@ export default function CanvasStage() {
     }
     if (interaction.kind === 'drawing-quadrant') {
       const rectRaw = squareRectFromPoints(interaction.start, world);
-      const rect = snapEnabled ? snapRect(rectRaw, 0.25) : rectRaw;
+      const rect = snapEnabled ? snapRect(rectRaw, snapGrid) : rectRaw;
       if (rect.width >= MIN_SIZE && rect.height >= MIN_SIZE) {
         const points = quadrantPoints(rect, interaction.start, world);
         apply({ type: 'area/create-polygon', payload: { points } });
       }
       setDraftNew(null);
     }
+    if (interaction.kind === 'scaling') {
+      const { factor } = interaction;
+      if (factor.x !== 1 || factor.y !== 1) {
+        apply({ type: 'area/scale', payload: { ids: interaction.ids, factor, anchor: interaction.origin } });
+      }
+      setDraftShapes({});
+    }
+    if (interaction.kind === 'rotating') {
+      if (interaction.angle) {
+        apply({ type: 'area/rotate', payload: { ids: interaction.ids, angle: interaction.angle, center: interaction.center } });
+      }
+      setDraftShapes({});
+    }
+    if (interaction.kind === 'dragging-group') {
+      const { dx, dy } = groupDragDelta(interaction.start, world);
+      if (dx || dy) apply({ type: 'area/move-multi', payload: { ids: interaction.ids, dx, dy } });
+      setDraftShapes({});
+    }
+    if (interaction.kind === 'dragging-fixture') {
+      if (draftFixtureDelta) {
+        apply({ type: 'fixture/move', payload: { ids: interaction.ids, dx: draftFixtureDelta.dx, dy: draftFixtureDelta.dy } });
+      }
+      setDraftFixtureDelta(null);
+    }
+    if (interaction.kind === 'drawing-annotation') {
+      finishAnnotation(interaction.start, interaction.current);
+    }
+    if (interaction.kind === 'dragging-annotation') {
+      if (draftAnnotationDelta && (draftAnnotationDelta.dx || draftAnnotationDelta.dy)) {
+        apply({ type: 'annotation/move', payload: { ids: interaction.ids, ...draftAnnotationDelta } });
+      }
+      setDraftAnnotationDelta(null);
+    }
+    if (interaction.kind === 'dragging-dimension') {
+      if (draftDimensionOffset) {
+        apply({ type: 'dimension/update', payload: { id: interaction.id, offset: draftDimensionOffset.offset } });
+      }
+      setDraftDimensionOffset(null);
+    }
+    if (interaction.kind === 'dragging-leader') {
+      if (draftLeader) apply({ type: 'annotation/update', payload: { id: interaction.id, leader: draftLeader.points } });
+      setDraftLeader(null);
+    }
+    if (interaction.kind === 'dragging-opening') {
+      if (draftOpeningOffset) {
+        apply({ type: 'opening/update', payload: { id: interaction.id, offset: draftOpeningOffset.offset } });
+      }
+      setDraftOpeningOffset(null);
+    }
+    if (interaction.kind === 'dragging-wall') {
+      if (draftWallDelta) {
+        apply({ type: 'wall/move', payload: { ids: interaction.ids, dx: draftWallDelta.dx, dy: draftWallDelta.dy } });
+      }
+      setDraftWallDelta(null);
+    }
     if (interaction.kind === 'resizing-boundary') {
       apply({
         type: 'plan/resize-boundary',
@@ -1340,7 +1943,14 @@ export default function CanvasStage() {
     const move = (e: PointerEvent) => onPointerMove(e);
     const up = (e: PointerEvent) => {
       cancelLongPress();
-      if (interaction?.kind === 'drawing-polygon') return;
+      if (
+        interaction?.kind === 'drawing-polygon' ||
+        interaction?.kind === 'drawing-wall' ||
+        interaction?.kind === 'drawing-dimension' ||
+        interaction?.kind === 'measuring'
+      ) {
+        return;
+      }
       finishInteraction(e);
     };
     window.addEventListener('pointermove', move);
@@ -1369,10 +1979,39 @@ export default function CanvasStage() {
       startPan(evt);
       return;
     }
+    const drawLayer = activeLayer(level);
+    if (activeTool.startsWith('draw-') && activeTool !== 'draw-wall' && (drawLayer.locked || !drawLayer.visible)) {
+      // New areas would land on a layer that cannot be edited or seen.
+      return;
+    }
     if (activeTool === 'draw-polygon') {
       addPolygonPoint(evt);
       return;
     }
+    if (activeTool === 'draw-wall') {
+      addWallPoint(evt);
+      return;
+    }
+    if (activeTool === 'place-door' || activeTool === 'place-window') {
+      placeOpening(world, activeTool === 'place-door' ? 'door' : 'window');
+      return;
+    }
+    if (activeTool === 'place-fixture') {
+      placeFixture(world);
+      return;
+    }
+    if (activeTool === 'annotate') {
+      startAnnotation(evt);
+      return;
+    }
+    if (activeTool === 'dimension') {
+      addDimensionPoint(evt);
+      return;
+    }
+    if (activeTool === 'measure') {
+      addMeasurePoint(evt);
+      return;
+    }
     if (activeTool === 'draw-rect') {
       startDrawing(evt);
       return;
@@ -1398,12 +2037,18 @@ export default function CanvasStage() {
 
   const boundaryWidth = draftBoundary?.width ?? plan.canvas.width;
   const boundaryHeight = draftBoundary?.height ?? plan.canvas.height;
-  const unitsLabel = plan.units;
 
-  const displayAreas = plan.areas.map((area) => {
-    const draft = draftShapes[area.id];
-    return { area, draft };
-  });
+  const displayWalls =
+    interaction?.kind === 'dragging-wall' && draftWallDelta
+      ? translateWalls(level.walls ?? [], interaction.ids, draftWallDelta.dx, draftWallDelta.dy)
+      : level.walls ?? [];
+
+  const displayAreas = areasInLayerOrder(level)
+    .filter((area) => isAreaVisible(level, area) && !isAreaGroupHidden(level, area.id))
+    .map((area) => {
+      const draft = draftShapes[area.id];
+      return { area, draft, layer: findLayer(level, area.layerId) };
+    });
 
   const overlapMeasurements = useMemo(() => {
     const drafts: Record<string, RectShape | PolygonShape | MultiPolygonShape | EllipseShape> = { ...draftShapes };
@@ -1413,7 +2058,7 @@ export default function CanvasStage() {
     const measurements: { id: string; x: number; y: number; width: number; height: number; area: number }[] = [];
     Object.entries(drafts).forEach(([draftId, draftShape]) => {
       const draftPolys = shapeToPolygons(draftShape);
-      plan.areas.forEach((area) => {
+      level.areas.forEach((area) => {
         if (draftIds.has(area.id)) return;
         const otherPolys = shapeToPolygons(area.shape);
         const intersection = polygonClipping.intersection(draftPolys, otherPolys) as PolygonRings[] | null;
@@ -1442,7 +2087,47 @@ export default function CanvasStage() {
       });
     });
     return measurements;
-  }, [draftNew, draftShapes, plan.areas]);
+  }, [draftNew, draftShapes, level.areas]);
+
+  const contextTargetId = contextMenu.targetId;
+  const contextGroup = contextTargetId
+    ? (level.areaGroups ?? []).find((group) => group.areaIds.includes(contextTargetId))
+    : undefined;
+
+  const resolvedDimensions = (level.dimensions ?? [])
+    .map((dimension) =>
+      resolveDimension(
+        plan,
+        level,
+        draftDimensionOffset?.id === dimension.id ? { ...dimension, offset: draftDimensionOffset.offset } : dimension,
+      ),
+    )
+    .filter((resolved): resolved is ResolvedDimension => !!resolved);
+
+  const dimensionPreview =
+    interaction?.kind === 'drawing-dimension' && interaction.hover
+      ? resolveDimension(plan, level, {
+          id: '__preview__',
+          style: activeDimensionStyle,
+          points: [...interaction.points, interaction.hover],
+          offset: defaultDimensionOffset,
+        })
+      : null;
+
+  const measurement = activeTool === 'measure' && interaction?.kind === 'measuring' ? interaction : null;
+  const measurePoints = measurement
+    ? [...measurement.points, ...(measurement.hover && !measurement.closed ? [measurement.hover] : [])]
+    : [];
+  const measureReadout = measurement ? measurePath(measurePoints, measurement.closed) : null;
+
+  // A lone rect carries its own handles; any other selection is rotated and scaled from a frame around its bounds.
+  const selectedAreas = displayAreas.filter(({ area }) => selection.areaIds.includes(area.id)).map(({ area }) => area);
+  const selectionFrame =
+    activeTool === 'select' && selectedAreas.length && !(selectedAreas.length === 1 && selectedAreas[0].shape.type === 'rect')
+      ? shapesBoundingBox(
+          selectedAreas.map((area) => (interaction?.kind === 'scaling' ? (draftShapes[area.id] ?? area.shape) : area.shape)),
+        )
+      : null;
 
   const boundaryHandles: { handle: BoundaryHandle; x: number; y: number; cursor: string }[] = [
     { handle: 'left', x: 0, y: boundaryHeight / 2, cursor: 'ew-resize' },
@@ -1464,6 +2149,7 @@ export default function CanvasStage() {
           onPointerLeave={handleEdgeHoverEnd}
           onDoubleClick={() => {
             if (interaction?.kind === 'drawing-polygon') completePolygon();
+            if (interaction?.kind === 'drawing-wall') completeWall();
           }}
         >
           <g transform={`translate(${paddingPx + plan.canvas.pan.x}, ${paddingPx + plan.canvas.pan.y}) scale(${scale})`}>
@@ -1527,7 +2213,7 @@ export default function CanvasStage() {
                 fill="#0f172a"
                 style={{ userSelect: 'none' }}
               >
-                {boundaryWidth.toFixed(2)} {unitsLabel}
+                {formatLength(boundaryWidth, plan)}
               </text>
               <text
                 x={boundaryWidth + 0.16}
@@ -1538,7 +2224,7 @@ export default function CanvasStage() {
                 fill="#0f172a"
                 style={{ userSelect: 'none' }}
               >
-                {boundaryHeight.toFixed(2)} {unitsLabel}
+                {formatLength(boundaryHeight, plan)}
               </text>
             </>
           )}
@@ -1559,40 +2245,148 @@ export default function CanvasStage() {
               }}
             />
           ))}
-          {displayAreas.map(({ area, draft }) => (
-            <AreaRenderer
-              key={area.id}
-              area={area}
-              plan={plan}
-              labelOffset={draftLabelOffsets[area.id] ?? area.labelOffset}
-              edgeLabelOffsets={{
-                ...(area.edgeLabelOffsets ?? {}),
-                ...(draftEdgeLabelOffsets[area.id] ?? {}),
-              }}
-              radiusLabelOffset={draftRadiusLabelOffsets[area.id] ?? area.radiusLabelOffset}
-              draftShape={draft ?? (selection.areaIds.includes(area.id) ? draftShapes[area.id] : undefined)}
-              selected={selection.areaIds.includes(area.id)}
-              onSelect={(id) => setSelection({ areaIds: [id] })}
-              onPointerDown={(e, a) => onAreaPointerDown(e, a)}
-              onHandlePointerDown={(handle, e) => onHandlePointerDown(handle, e, area)}
-              onLabelPointerDown={(e, a) => onLabelPointerDown(e, a)}
-              onEdgeLabelPointerDown={(e, a, edgeKey) => onEdgeLabelPointerDown(e, a, edgeKey)}
-              onRadiusLabelPointerDown={(e, a) => onRadiusLabelPointerDown(e, a)}
-              showDimensions={showDimensions}
-              onEdgeHover={handleEdgeHover}
-              onEdgeHoverEnd={handleEdgeHoverEnd}
-              onPolygonPointPointerDown={(idx, e) => {
-                e.stopPropagation();
-                startPolygonVertexDrag(area.id, idx, e);
-              }}
-              onPolygonEdgePointerDown={(idx, e) => handlePolygonEdgePointerDown(area.id, idx, e)}
-              onMultiPolygonPointPointerDown={(polyIdx, pointIdx, e) => {
-                e.stopPropagation();
-                startMultipolygonVertexDrag(area.id, polyIdx, pointIdx, e);
-              }}
-              onMultiPolygonEdgePointerDown={(polyIdx, idx, e) => handleMultiPolygonEdgePointerDown(area.id, polyIdx, idx, e)}
-            />
+          {displayAreas.map(({ area, draft, layer }) => (
+            <g key={area.id} opacity={layer?.opacity ?? 1}>
+              <AreaRenderer
+                area={area}
+                plan={plan}
+                labelOffset={draftLabelOffsets[area.id] ?? area.labelOffset}
+                edgeLabelOffsets={{
+                  ...(area.edgeLabelOffsets ?? {}),
+                  ...(draftEdgeLabelOffsets[area.id] ?? {}),
+                }}
+                radiusLabelOffset={draftRadiusLabelOffsets[area.id] ?? area.radiusLabelOffset}
+                draftShape={draft ?? (selection.areaIds.includes(area.id) ? draftShapes[area.id] : undefined)}
+                selected={selection.areaIds.includes(area.id)}
+                onSelect={(id) => setSelection({ areaIds: [id] })}
+                onPointerDown={(e, a) => onAreaPointerDown(e, a)}
+                onHandlePointerDown={(handle, e) => onHandlePointerDown(handle, e, area)}
+                onRotateHandlePointerDown={activeTool === 'select' ? (e) => startRotation(e, [area.id]) : undefined}
+                onLabelPointerDown={(e, a) => onLabelPointerDown(e, a)}
+                onEdgeLabelPointerDown={(e, a, edgeKey) => onEdgeLabelPointerDown(e, a, edgeKey)}
+                onRadiusLabelPointerDown={(e, a) => onRadiusLabelPointerDown(e, a)}
+                showDimensions={showDimensions}
+                locked={layer?.locked}
+                groupLocked={isAreaGroupLocked(level, area.id)}
+                onEdgeHover={handleEdgeHover}
+                onEdgeHoverEnd={handleEdgeHoverEnd}
+                onPolygonPointPointerDown={(idx, e) => {
+                  e.stopPropagation();
+                  startPolygonVertexDrag(area.id, idx, e);
+                }}
+                onPolygonEdgePointerDown={(idx, e) => handlePolygonEdgePointerDown(area.id, idx, e)}
+                onMultiPolygonPointPointerDown={(polyIdx, pointIdx, e) => {
+                  e.stopPropagation();
+                  startMultipolygonVertexDrag(area.id, polyIdx, pointIdx, e);
+                }}
+                onMultiPolygonEdgePointerDown={(polyIdx, idx, e) => handleMultiPolygonEdgePointerDown(area.id, polyIdx, idx, e)}
+              />
+            </g>
           ))}
+          {selectionFrame && (
+            <g
+              transform={
+                interaction?.kind === 'rotating'
+                  ? `rotate(${interaction.angle} ${interaction.center.x} ${interaction.center.y})`
+                  : undefined
+              }
+            >
+              <rect
+                x={selectionFrame.x}
+                y={selectionFrame.y}
+                width={selectionFrame.width}
+                height={selectionFrame.height}
+                fill="none"
+                stroke="#2563eb"
+                strokeWidth={0.04}
+                strokeDasharray="0.2 0.14"
+                pointerEvents="none"
+              />
+              <TransformHandles
+                rect={{ type: 'rect', ...selectionFrame }}
+                onPointerDown={(handle, e) => {
+                  e.stopPropagation();
+                  startScaling(e, selection.areaIds, handle, { type: 'rect', ...selectionFrame });
+                }}
+                onRotatePointerDown={(e) => startRotation(e, selection.areaIds)}
+              />
+            </g>
+          )}
+          <WallLayer
+            walls={displayWalls}
+            units={plan.units}
+            selectedIds={selection.wallIds ?? []}
+            interactive={activeTool === 'select'}
+            onWallPointerDown={onWallPointerDown}
+          />
+          <FixtureLayer
+            fixtures={level.fixtures ?? []}
+            units={plan.units}
+            selectedIds={selection.fixtureIds ?? []}
+            draftDelta={
+              interaction?.kind === 'dragging-fixture' && draftFixtureDelta
+                ? { ids: interaction.ids, ...draftFixtureDelta }
+                : null
+            }
+            interactive={activeTool === 'select' || activeTool === 'delete'}
+            onFixturePointerDown={onFixturePointerDown}
+          />
+          <OpeningLayer
+            areas={displayAreas.map(({ area, draft }) => (draft ? { ...area, shape: draft } : area))}
+            openings={level.openings ?? []}
+            units={plan.units}
+            selectedIds={selection.openingIds ?? []}
+            draftOffsets={draftOpeningOffset ? { [draftOpeningOffset.id]: draftOpeningOffset.offset } : undefined}
+            interactive={activeTool === 'select' || activeTool === 'delete'}
+            onOpeningPointerDown={onOpeningPointerDown}
+          />
+          <AnnotationLayer
+            annotations={level.annotations ?? []}
+            selectedIds={selection.annotationIds ?? []}
+            draftDelta={
+              interaction?.kind === 'dragging-annotation' && draftAnnotationDelta
+                ? { ids: interaction.ids, ...draftAnnotationDelta }
+                : null
+            }
+            draftLeader={draftLeader}
+            interactive={activeTool === 'select' || activeTool === 'delete' || activeTool === 'label'}
+            onAnnotationPointerDown={onAnnotationPointerDown}
+            onLeaderPointPointerDown={onLeaderPointPointerDown}
+          />
+          <DimensionLayer
+            plan={plan}
+            dimensions={resolvedDimensions}
+            preview={dimensionPreview}
+            selectedIds={selection.dimensionIds ?? []}
+            scale={scale}
+            interactive={activeTool === 'select' || activeTool === 'delete'}
+            onDimensionPointerDown={onDimensionPointerDown}
+          />
+          {interaction?.kind === 'drawing-dimension' &&
+            [...interaction.points, ...(interaction.hover ? [interaction.hover] : [])].map((anchor, idx) => (
+              <circle
+                key={idx}
+                cx={anchor.x}
+                cy={anchor.y}
+                r={(anchor.ref ? 5 : 3) / scale}
+                fill={anchor.ref ? '#fff' : '#1d4ed8'}
+                stroke="#1d4ed8"
+                strokeWidth={1.5 / scale}
+                pointerEvents="none"
+              />
+            ))}
+          {interaction?.kind === 'drawing-annotation' && distance(interaction.start, interaction.current) * scale > 6 && (
+            <line
+              x1={interaction.current.x}
+              y1={interaction.current.y}
+              x2={interaction.start.x}
+              y2={interaction.start.y}
+              stroke="#1d4ed8"
+              strokeWidth={2 / scale}
+              strokeDasharray={`${6 / scale} ${4 / scale}`}
+              pointerEvents="none"
+            />
+          )}
           {showDimensions && hoverSplit && (() => {
             const { a, b, point } = hoverSplit;
             const lenA = distance(a, point);
@@ -1608,8 +2402,8 @@ export default function CanvasStage() {
             const fontSize = 0.14;
             const paddingX = 0.05;
             const paddingY = 0.03;
-            const labelA = `${lenA.toFixed(2)} ${unitsLabel}`;
-            const labelB = `${lenB.toFixed(2)} ${unitsLabel}`;
+            const labelA = formatLength(lenA, plan);
+            const labelB = formatLength(lenB, plan);
             const widthA = labelA.length * fontSize * 0.6 + paddingX * 2;
             const widthB = labelB.length * fontSize * 0.6 + paddingX * 2;
             const height = fontSize + paddingY * 2;
@@ -1694,8 +2488,8 @@ export default function CanvasStage() {
             </g>
           )}
           {showDimensions && overlapMeasurements.map((measurement) => {
-            const line1 = `${measurement.width.toFixed(2)} x ${measurement.height.toFixed(2)} ${unitsLabel}`;
-            const line2 = `${measurement.area.toFixed(2)} ${unitsLabel}²`;
+            const line1 = `${formatLength(measurement.width, plan)} x ${formatLength(measurement.height, plan)}`;
+            const line2 = formatArea(measurement.area, plan);
             const fontSize = 0.2;
             const lineHeight = 0.24;
             const paddingX = 0.1;
@@ -1732,6 +2526,93 @@ export default function CanvasStage() {
               </g>
             );
           })}
+          {interaction?.kind === 'drawing-wall' && (
+            <g pointerEvents="none">
+              <polyline
+                points={[...interaction.points, ...(interaction.hover ? [interaction.hover] : [])]
+                  .map((p) => `${p.x},${p.y}`)
+                  .join(' ')}
+                fill="none"
+                stroke="#334155"
+                strokeOpacity={0.5}
+                strokeWidth={0.2}
+                strokeLinejoin="miter"
+              />
+              {interaction.points.map((p, idx) => (
+                <circle key={`${p.x}-${p.y}-${idx}`} cx={p.x} cy={p.y} r={0.1} fill="#0f172a" />
+              ))}
+            </g>
+          )}
+          {measurement && measureReadout && (
+            <g pointerEvents="none">
+              {measurement.closed ? (
+                <polygon
+                  points={measurePoints.map((p) => `${p.x},${p.y}`).join(' ')}
+                  fill="rgba(234,88,12,0.12)"
+                  stroke="#ea580c"
+                  strokeWidth={2 / scale}
+                />
+              ) : (
+                <polyline
+                  points={measurePoints.map((p) => `${p.x},${p.y}`).join(' ')}
+                  fill="none"
+                  stroke="#ea580c"
+                  strokeWidth={2 / scale}
+                  strokeDasharray={`${6 / scale} ${3 / scale}`}
+                />
+              )}
+              {measureReadout.segments.map((segment, idx) =>
+                segment.length > 0 ? (
+                  <text
+                    key={`len-${idx}`}
+                    x={(segment.a.x + segment.b.x) / 2}
+                    y={(segment.a.y + segment.b.y) / 2 - 8 / scale}
+                    fontSize={11 / scale}
+                    textAnchor="middle"
+                    fill="#9a3412"
+                    stroke="#fff"
+                    strokeWidth={3 / scale}
+                    paintOrder="stroke"
+                  >
+                    {formatLength(segment.length, plan)}
+                  </text>
+                ) : null,
+              )}
+              {measureReadout.angles.map((angle, idx) => (
+                <text
+                  key={`angle-${idx}`}
+                  x={angle.at.x + 8 / scale}
+                  y={angle.at.y + 14 / scale}
+                  fontSize={10 / scale}
+                  fill="#9a3412"
+                  stroke="#fff"
+                  strokeWidth={3 / scale}
+                  paintOrder="stroke"
+                >
+                  {angle.degrees.toFixed(1)}°
+                </text>
+              ))}
+              {measurement.points.map((p, idx) => (
+                <circle key={`pt-${idx}`} cx={p.x} cy={p.y} r={3 / scale} fill="#ea580c" />
+              ))}
+              {measurement.hover?.snap && !measurement.closed && (
+                <rect
+                  x={measurement.hover.x - 5 / scale}
+                  y={measurement.hover.y - 5 / scale}
+                  width={10 / scale}
+                  height={10 / scale}
+                  fill="none"
+                  stroke="#ea580c"
+                  strokeWidth={1.5 / scale}
+                  transform={
+                    measurement.hover.snap === 'edge'
+                      ? `rotate(45 ${measurement.hover.x} ${measurement.hover.y})`
+                      : undefined
+                  }
+                />
+              )}
+            </g>
+          )}
           {interaction?.kind === 'drawing-polygon' && (
             <g pointerEvents="none">
               <polyline
@@ -1752,6 +2633,46 @@ export default function CanvasStage() {
           )}
         </g>
       </svg>
+      {measureReadout && measureReadout.segments.length > 0 && (
+        <div className="absolute bottom-3 left-3 rounded-lg bg-white/95 px-3 py-2 text-xs text-slate-700 shadow ring-1 ring-slate-200">
+          <div>
+            Segment{' '}
+            <span className="font-semibold">
+              {formatLength(measureReadout.segments[measureReadout.segments.length - 1].length, plan)}
+            </span>
+          </div>
+          {measureReadout.segments.length > 1 && (
+            <div>
+              {measurement?.closed ? 'Perimeter' : 'Total'}{' '}
+              <span className="font-semibold">{formatLength(measureReadout.total, plan)}</span>
+            </div>
+          )}
+          {measureReadout.angles.length > 0 && (
+            <div>
+              Angle <span className="font-semibold">{measureReadout.angles[measureReadout.angles.length - 1].degrees.toFixed(1)}°</span>
+            </div>
+          )}
+          {measureReadout.area !== null && (
+            <div>
+              Area <span className="font-semibold">{formatArea(measureReadout.area, plan)}</span>
+            </div>
+          )}
+          <div className="mt-1 text-slate-400">
+            {measurement?.closed ? 'Click to start again' : 'Click the first point or press Enter to close · Esc clears'}
+          </div>
+        </div>
+      )}
+      {notice && (
+        <div
+          role="status"
+          className="absolute left-1/2 top-3 flex -translate-x-1/2 items-center gap-3 rounded-lg bg-slate-900 px-4 py-2 text-sm text-white shadow-lg"
+        >
+          <span>🔒 {notice}</span>
+          <button className="text-xs text-slate-300 hover:text-white" onClick={dismissNotice}>
+            Dismiss
+          </button>
+        </div>
+      )}
       </div>
     {contextMenu.visible && contextMenu.targetId && (
       <div
@@ -1762,7 +2683,7 @@ export default function CanvasStage() {
         <button
           className="block w-full px-3 py-2 text-left text-sm hover:bg-slate-100"
           onClick={() => {
-            const target = plan.areas.find((a) => a.id === contextMenu.targetId);
+            const target = level.areas.find((a) => a.id === contextMenu.targetId);
             if (target) {
               openPrompt('Rename area', target.name, (val) => apply({ type: 'area/rename', payload: { id: target.id, name: val || target.name } }));
             }
@@ -1816,11 +2737,34 @@ export default function CanvasStage() {
             </button>
           </div>
         </div>
+        <div className="relative group">
+          <button className="block w-full px-3 py-2 text-left text-sm hover:bg-slate-100">Arrange</button>
+          <div className="invisible absolute left-full top-0 ml-1 w-48 rounded-lg bg-white shadow-lg ring-1 ring-slate-200 group-hover:visible">
+            {REORDER_ITEMS.map((item) => (
+              <button
+                key={item.direction}
+                className="flex w-full justify-between px-3 py-2 text-left text-sm hover:bg-slate-100"
+                onClick={() => {
+                  const ids = selection.areaIds.includes(contextMenu.targetId ?? '')
+                    ? selection.areaIds
+                    : contextMenu.targetId
+                      ? [contextMenu.targetId]
+                      : [];
+                  if (ids.length) apply({ type: 'area/reorder', payload: { ids, direction: item.direction } });
+                  setContextMenu({ visible: false, x: 0, y: 0, targetId: undefined });
+                }}
+              >
+                {item.label}
+                <span className="text-xs text-slate-400">{item.shortcut}</span>
+              </button>
+            ))}
+          </div>
+        </div>
         <button
           className="block w-full px-3 py-2 text-left text-sm hover:bg-slate-100"
           onClick={() => {
             if (!contextMenu.targetId) return;
-            const target = plan.areas.find((a) => a.id === contextMenu.targetId);
+            const target = level.areas.find((a) => a.id === contextMenu.targetId);
             if (!target) return;
             const cloneName = `${target.name} copy`;
             if (target.shape.type === 'polygon') {
@@ -1888,6 +2832,34 @@ export default function CanvasStage() {
         >
           Subtract selection
         </button>
+        <button
+          className="block w-full px-3 py-2 text-left text-sm hover:bg-slate-100"
+          onClick={() => {
+            const ids = selection.areaIds.length > 1 ? selection.areaIds : contextMenu.targetId ? [contextMenu.targetId] : [];
+            if (ids.length < 2) {
+              openPrompt('Select at least two areas to intersect', '', () => {});
+              return;
+            }
+            apply({ type: 'area/intersect', payload: { ids } });
+            setContextMenu({ visible: false, x: 0, y: 0, targetId: undefined });
+          }}
+        >
+          Intersect selection
+        </button>
+        <button
+          className="block w-full px-3 py-2 text-left text-sm hover:bg-slate-100"
+          onClick={() => {
+            const ids = selection.areaIds.length > 1 ? selection.areaIds : contextMenu.targetId ? [contextMenu.targetId] : [];
+            if (ids.length < 2) {
+              openPrompt('Select at least two areas to exclude', '', () => {});
+              return;
+            }
+            apply({ type: 'area/exclude', payload: { ids } });
+            setContextMenu({ visible: false, x: 0, y: 0, targetId: undefined });
+          }}
+        >
+          Exclude overlap
+        </button>
         <button
           className="block w-full px-3 py-2 text-left text-sm hover:bg-slate-100"
           onClick={() => {
@@ -1901,6 +2873,50 @@ export default function CanvasStage() {
         >
           Group selection
         </button>
+        {contextGroup && (
+          <button
+            className="block w-full px-3 py-2 text-left text-sm hover:bg-slate-100"
+            onClick={() => {
+              apply({ type: 'group/lock', payload: { id: contextGroup.id, locked: !contextGroup.locked } });
+              setContextMenu({ visible: false, x: 0, y: 0, targetId: undefined });
+            }}
+          >
+            {contextGroup.locked ? 'Unlock' : 'Lock'} group “{contextGroup.name}”
+          </button>
+        )}
+        <button
+          className="block w-full px-3 py-2 text-left text-sm hover:bg-slate-100"
+          onClick={() => {
+            const ids = selection.areaIds.length ? selection.areaIds : contextMenu.targetId ? [contextMenu.targetId] : [];
+            if (ids.length < 1) return;
+            setScaleDialog({ ids, point: toWorld({ clientX: contextMenu.x, clientY: contextMenu.y }) });
+            setContextMenu({ visible: false, x: 0, y: 0, targetId: undefined });
+          }}
+        >
+          Scale…
+        </button>
+        <button
+          className="block w-full px-3 py-2 text-left text-sm hover:bg-slate-100"
+          onClick={() => {
+            const ids = selection.areaIds.length ? selection.areaIds : contextMenu.targetId ? [contextMenu.targetId] : [];
+            if (ids.length < 1) return;
+            setArrayIds(ids);
+            setContextMenu({ visible: false, x: 0, y: 0, targetId: undefined });
+          }}
+        >
+          Array…
+        </button>
+        <button
+          className="block w-full px-3 py-2 text-left text-sm hover:bg-slate-100"
+          onClick={() => {
+            const ids = selection.areaIds.length ? selection.areaIds : contextMenu.targetId ? [contextMenu.targetId] : [];
+            if (ids.length < 1) return;
+            setOffsetIds(ids);
+            setContextMenu({ visible: false, x: 0, y: 0, targetId: undefined });
+          }}
+        >
+          Offset…
+        </button>
         <button
           className="block w-full px-3 py-2 text-left text-sm hover:bg-slate-100"
           onClick={() => {
@@ -1924,6 +2940,9 @@ export default function CanvasStage() {
         </button>
       </div>
       )}
+      {scaleDialog && <ScaleDialog ids={scaleDialog.ids} point={scaleDialog.point} onClose={() => setScaleDialog(null)} />}
+      {arrayIds && <ArrayDialog ids={arrayIds} onClose={() => setArrayIds(null)} />}
+      {offsetIds && <OffsetDialog ids={offsetIds} onClose={() => setOffsetIds(null)} />}
     </>
   );
 }
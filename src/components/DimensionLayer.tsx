@@ -0,0 +1,139 @@
+import type React from 'react';
+import type { ResolvedDimension } from '../domain/dimensions';
+import { formatLength } from '../domain/format';
+import type { Dimension, Plan } from '../domain/types';
+
+type Props = {
+  plan: Plan;
+  dimensions: ResolvedDimension[];
+  /** The dimension being placed, drawn without hit targets. */
+  preview?: ResolvedDimension | null;
+  selectedIds: string[];
+  /** Screen pixels per plan unit; dimensions keep a constant on-screen size. */
+  scale: number;
+  interactive: boolean;
+  onDimensionPointerDown: (event: React.PointerEvent, dimension: Dimension) => void;
+};
+
+function DimensionGraphic({
+  plan,
+  resolved,
+  color,
+  px,
+}: {
+  plan: Plan;
+  resolved: ResolvedDimension;
+  color: string;
+  px: number;
+}) {
+  const { points, feet, axis, normal, segments } = resolved;
+  const first = feet[0];
+  const last = feet[feet.length - 1];
+  const tick = { x: ((axis.x + normal.x) * 5 * px) / Math.SQRT2, y: ((axis.y + normal.y) * 5 * px) / Math.SQRT2 };
+  // Labels sit on the far side of the line from the measured points.
+  const side = (first.x - points[0].x) * normal.x + (first.y - points[0].y) * normal.y < 0 ? -1 : 1;
+  let angle = (Math.atan2(axis.y, axis.x) * 180) / Math.PI;
+  if (angle > 90) angle -= 180;
+  if (angle <= -90) angle += 180;
+  return (
+    <>
+      {points.map((point, idx) => {
+        const foot = feet[idx];
+        const reach = (foot.x - point.x) * normal.x + (foot.y - point.y) * normal.y;
+        if (Math.abs(reach) < 3 * px) return null;
+        const dir = Math.sign(reach);
+        return (
+          <line
+            key={`ext-${idx}`}
+            x1={point.x + normal.x * dir * 3 * px}
+            y1={point.y + normal.y * dir * 3 * px}
+            x2={foot.x + normal.x * dir * 5 * px}
+            y2={foot.y + normal.y * dir * 5 * px}
+            stroke={color}
+            strokeWidth={px}
+          />
+        );
+      })}
+      <line x1={first.x} y1={first.y} x2={last.x} y2={last.y} stroke={color} strokeWidth={1.25 * px} />
+      {feet.map((foot, idx) => (
+        <line
+          key={`tick-${idx}`}
+          x1={foot.x - tick.x}
+          y1={foot.y - tick.y}
+          x2={foot.x + tick.x}
+          y2={foot.y + tick.y}
+          stroke={color}
+          strokeWidth={2 * px}
+        />
+      ))}
+      {segments.map((segment, idx) => {
+        if (segment.length <= 0) return null;
+        const x = (segment.a.x + segment.b.x) / 2 + normal.x * side * 9 * px;
+        const y = (segment.a.y + segment.b.y) / 2 + normal.y * side * 9 * px;
+        return (
+          <text
+            key={`label-${idx}`}
+            x={x}
+            y={y}
+            transform={`rotate(${angle} ${x} ${y})`}
+            fontSize={11 * px}
+            textAnchor="middle"
+            dominantBaseline="central"
+            fill={color}
+            stroke="#fff"
+            strokeWidth={3 * px}
+            paintOrder="stroke"
+            style={{ userSelect: 'none' }}
+          >
+            {formatLength(segment.length, plan)}
+          </text>
+        );
+      })}
+    </>
+  );
+}
+
+export default function DimensionLayer({
+  plan,
+  dimensions,
+  preview,
+  selectedIds,
+  scale,
+  interactive,
+  onDimensionPointerDown,
+}: Props) {
+  if (!dimensions.length && !preview) return null;
+  const px = 1 / scale;
+
+  return (
+    <g>
+      {dimensions.map((resolved) => {
+        const { dimension, feet } = resolved;
+        const selected = selectedIds.includes(dimension.id);
+        return (
+          <g key={dimension.id}>
+            <g pointerEvents="none">
+              <DimensionGraphic plan={plan} resolved={resolved} color={selected ? '#2563eb' : '#334155'} px={px} />
+            </g>
+            <line
+              x1={feet[0].x}
+              y1={feet[0].y}
+              x2={feet[feet.length - 1].x}
+              y2={feet[feet.length - 1].y}
+              stroke="transparent"
+              strokeWidth={10 * px}
+              pointerEvents={interactive ? 'stroke' : 'none'}
+              style={{ cursor: interactive ? 'move' : undefined }}
+              onPointerDown={(e) => onDimensionPointerDown(e, dimension)}
+            />
+          </g>
+        );
+      })}
+      {preview && (
+        <g pointerEvents="none" opacity={0.7}>
+          <DimensionGraphic plan={plan} resolved={preview} color="#1d4ed8" px={px} />
+        </g>
+      )}
+    </g>
+  );
+}
@@ -0,0 +1,121 @@
+import { formatArea, formatLength, planDisplay } from '../domain/format';
+import type { DisplaySettings, RoundingMode, Units } from '../domain/types';
+import { UNIT_OPTIONS } from '../domain/units';
+import { usePlanStore } from '../store/usePlanStore';
+
+type Props = {
+  onClose: () => void;
+};
+
+const inputClass = 'mt-1 w-full rounded-lg border border-slate-200 px-2 py-1 text-sm';
+
+const LOCALES: { value: string; label: string }[] = [
+  { value: 'en-US', label: 'English (US) — 1,234.5' },
+  { value: 'en-GB', label: 'English (UK) — 1,234.5' },
+  { value: 'de-DE', label: 'German — 1.234,5' },
+  { value: 'fr-FR', label: 'French — 1 234,5' },
+  { value: 'es-ES', label: 'Spanish — 1.234,5' },
+  { value: 'it-IT', label: 'Italian — 1.234,5' },
+  { value: 'nl-NL', label: 'Dutch — 1.234,5' },
+  { value: 'de-CH', label: 'Swiss — 1’234.5' },
+];
+
+export default function DisplaySettingsDialog({ onClose }: Props) {
+  const plan = usePlanStore((s) => s.plan);
+  const apply = usePlanStore((s) => s.apply);
+  const display = planDisplay(plan);
+  const imperial = plan.units === 'ft' || plan.units === 'in';
+
+  const update = (changes: Partial<DisplaySettings>) => apply({ type: 'plan/set-display', payload: { display: changes } });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/20 p-4">
+      <div className="w-full max-w-md rounded-xl bg-white p-6 shadow-lg ring-1 ring-slate-200">
+        <div className="mb-3 flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Display settings</h2>
+          <button className="text-sm text-slate-500 hover:text-ink" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <div className="grid grid-cols-2 gap-3 text-sm text-slate-600">
+          <label>
+            Length decimals
+            <input
+              type="number"
+              min={0}
+              max={6}
+              className={inputClass}
+              value={display.lengthDecimals}
+              disabled={imperial}
+              title={imperial ? 'Feet and inches are shown to the nearest 1/16"' : undefined}
+              onChange={(e) => update({ lengthDecimals: parseInt(e.target.value, 10) || 0 })}
+            />
+          </label>
+          <label>
+            Area decimals
+            <input
+              type="number"
+              min={0}
+              max={6}
+              className={inputClass}
+              value={display.areaDecimals}
+              onChange={(e) => update({ areaDecimals: parseInt(e.target.value, 10) || 0 })}
+            />
+          </label>
+          <label>
+            Rounding
+            <select
+              className={inputClass}
+              value={display.rounding}
+              onChange={(e) => update({ rounding: e.target.value as RoundingMode })}
+            >
+              <option value="nearest">Nearest</option>
+              <option value="up">Up</option>
+              <option value="down">Down</option>
+            </select>
+          </label>
+          <label>
+            Areas in
+            <select
+              className={inputClass}
+              value={plan.display?.areaUnits ?? ''}
+              onChange={(e) => update({ areaUnits: (e.target.value || undefined) as Units | undefined })}
+            >
+              <option value="">Plan units ({plan.units}²)</option>
+              {UNIT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label} ({option.value}²)
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="col-span-2">
+            Number format
+            <select className={inputClass} value={display.locale} onChange={(e) => update({ locale: e.target.value })}>
+              {!LOCALES.some((locale) => locale.value === display.locale) && (
+                <option value={display.locale}>{display.locale}</option>
+              )}
+              {LOCALES.map((locale) => (
+                <option key={locale.value} value={locale.value}>
+                  {locale.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="col-span-2 flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={display.thousandsSeparator}
+              onChange={(e) => update({ thousandsSeparator: e.target.checked })}
+            />
+            Thousands separators
+          </label>
+        </div>
+        <div className="mt-4 rounded-lg bg-slate-50 px-3 py-2 text-sm text-slate-600">
+          Preview: <span className="font-semibold">{formatLength(1234.5678, plan)}</span> ·{' '}
+          <span className="font-semibold">{formatArea(12345.678, plan)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
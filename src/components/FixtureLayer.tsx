@@ -0,0 +1,70 @@
+import type React from 'react';
+import { findFixtureSymbol } from '../domain/fixtures';
+import type { Fixture, Units } from '../domain/types';
+import { metresToUnits } from '../domain/units';
+import FixtureSymbol from './FixtureSymbol';
+
+type Props = {
+  fixtures: Fixture[];
+  /** Plan units; line weights are set in metres and converted. */
+  units: Units;
+  selectedIds: string[];
+  draftDelta?: { ids: string[]; dx: number; dy: number } | null;
+  interactive: boolean;
+  onFixturePointerDown: (event: React.PointerEvent, fixture: Fixture) => void;
+};
+
+export default function FixtureLayer({
+  fixtures,
+  units,
+  selectedIds,
+  draftDelta,
+  interactive,
+  onFixturePointerDown,
+}: Props) {
+  if (!fixtures.length) return null;
+  const m = metresToUnits(1, units);
+
+  return (
+    <g>
+      {fixtures.map((fixture) => {
+        const symbol = findFixtureSymbol(fixture.symbol);
+        const selected = selectedIds.includes(fixture.id);
+        const moving = draftDelta?.ids.includes(fixture.id);
+        const x = fixture.x + (moving ? draftDelta?.dx ?? 0 : 0);
+        const y = fixture.y + (moving ? draftDelta?.dy ?? 0 : 0);
+        return (
+          <g
+            key={fixture.id}
+            transform={`translate(${x} ${y}) rotate(${fixture.rotation}) translate(${-fixture.width / 2} ${-fixture.depth / 2})`}
+            opacity={moving ? 0.7 : 1}
+            pointerEvents={interactive ? 'all' : 'none'}
+            style={{ cursor: interactive ? 'move' : undefined }}
+            onPointerDown={(e) => onFixturePointerDown(e, fixture)}
+          >
+            <rect
+              width={fixture.width}
+              height={fixture.depth}
+              fill={selected ? 'rgba(59,130,246,0.15)' : 'rgba(255,255,255,0.75)'}
+              stroke={selected ? '#2563eb' : 'none'}
+              strokeWidth={0.04 * m}
+              strokeDasharray={selected ? `${0.12 * m} ${0.08 * m}` : undefined}
+            />
+            {symbol ? (
+              <FixtureSymbol
+                primitives={symbol.primitives}
+                width={fixture.width}
+                depth={fixture.depth}
+                stroke={selected ? '#1d4ed8' : '#334155'}
+                strokeWidth={0.025 * m}
+              />
+            ) : (
+              // Unknown symbol (e.g. from a newer library): keep the footprint visible.
+              <line x1={0} y1={0} x2={fixture.width} y2={fixture.depth} stroke="#94a3b8" strokeWidth={0.025 * m} />
+            )}
+          </g>
+        );
+      })}
+    </g>
+  );
+}
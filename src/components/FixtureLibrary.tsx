@@ -0,0 +1,58 @@
+import { FIXTURE_CATEGORIES, FIXTURE_LIBRARY } from '../domain/fixtures';
+import { usePlanStore } from '../store/usePlanStore';
+import FixtureSymbol from './FixtureSymbol';
+
+const previewSize = 28;
+
+export default function FixtureLibrary() {
+  const activeTool = usePlanStore((s) => s.activeTool);
+  const activeFixture = usePlanStore((s) => s.activeFixture);
+  const setTool = usePlanStore((s) => s.setTool);
+
+  return (
+    <aside className="flex flex-col gap-3 rounded-2xl bg-white p-4 shadow-shell ring-1 ring-slate-200">
+      <div className="flex items-center justify-between">
+        <p className="text-xs uppercase tracking-[0.14em] text-slate-400">Furniture &amp; fixtures</p>
+        {activeTool === 'place-fixture' && (
+          <button className="text-xs text-slate-500 hover:text-ink" onClick={() => setTool('select')}>
+            Done
+          </button>
+        )}
+      </div>
+      {FIXTURE_CATEGORIES.map((category) => (
+        <div key={category}>
+          <p className="text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">{category}</p>
+          <div className="mt-1 grid grid-cols-4 gap-2">
+            {FIXTURE_LIBRARY.filter((symbol) => symbol.category === category).map((symbol) => {
+              const active = activeTool === 'place-fixture' && activeFixture === symbol.id;
+              const scale = previewSize / Math.max(symbol.width, symbol.depth);
+              const width = symbol.width * scale;
+              const depth = symbol.depth * scale;
+              return (
+                <button
+                  key={symbol.id}
+                  title={`${symbol.label} — click the canvas to place`}
+                  onClick={() => {
+                    usePlanStore.setState({ activeFixture: symbol.id });
+                    setTool('place-fixture');
+                  }}
+                  className={`flex h-12 items-center justify-center rounded-lg transition ${
+                    active
+                      ? 'bg-gradient-to-r from-blue-50 to-emerald-50 ring-1 ring-blue-200'
+                      : 'hover:bg-slate-100'
+                  }`}
+                >
+                  <svg width={previewSize + 4} height={previewSize + 4}>
+                    <g transform={`translate(${(previewSize + 4 - width) / 2} ${(previewSize + 4 - depth) / 2})`}>
+                      <FixtureSymbol primitives={symbol.primitives} width={width} depth={depth} stroke="#334155" strokeWidth={1} />
+                    </g>
+                  </svg>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </aside>
+  );
+}
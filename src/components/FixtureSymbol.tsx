@@ -0,0 +1,61 @@
+import type { FixturePrimitive } from '../domain/fixtures';
+
+type Props = {
+  primitives: FixturePrimitive[];
+  width: number;
+  depth: number;
+  stroke: string;
+  strokeWidth: number;
+  fill?: string;
+};
+
+// Draws library primitives into a width × depth box whose top-left corner is the origin.
+export default function FixtureSymbol({ primitives, width, depth, stroke, strokeWidth, fill = 'none' }: Props) {
+  return (
+    <>
+      {primitives.map((p, idx) => {
+        if (p.type === 'rect') {
+          const round = (p.round ?? 0) * Math.min(p.w * width, p.h * depth) * 0.5;
+          return (
+            <rect
+              key={idx}
+              x={p.u * width}
+              y={p.v * depth}
+              width={p.w * width}
+              height={p.h * depth}
+              rx={round}
+              fill={fill}
+              stroke={stroke}
+              strokeWidth={strokeWidth}
+            />
+          );
+        }
+        if (p.type === 'ellipse') {
+          return (
+            <ellipse
+              key={idx}
+              cx={p.cu * width}
+              cy={p.cv * depth}
+              rx={p.ru * width}
+              ry={p.rv * depth}
+              fill={fill}
+              stroke={stroke}
+              strokeWidth={strokeWidth}
+            />
+          );
+        }
+        return (
+          <line
+            key={idx}
+            x1={p.u1 * width}
+            y1={p.v1 * depth}
+            x2={p.u2 * width}
+            y2={p.v2 * depth}
+            stroke={stroke}
+            strokeWidth={strokeWidth}
+          />
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { canNestGroup } from '../domain/grouping';
+import { buildHierarchy, nodeAreaIds, type HierarchyNode } from '../domain/hierarchy';
+import { activeLevel } from '../domain/levels';
+import { usePlanStore } from '../store/usePlanStore';
+import { usePromptStore } from '../store/usePromptStore';
+
+type DragItem = { kind: 'group' | 'area'; id: string };
+
+export default function GroupsPanel() {
+  const plan = usePlanStore((s) => s.plan);
+  const selection = usePlanStore((s) => s.selection);
+  const apply = usePlanStore((s) => s.apply);
+  const setSelection = usePlanStore((s) => s.setSelection);
+  const openPrompt = usePromptStore((s) => s.openPrompt);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [dropId, setDropId] = useState<string | null>(null);
+  const level = activeLevel(plan);
+  const groups = level.areaGroups ?? [];
+  const tree = buildHierarchy(level);
+
+  const groupSelection = () =>
+    openPrompt('Group name', `Group ${groups.length + 1}`, (val) =>
+      apply({ type: 'group/create', payload: { name: val.trim() || 'Group', areaIds: selection.areaIds } }),
+    );
+
+  const toggleCollapsed = (id: string) =>
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  /** Whether the dragged item may be dropped on `target` (`null` = top level). */
+  const canDrop = (target: HierarchyNode | null) => {
+    if (!dragItem || dragItem.id === target?.id) return false;
+    if (!target) return true;
+    if (target.kind === 'group') return dragItem.kind === 'area' || canNestGroup(level, dragItem.id, target.id);
+    return target.kind === 'area' && dragItem.kind === 'area';
+  };
+
+  const drop = (target: HierarchyNode | null) => {
+    if (dragItem && canDrop(target)) {
+      if (dragItem.kind === 'group') {
+        apply({ type: 'group/set-parent', payload: { id: dragItem.id, parentId: target?.id ?? null } });
+      } else if (target?.kind === 'area') {
+        apply({ type: 'area/set-parent', payload: { id: dragItem.id, parentId: target.id } });
+      } else {
+        apply({ type: 'area/set-group', payload: { ids: [dragItem.id], groupId: target?.id ?? null } });
+      }
+    }
+    setDragItem(null);
+    setDropId(null);
+  };
+
+  const renderNode = (node: HierarchyNode, depth: number) => {
+    const ids = nodeAreaIds(level, node);
+    const selected = ids.length > 0 && ids.every((id) => selection.areaIds.includes(id));
+    const expanded = !collapsed.has(node.id);
+    const group = node.kind === 'group' ? node.group : undefined;
+    const visible = group?.visible !== false;
+    const label = node.kind === 'group' ? node.group.name : node.kind === 'area' ? node.area.name : node.name;
+    return (
+      <li key={node.id}>
+        <div
+          draggable={node.kind !== 'lineage'}
+          onDragStart={(e) => {
+            if (node.kind === 'lineage') return;
+            e.stopPropagation();
+            e.dataTransfer.effectAllowed = 'move';
+            setDragItem({ kind: node.kind, id: node.id });
+          }}
+          onDragOver={(e) => {
+            if (!canDrop(node)) return;
+            e.preventDefault();
+            e.stopPropagation();
+            setDropId(node.id);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            drop(node);
+          }}
+          onDragEnd={() => {
+            setDragItem(null);
+            setDropId(null);
+          }}
+          style={{ paddingLeft: depth * 14 + 8 }}
+          className={`flex items-center gap-1.5 rounded-lg py-1 pr-2 text-sm ${
+            selected ? 'bg-blue-50 ring-1 ring-blue-200' : 'hover:bg-slate-50'
+          } ${dragItem && dropId === node.id ? 'ring-2 ring-blue-400' : ''}`}
+        >
+          <button
+            className={`w-4 text-xs text-slate-400 ${node.children.length ? '' : 'invisible'}`}
+            title={expanded ? 'Collapse' : 'Expand'}
+            onClick={() => toggleCollapsed(node.id)}
+          >
+            {expanded ? '▾' : '▸'}
+          </button>
+          {group && (
+            <>
+              <button
+                className={`w-5 text-center ${visible ? 'text-slate-700' : 'text-slate-300'}`}
+                title={visible ? 'Hide group' : 'Show group'}
+                onClick={() => apply({ type: 'group/visibility', payload: { id: group.id, visible: !visible } })}
+              >
+                {visible ? '👁' : '◌'}
+              </button>
+              <button
+                className="w-5 text-center"
+                title={group.locked ? 'Unlock group' : 'Lock group'}
+                onClick={() => apply({ type: 'group/lock', payload: { id: group.id, locked: !group.locked } })}
+              >
+                {group.locked ? '🔒' : '🔓'}
+              </button>
+            </>
+          )}
+          {node.kind === 'area' && (
+            <span className="h-3 w-3 shrink-0 rounded-sm ring-1 ring-slate-300" style={{ background: node.area.fill }} />
+          )}
+          <button
+            className={`min-w-0 flex-1 truncate text-left ${
+              node.kind === 'lineage' ? 'italic text-slate-400' : visible ? 'text-slate-700' : 'text-slate-400'
+            } ${group ? 'font-medium' : ''}`}
+            title={group ? 'Click to select everything in the group, double-click to rename' : 'Click to select'}
+            onClick={() => setSelection({ areaIds: ids })}
+            onDoubleClick={() => {
+              if (!group) return;
+              openPrompt('Rename group', group.name, (val) =>
+                apply({ type: 'group/rename', payload: { id: group.id, name: val } }),
+              );
+            }}
+          >
+            {label}
+            {node.kind !== 'area' && <span className="ml-1 text-xs text-slate-400">{ids.length}</span>}
+          </button>
+          {group && (
+            <button
+              className="text-xs text-slate-400 hover:text-red-600"
+              title={`Delete ${group.name} (its contents move up a level)`}
+              onClick={() => apply({ type: 'group/delete', payload: { id: group.id } })}
+            >
+              ✕
+            </button>
+          )}
+        </div>
+        {expanded && node.children.length > 0 && (
+          <ul>{node.children.map((child) => renderNode(child, depth + 1))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <aside className="flex flex-col gap-2 rounded-2xl bg-white p-4 shadow-shell ring-1 ring-slate-200">
+      <div className="flex items-center justify-between">
+        <p className="text-xs uppercase tracking-[0.14em] text-slate-400">Groups &amp; lineage</p>
+        <button
+          className="rounded-lg bg-slate-900 px-2 py-1 text-xs font-semibold text-white hover:bg-slate-800 disabled:cursor-not-allowed disabled:bg-slate-300"
+          disabled={!selection.areaIds.length}
+          title="Group the selected areas"
+          onClick={groupSelection}
+        >
+          Group selection
+        </button>
+      </div>
+      {!tree.length && <p className="text-xs text-slate-400">No areas on this level yet.</p>}
+      <ul className="max-h-72 overflow-auto">{tree.map((node) => renderNode(node, 0))}</ul>
+      {dragItem && (
+        <div
+          onDragOver={(e) => {
+            if (!canDrop(null)) return;
+            e.preventDefault();
+            setDropId('root');
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            drop(null);
+          }}
+          className={`rounded-lg border border-dashed px-2 py-1 text-center text-xs text-slate-400 ${
+            dropId === 'root' ? 'border-blue-400 text-blue-500' : 'border-slate-300'
+          }`}
+        >
+          Drop here to move to the top level
+        </div>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,87 @@
+import type { ValidationError } from '../domain/validation';
+
+type Props = {
+  fileName: string;
+  error: string;
+  issues: ValidationError[];
+  /** Changes made by a repair that loaded the plan; the dialog then reports them instead of the errors. */
+  repairs?: string[];
+  onRepair?: () => void;
+  onClose: () => void;
+};
+
+const MAX_LISTED = 50;
+
+export default function ImportReportDialog({ fileName, error, issues, repairs, onRepair, onClose }: Props) {
+  if (repairs) {
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/20 p-4">
+        <div className="w-full max-w-lg rounded-xl bg-white p-6 shadow-lg ring-1 ring-slate-200">
+          <div className="mb-3 flex items-center justify-between">
+            <h2 className="text-lg font-semibold">Repaired {fileName}</h2>
+            <button className="text-sm text-slate-500 hover:text-ink" onClick={onClose}>
+              Close
+            </button>
+          </div>
+          <p className="text-sm text-slate-600">
+            {repairs.length
+              ? `The plan was loaded after ${repairs.length} ${repairs.length === 1 ? 'repair' : 'repairs'}. Check the affected items before saving.`
+              : 'The plan was loaded without changes.'}
+          </p>
+          {repairs.length > 0 && (
+            <ul className="mt-3 max-h-72 space-y-1 overflow-auto rounded-lg bg-slate-50 p-3 font-mono text-xs text-slate-700">
+              {repairs.slice(0, MAX_LISTED).map((repair, idx) => (
+                <li key={idx}>{repair}</li>
+              ))}
+              {repairs.length > MAX_LISTED && <li className="text-slate-400">…and {repairs.length - MAX_LISTED} more</li>}
+            </ul>
+          )}
+          <div className="mt-4 flex justify-end">
+            <button
+              className="rounded-lg bg-accent px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-blue-600"
+              onClick={onClose}
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/20 p-4">
+      <div className="w-full max-w-lg rounded-xl bg-white p-6 shadow-lg ring-1 ring-slate-200">
+        <div className="mb-3 flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Could not load {fileName}</h2>
+          <button className="text-sm text-slate-500 hover:text-ink" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <p className="text-sm text-slate-600">{error}</p>
+        {issues.length > 0 && (
+          <ul className="mt-3 max-h-72 space-y-1 overflow-auto rounded-lg bg-slate-50 p-3 font-mono text-xs text-slate-700">
+            {issues.slice(0, MAX_LISTED).map((issue, idx) => (
+              <li key={`${issue.path}-${idx}`}>
+                <span className="font-semibold text-red-600">{issue.path || '(root)'}</span> {issue.message}
+              </li>
+            ))}
+            {issues.length > MAX_LISTED && <li className="text-slate-400">…and {issues.length - MAX_LISTED} more</li>}
+          </ul>
+        )}
+        <div className="mt-4 flex justify-end gap-2">
+          <button className="rounded-lg px-3 py-2 text-sm text-slate-600 hover:bg-slate-100" onClick={onClose}>
+            Cancel
+          </button>
+          {onRepair && (
+            <button
+              className="rounded-lg bg-accent px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-blue-600"
+              onClick={onRepair}
+            >
+              Repair and load
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
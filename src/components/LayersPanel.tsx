@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { activeLayer } from '../domain/layers';
+import { activeLevel } from '../domain/levels';
+import { usePlanStore } from '../store/usePlanStore';
+import { usePromptStore } from '../store/usePromptStore';
+
+export default function LayersPanel() {
+  const plan = usePlanStore((s) => s.plan);
+  const selection = usePlanStore((s) => s.selection);
+  const apply = usePlanStore((s) => s.apply);
+  const openPrompt = usePromptStore((s) => s.openPrompt);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const level = activeLevel(plan);
+  const current = activeLayer(level);
+  // Topmost layer first, like most drawing tools; indices below are stack indices (0 = bottom).
+  const rows = level.layers.map((layer, index) => ({ layer, index })).reverse();
+
+  const finishDrag = () => {
+    if (dragId && dropIndex !== null) apply({ type: 'layer/reorder', payload: { id: dragId, index: dropIndex } });
+    setDragId(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <aside className="flex flex-col gap-2 rounded-2xl bg-white p-4 shadow-shell ring-1 ring-slate-200">
+      <div className="flex items-center justify-between">
+        <p className="text-xs uppercase tracking-[0.14em] text-slate-400">Layers</p>
+        <button
+          className="rounded-lg bg-slate-900 px-2 py-1 text-xs font-semibold text-white hover:bg-slate-800"
+          onClick={() => apply({ type: 'layer/create', payload: {} })}
+        >
+          + Layer
+        </button>
+      </div>
+      <ul className="space-y-1">
+        {rows.map(({ layer, index }) => {
+          const count = level.areas.filter((area) => area.layerId === layer.id).length;
+          return (
+            <li
+              key={layer.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDragId(layer.id);
+              }}
+              onDragOver={(e) => {
+                if (!dragId) return;
+                e.preventDefault();
+                setDropIndex(index);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                finishDrag();
+              }}
+              onDragEnd={finishDrag}
+              className={`flex items-center gap-2 rounded-lg px-2 py-1 text-sm ${
+                layer.id === current.id ? 'bg-blue-50 ring-1 ring-blue-200' : 'hover:bg-slate-50'
+              } ${dragId && dropIndex === index && dragId !== layer.id ? 'ring-2 ring-blue-400' : ''}`}
+            >
+              <span className="cursor-grab text-slate-300" title="Drag to reorder">
+                ⠿
+              </span>
+              <button
+                className={`w-5 text-center ${layer.visible ? 'text-slate-700' : 'text-slate-300'}`}
+                title={layer.visible ? 'Hide layer' : 'Show layer'}
+                onClick={() => apply({ type: 'layer/update', payload: { id: layer.id, visible: !layer.visible } })}
+              >
+                {layer.visible ? '👁' : '◌'}
+              </button>
+              <button
+                className="w-5 text-center"
+                title={layer.locked ? 'Unlock layer' : 'Lock layer'}
+                onClick={() => apply({ type: 'layer/update', payload: { id: layer.id, locked: !layer.locked } })}
+              >
+                {layer.locked ? '🔒' : '🔓'}
+              </button>
+              <button
+                className={`min-w-0 flex-1 truncate text-left ${layer.visible ? 'text-slate-700' : 'text-slate-400'}`}
+                title="Click to draw on this layer, double-click to rename"
+                onClick={() => apply({ type: 'layer/set-active', payload: { id: layer.id } })}
+                onDoubleClick={() =>
+                  openPrompt('Rename layer', layer.name, (val) =>
+                    apply({ type: 'layer/update', payload: { id: layer.id, name: val } }),
+                  )
+                }
+              >
+                {layer.name}
+                <span className="ml-1 text-xs text-slate-400">{count}</span>
+              </button>
+              <input
+                key={`${layer.id}-${layer.opacity}`}
+                type="number"
+                min={0}
+                max={100}
+                step={10}
+                title="Opacity (%)"
+                className="w-14 rounded border border-slate-200 px-1 py-0.5 text-xs"
+                defaultValue={Math.round(layer.opacity * 100)}
+                onBlur={(e) => {
+                  const percent = parseFloat(e.target.value);
+                  if (Number.isFinite(percent)) {
+                    apply({ type: 'layer/update', payload: { id: layer.id, opacity: percent / 100 } });
+                  }
+                }}
+              />
+              <button
+                className="text-xs text-slate-400 hover:text-red-600 disabled:cursor-not-allowed disabled:text-slate-200"
+                title={`Delete ${layer.name} (its areas move to the layer below)`}
+                disabled={level.layers.length <= 1}
+                onClick={() => apply({ type: 'layer/delete', payload: { id: layer.id } })}
+              >
+                ✕
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      <button
+        className="rounded-lg border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-700 hover:bg-slate-100 disabled:cursor-not-allowed disabled:text-slate-300"
+        disabled={!selection.areaIds.length}
+        onClick={() => apply({ type: 'area/set-layer', payload: { ids: selection.areaIds, layerId: current.id } })}
+      >
+        Move selection to {current.name}
+      </button>
+    </aside>
+  );
+}
@@ -0,0 +1,33 @@
+import { lengthInputValue, parseLength } from '../domain/format';
+import type { Units } from '../domain/types';
+
+type Props = {
+  value: number;
+  units: Units;
+  className?: string;
+  /** Called on blur with the parsed length; unreadable text restores the current value. */
+  onCommit: (value: number) => void;
+};
+
+/** Text field for lengths in plan units; also accepts feet and inches such as `12'6-1/2"`. */
+export default function LengthInput({ value, units, className, onCommit }: Props) {
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      defaultValue={lengthInputValue(value, units)}
+      className={className}
+      onBlur={(e) => {
+        const parsed = parseLength(e.target.value, units);
+        if (parsed === null) {
+          e.target.value = lengthInputValue(value, units);
+          return;
+        }
+        onCommit(parsed);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+      }}
+    />
+  );
+}
@@ -0,0 +1,69 @@
+import { formatLength } from '../domain/format';
+import { activeLevel, sortedLevels } from '../domain/levels';
+import { usePlanStore } from '../store/usePlanStore';
+import { usePromptStore } from '../store/usePromptStore';
+
+export default function LevelSwitcher() {
+  const plan = usePlanStore((s) => s.plan);
+  const apply = usePlanStore((s) => s.apply);
+  const openPrompt = usePromptStore((s) => s.openPrompt);
+  const current = activeLevel(plan);
+  // Highest storey first, like a building section.
+  const levels = sortedLevels(plan).reverse();
+
+  return (
+    <div className="flex items-center gap-2 rounded-2xl bg-white px-3 py-2 shadow-shell ring-1 ring-slate-200">
+      <p className="text-xs uppercase tracking-[0.12em] text-slate-400">Levels</p>
+      <div className="flex flex-1 flex-wrap items-center gap-1">
+        {levels.map((level) => (
+          <button
+            key={level.id}
+            title="Double-click to rename"
+            onClick={() => apply({ type: 'level/set-active', payload: { id: level.id } })}
+            onDoubleClick={() =>
+              openPrompt('Rename level', level.name, (val) =>
+                apply({ type: 'level/rename', payload: { id: level.id, name: val || level.name } }),
+              )
+            }
+            className={`rounded-lg px-3 py-1 text-sm transition ${
+              level.id === current.id
+                ? 'bg-gradient-to-r from-blue-50 to-emerald-50 font-semibold text-ink ring-1 ring-blue-200'
+                : 'text-slate-600 hover:bg-slate-100'
+            }`}
+          >
+            {level.name}
+            <span className="ml-1 text-xs text-slate-400">
+              {level.elevation >= 0 ? '+' : ''}
+              {formatLength(level.elevation, plan)}
+            </span>
+          </button>
+        ))}
+      </div>
+      <button
+        className="rounded-lg px-2 py-1 text-xs font-medium text-slate-600 hover:bg-slate-100"
+        onClick={() =>
+          openPrompt(`Elevation of ${current.name} (${plan.units})`, String(current.elevation), (val) => {
+            const elevation = parseFloat(val);
+            if (!Number.isFinite(elevation)) return;
+            apply({ type: 'level/set-elevation', payload: { id: current.id, elevation } });
+          })
+        }
+      >
+        Elevation
+      </button>
+      <button
+        className="rounded-lg px-2 py-1 text-xs font-medium text-red-600 hover:bg-red-50 disabled:cursor-not-allowed disabled:text-slate-300"
+        disabled={plan.levels.length <= 1}
+        onClick={() => apply({ type: 'level/delete', payload: { id: current.id } })}
+      >
+        Delete
+      </button>
+      <button
+        className="rounded-lg bg-slate-900 px-3 py-1 text-xs font-semibold text-white hover:bg-slate-800"
+        onClick={() => apply({ type: 'level/create', payload: {} })}
+      >
+        + Level
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import LengthInput from './LengthInput';
+import { activeLevel } from '../domain/levels';
+import { MITER_LIMIT } from '../domain/offset';
+import type { OffsetJoin, OffsetOutput } from '../domain/types';
+import { usePlanStore } from '../store/usePlanStore';
+
+type Props = {
+  ids: string[];
+  onClose: () => void;
+};
+
+const inputClass = 'mt-1 w-full rounded-lg border border-slate-200 px-2 py-1 text-sm';
+
+const JOINS: { value: OffsetJoin; label: string }[] = [
+  { value: 'miter', label: 'Miter — sharp corners' },
+  { value: 'round', label: 'Round' },
+  { value: 'square', label: 'Square — cut corners' },
+];
+
+const OUTPUTS: { value: OffsetOutput; label: string }[] = [
+  { value: 'new', label: 'New area' },
+  { value: 'band', label: 'Band between outlines' },
+  { value: 'replace', label: 'Replace original' },
+];
+
+export default function OffsetDialog({ ids, onClose }: Props) {
+  const plan = usePlanStore((s) => s.plan);
+  const apply = usePlanStore((s) => s.apply);
+  const areas = activeLevel(plan).areas.filter((area) => ids.includes(area.id));
+  const [direction, setDirection] = useState<'grow' | 'shrink'>('grow');
+  const [distance, setDistance] = useState(1);
+  const [join, setJoin] = useState<OffsetJoin>('miter');
+  const [output, setOutput] = useState<OffsetOutput>('new');
+  const valid = areas.length > 0 && distance > 0;
+
+  const submit = () => {
+    if (!valid) return;
+    apply({
+      type: 'area/offset',
+      payload: {
+        ids: areas.map((area) => area.id),
+        distance: direction === 'grow' ? distance : -distance,
+        join,
+        output,
+      },
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/20 p-4">
+      <div className="w-full max-w-sm rounded-xl bg-white p-6 shadow-lg ring-1 ring-slate-200">
+        <div className="mb-3 flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Offset {areas.length > 1 ? `${areas.length} areas` : 'area'}</h2>
+          <button className="text-sm text-slate-500 hover:text-ink" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <form
+          className="grid grid-cols-2 gap-3 text-sm text-slate-600"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit();
+          }}
+        >
+          <label>
+            Direction
+            <select
+              className={inputClass}
+              value={direction}
+              onChange={(e) => setDirection(e.target.value as 'grow' | 'shrink')}
+            >
+              <option value="grow">Grow outward</option>
+              <option value="shrink">Shrink inward</option>
+            </select>
+          </label>
+          <label>
+            Distance
+            <LengthInput
+              value={distance}
+              units={plan.units}
+              className={inputClass}
+              onCommit={(value) => setDistance(Math.abs(value))}
+            />
+          </label>
+          <label className="col-span-2">
+            Corners
+            <select className={inputClass} value={join} onChange={(e) => setJoin(e.target.value as OffsetJoin)}>
+              {JOINS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="col-span-2">
+            Result
+            <select className={inputClass} value={output} onChange={(e) => setOutput(e.target.value as OffsetOutput)}>
+              {OUTPUTS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <p className="col-span-2 text-xs text-slate-400">
+            A band outward makes a corridor around the area; inward, a setback strip inside it. Miter points longer
+            than {MITER_LIMIT}× the distance are cut square.
+          </p>
+          <div className="col-span-2 flex justify-end gap-2">
+            <button
+              type="button"
+              className="rounded-lg border border-slate-200 px-3 py-2 font-semibold text-slate-700 hover:bg-slate-100"
+              onClick={onClose}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!valid}
+              className="rounded-lg bg-slate-900 px-3 py-2 font-semibold text-white hover:bg-slate-800 disabled:opacity-40"
+            >
+              Offset
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
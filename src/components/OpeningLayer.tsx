@@ -0,0 +1,118 @@
+import type React from 'react';
+import type { Area, Opening, Units } from '../domain/types';
+import { resolveOpening } from '../domain/openings';
+import { metresToUnits } from '../domain/units';
+
+type Props = {
+  areas: Area[];
+  openings: Opening[];
+  /** Plan units; symbol line weights and sizes are set in metres and converted. */
+  units: Units;
+  selectedIds: string[];
+  draftOffsets?: Record<string, number>;
+  interactive: boolean;
+  onOpeningPointerDown: (event: React.PointerEvent, opening: Opening) => void;
+};
+
+export default function OpeningLayer({
+  areas,
+  openings,
+  units,
+  selectedIds,
+  draftOffsets = {},
+  interactive,
+  onOpeningPointerDown,
+}: Props) {
+  if (!openings.length) return null;
+  const m = metresToUnits(1, units);
+  const jambLength = 0.16 * m;
+
+  return (
+    <g>
+      {openings.map((opening) => {
+        const area = areas.find((a) => a.id === opening.areaId);
+        if (!area) return null;
+        const draftOffset = draftOffsets[opening.id];
+        const resolved = resolveOpening(draftOffset === undefined ? opening : { ...opening, offset: draftOffset }, area);
+        if (!resolved) return null;
+        const { start, end, inward, width } = resolved;
+        const selected = selectedIds.includes(opening.id);
+        const ink = selected ? '#2563eb' : '#0f172a';
+        const gapWidth = Math.max(area.strokeWidth * 2.5, 0.1 * m);
+        const jamb = (p: { x: number; y: number }) => (
+          <line
+            x1={p.x - (inward.x * jambLength) / 2}
+            y1={p.y - (inward.y * jambLength) / 2}
+            x2={p.x + (inward.x * jambLength) / 2}
+            y2={p.y + (inward.y * jambLength) / 2}
+            stroke={ink}
+            strokeWidth={0.03 * m}
+          />
+        );
+
+        let symbol: React.ReactNode;
+        if (opening.kind === 'door') {
+          const hinge = opening.swing === 'left' ? start : end;
+          const strike = opening.swing === 'left' ? end : start;
+          const side = opening.direction === 'in' ? inward : { x: -inward.x, y: -inward.y };
+          const leafTip = { x: hinge.x + side.x * width, y: hinge.y + side.y * width };
+          const toStrike = { x: (strike.x - hinge.x) / width, y: (strike.y - hinge.y) / width };
+          // SVG sweeps positive angles clockwise on screen, matching a positive cross product here.
+          const sweep = side.x * toStrike.y - side.y * toStrike.x > 0 ? 1 : 0;
+          symbol = (
+            <>
+              <line x1={hinge.x} y1={hinge.y} x2={leafTip.x} y2={leafTip.y} stroke={ink} strokeWidth={0.04 * m} />
+              <path
+                d={`M ${leafTip.x} ${leafTip.y} A ${width} ${width} 0 0 ${sweep} ${strike.x} ${strike.y}`}
+                fill="none"
+                stroke={ink}
+                strokeWidth={0.02 * m}
+                strokeDasharray={`${0.08 * m} ${0.05 * m}`}
+              />
+            </>
+          );
+        } else {
+          const pane = 0.05 * m;
+          symbol = (
+            <>
+              {[-pane, pane].map((d) => (
+                <line
+                  key={d}
+                  x1={start.x + inward.x * d}
+                  y1={start.y + inward.y * d}
+                  x2={end.x + inward.x * d}
+                  y2={end.y + inward.y * d}
+                  stroke={ink}
+                  strokeWidth={0.025 * m}
+                />
+              ))}
+              <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke={ink} strokeWidth={0.015 * m} />
+            </>
+          );
+        }
+
+        return (
+          <g key={opening.id}>
+            <g pointerEvents="none">
+              <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke="#ffffff" strokeWidth={gapWidth} />
+              {jamb(start)}
+              {jamb(end)}
+              {symbol}
+            </g>
+            <line
+              x1={start.x}
+              y1={start.y}
+              x2={end.x}
+              y2={end.y}
+              stroke={selected ? 'rgba(59,130,246,0.25)' : 'transparent'}
+              strokeWidth={0.3 * m}
+              pointerEvents={interactive ? 'stroke' : 'none'}
+              style={{ cursor: interactive ? 'ew-resize' : undefined }}
+              onPointerDown={(e) => onOpeningPointerDown(e, opening)}
+            />
+          </g>
+        );
+      })}
+    </g>
+  );
+}
@@ -1,5 +1,18 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
+import AreaPropertiesEditor from './AreaPropertiesEditor';
+import ArrayDialog from './ArrayDialog';
+import LengthInput from './LengthInput';
+import OffsetDialog from './OffsetDialog';
+import ScaleDialog from './ScaleDialog';
+import { ALIGN_EDGES } from '../domain/arrange';
 import { constrainRectToBounds } from '../domain/geometry';
+import { DIMENSION_STYLES, resolveDimension } from '../domain/dimensions';
+import { findFixtureSymbol } from '../domain/fixtures';
+import { formatLength } from '../domain/format';
+import { activeLevel } from '../domain/levels';
+import { planRoomTypes } from '../domain/roomTypes';
+import { wallLength } from '../domain/walls';
+import type { DimensionStyle, OpeningDirection, OpeningKind, OpeningSwing, TextAlign, WallAlignment } from '../domain/types';
 import { usePlanStore } from '../store/usePlanStore';
 import { usePromptStore } from '../store/usePromptStore';
 
@@ -8,10 +21,21 @@ export default function PropertiesPanel() {
   const selection = usePlanStore((s) => s.selection);
   const apply = usePlanStore((s) => s.apply);
   const openPrompt = usePromptStore((s) => s.openPrompt);
+  const [showScale, setShowScale] = useState(false);
+  const [showArray, setShowArray] = useState(false);
+  const [showOffset, setShowOffset] = useState(false);
+  const level = activeLevel(plan);
   const selectedArea = useMemo(
-    () => plan.areas.find((a) => a.id === selection.areaIds[0]),
-    [plan.areas, selection.areaIds],
+    () => level.areas.find((a) => a.id === selection.areaIds[0]),
+    [level.areas, selection.areaIds],
   );
+  const selectedWalls = (level.walls ?? []).filter((w) => selection.wallIds?.includes(w.id));
+  const selectedWall = selectedWalls[0];
+  const selectedFixture = (level.fixtures ?? []).find((f) => f.id === selection.fixtureIds?.[0]);
+  const selectedOpening = (level.openings ?? []).find((o) => o.id === selection.openingIds?.[0]);
+  const selectedAnnotation = (level.annotations ?? []).find((a) => a.id === selection.annotationIds?.[0]);
+  const selectedDimension = (level.dimensions ?? []).find((d) => d.id === selection.dimensionIds?.[0]);
+  const resolvedDimension = selectedDimension && resolveDimension(plan, level, selectedDimension);
 
   const updateArea = (field: 'name' | 'fill' | 'rect', value: unknown) => {
     if (!selectedArea) return;
@@ -65,6 +89,7 @@ export default function PropertiesPanel() {
             <label className="block text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">
               Name
               <input
+                key={`${selectedArea.id}-${selectedArea.name}`}
                 className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2"
                 defaultValue={selectedArea.name}
                 onBlur={(e) => updateArea('name', e.target.value)}
@@ -74,6 +99,7 @@ export default function PropertiesPanel() {
               Fill
               <div className="mt-1 flex items-center gap-3">
                 <input
+                  key={`${selectedArea.id}-${selectedArea.fill}`}
                   type="color"
                   defaultValue={selectedArea.fill}
                   onChange={(e) => updateArea('fill', e.target.value)}
@@ -82,6 +108,26 @@ export default function PropertiesPanel() {
                 <span className="text-slate-600">{selectedArea.fill}</span>
               </div>
             </label>
+            <label className="block text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">
+              Room type
+              <select
+                className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 normal-case tracking-normal"
+                value={selectedArea.roomType ?? ''}
+                onChange={(e) =>
+                  apply({
+                    type: 'area/set-room-type',
+                    payload: { ids: selection.areaIds, roomTypeId: e.target.value || null },
+                  })
+                }
+              >
+                <option value="">Unassigned</option>
+                {planRoomTypes(plan).map((type) => (
+                  <option key={type.id} value={type.id}>
+                    {type.name}
+                  </option>
+                ))}
+              </select>
+            </label>
             {selectedArea.shape.type === 'rect' && (
               <div className="grid grid-cols-2 gap-2">
                 {(['x', 'y', 'width', 'height'] as const).map((field) => {
@@ -92,16 +138,16 @@ export default function PropertiesPanel() {
                       className="block text-xs font-semibold uppercase tracking-[0.12em] text-slate-500"
                     >
                       {field}
-                      <input
-                        type="number"
-                        step="0.1"
-                        defaultValue={rect?.[field]}
+                      <LengthInput
+                        key={`${selectedArea.id}-${field}-${rect?.[field]}`}
+                        value={rect?.[field] ?? 0}
+                        units={plan.units}
                         className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2"
-                        onBlur={(e) =>
+                        onCommit={(value) =>
                           rect &&
                           updateArea('rect', {
                             ...rect,
-                            [field]: parseFloat(e.target.value),
+                            [field]: value,
                           })
                         }
                       />
@@ -138,9 +184,447 @@ export default function PropertiesPanel() {
                 Mirror horizontal
               </button>
             </div>
+            <div className="flex gap-2">
+              <button
+                className="flex-1 rounded-lg border border-slate-200 px-3 py-2 font-semibold text-slate-700 hover:bg-slate-100"
+                onClick={() => apply({ type: 'area/rotate', payload: { ids: selection.areaIds, angle: -90 } })}
+              >
+                Rotate ↺ 90°
+              </button>
+              <button
+                className="flex-1 rounded-lg border border-slate-200 px-3 py-2 font-semibold text-slate-700 hover:bg-slate-100"
+                onClick={() => apply({ type: 'area/rotate', payload: { ids: selection.areaIds, angle: 90 } })}
+              >
+                Rotate ↻ 90°
+              </button>
+            </div>
+            <div className="flex gap-2">
+              <button
+                className="flex-1 rounded-lg border border-slate-200 px-3 py-2 font-semibold text-slate-700 hover:bg-slate-100"
+                onClick={() => setShowScale(true)}
+              >
+                Scale…
+              </button>
+              <button
+                className="flex-1 rounded-lg border border-slate-200 px-3 py-2 font-semibold text-slate-700 hover:bg-slate-100"
+                onClick={() => setShowArray(true)}
+              >
+                Array…
+              </button>
+              <button
+                className="flex-1 rounded-lg border border-slate-200 px-3 py-2 font-semibold text-slate-700 hover:bg-slate-100"
+                onClick={() => setShowOffset(true)}
+              >
+                Offset…
+              </button>
+            </div>
+            {selection.areaIds.length > 1 && (
+              <div className="space-y-2">
+                <p className="text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">Align</p>
+                <div className="grid grid-cols-3 gap-2">
+                  {ALIGN_EDGES.map((option) => (
+                    <button
+                      key={option.value}
+                      className="rounded-lg border border-slate-200 px-2 py-1 text-xs font-semibold text-slate-700 hover:bg-slate-100"
+                      onClick={() => apply({ type: 'area/align', payload: { ids: selection.areaIds, edge: option.value } })}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">Distribute</p>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['horizontal', 'vertical'] as const).flatMap((axis) =>
+                    (['gaps', 'centers'] as const).map((mode) => (
+                      <button
+                        key={`${axis}-${mode}`}
+                        disabled={selection.areaIds.length < 3}
+                        title={selection.areaIds.length < 3 ? 'Select at least three areas' : undefined}
+                        className="rounded-lg border border-slate-200 px-2 py-1 text-xs font-semibold text-slate-700 hover:bg-slate-100 disabled:opacity-40"
+                        onClick={() => apply({ type: 'area/distribute', payload: { ids: selection.areaIds, axis, mode } })}
+                      >
+                        {axis === 'horizontal' ? 'Horizontal' : 'Vertical'} {mode === 'gaps' ? 'gaps' : 'centers'}
+                      </button>
+                    )),
+                  )}
+                </div>
+              </div>
+            )}
+            {showScale && <ScaleDialog ids={selection.areaIds} onClose={() => setShowScale(false)} />}
+            {showArray && <ArrayDialog ids={selection.areaIds} onClose={() => setShowArray(false)} />}
+            {showOffset && <OffsetDialog ids={selection.areaIds} onClose={() => setShowOffset(false)} />}
+            <AreaPropertiesEditor area={selectedArea} />
           </div>
         )}
       </div>
+      {selectedWall && (
+        <div className="rounded-xl border border-slate-200 p-3">
+          <div className="flex items-center justify-between">
+            <p className="text-xs uppercase tracking-[0.12em] text-slate-400">
+              Wall {selectedWalls.length > 1 ? `(${selectedWalls.length})` : ''}
+            </p>
+            <button
+              className="text-xs text-red-600 hover:underline"
+              onClick={() => apply({ type: 'wall/delete', payload: { ids: selectedWalls.map((w) => w.id) } })}
+            >
+              Delete
+            </button>
+          </div>
+          <div className="mt-2 space-y-3 text-sm text-slate-700">
+            <div className="flex justify-between">
+              <span>Length</span>
+              <span className="font-semibold">
+                {formatLength(wallLength(selectedWall), plan)}
+              </span>
+            </div>
+            <label className="block text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">
+              Thickness ({plan.units})
+              <LengthInput
+                key={`${selectedWall.id}-${selectedWall.thickness}`}
+                value={selectedWall.thickness}
+                units={plan.units}
+                className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2"
+                onCommit={(thickness) => {
+                  if (thickness <= 0) return;
+                  selectedWalls.forEach((w) => apply({ type: 'wall/update', payload: { id: w.id, thickness } }));
+                }}
+              />
+            </label>
+            <label className="block text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">
+              Alignment
+              <select
+                value={selectedWall.alignment}
+                className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2"
+                onChange={(e) => {
+                  const alignment = e.target.value as WallAlignment;
+                  selectedWalls.forEach((w) => apply({ type: 'wall/update', payload: { id: w.id, alignment } }));
+                }}
+              >
+                <option value="center">Center</option>
+                <option value="inside">Inside</option>
+                <option value="outside">Outside</option>
+              </select>
+            </label>
+            <button
+              className="w-full rounded-lg border border-slate-200 px-3 py-2 font-semibold text-slate-700 hover:bg-slate-100"
+              onClick={() =>
+                apply({
+                  type: 'wall/split',
+                  payload: {
+                    id: selectedWall.id,
+                    point: {
+                      x: (selectedWall.start.x + selectedWall.end.x) / 2,
+                      y: (selectedWall.start.y + selectedWall.end.y) / 2,
+                    },
+                  },
+                })
+              }
+            >
+              Split at midpoint
+            </button>
+          </div>
+        </div>
+      )}
+      {selectedFixture && (
+        <div className="rounded-xl border border-slate-200 p-3">
+          <div className="flex items-center justify-between">
+            <p className="text-xs uppercase tracking-[0.12em] text-slate-400">
+              {findFixtureSymbol(selectedFixture.symbol)?.label ?? 'Fixture'}{' '}
+              {(selection.fixtureIds?.length ?? 0) > 1 ? `(${selection.fixtureIds?.length})` : ''}
+            </p>
+            <button
+              className="text-xs text-red-600 hover:underline"
+              onClick={() => apply({ type: 'fixture/delete', payload: { ids: selection.fixtureIds ?? [] } })}
+            >
+              Delete
+            </button>
+          </div>
+          <div className="mt-2 space-y-3 text-sm text-slate-700">
+            <label className="block text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">
+              Label
+              <input
+                key={selectedFixture.id}
+                className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2"
+                defaultValue={selectedFixture.name ?? ''}
+                placeholder={findFixtureSymbol(selectedFixture.symbol)?.label}
+                onBlur={(e) => apply({ type: 'fixture/update', payload: { id: selectedFixture.id, name: e.target.value } })}
+              />
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {(['width', 'depth', 'rotation'] as const).map((field) => (
+                <label key={field} className="block text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">
+                  {field === 'rotation' ? 'Rot °' : field}
+                  {field === 'rotation' ? (
+                    <input
+                      key={`${selectedFixture.id}-${selectedFixture[field]}`}
+                      type="number"
+                      step="15"
+                      defaultValue={Number(selectedFixture[field].toFixed(3))}
+                      className="mt-1 w-full rounded-lg border border-slate-200 px-2 py-2"
+                      onBlur={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (!Number.isFinite(value)) return;
+                        apply({ type: 'fixture/update', payload: { id: selectedFixture.id, [field]: value } });
+                      }}
+                    />
+                  ) : (
+                    <LengthInput
+                      key={`${selectedFixture.id}-${selectedFixture[field]}`}
+                      value={selectedFixture[field]}
+                      units={plan.units}
+                      className="mt-1 w-full rounded-lg border border-slate-200 px-2 py-2"
+                      onCommit={(value) =>
+                        apply({ type: 'fixture/update', payload: { id: selectedFixture.id, [field]: value } })
+                      }
+                    />
+                  )}
+                </label>
+              ))}
+            </div>
+            <button
+              className="w-full rounded-lg border border-slate-200 px-3 py-2 font-semibold text-slate-700 hover:bg-slate-100"
+              onClick={() =>
+                apply({ type: 'fixture/update', payload: { id: selectedFixture.id, rotation: selectedFixture.rotation + 90 } })
+              }
+            >
+              Rotate 90°
+            </button>
+          </div>
+        </div>
+      )}
+      {selectedDimension && (
+        <div className="rounded-xl border border-slate-200 p-3">
+          <div className="flex items-center justify-between">
+            <p className="text-xs uppercase tracking-[0.12em] text-slate-400">Dimension</p>
+            <button
+              className="text-xs text-red-600 hover:underline"
+              onClick={() => apply({ type: 'dimension/delete', payload: { ids: [selectedDimension.id] } })}
+            >
+              Delete
+            </button>
+          </div>
+          <div className="mt-2 space-y-3 text-sm text-slate-700">
+            {resolvedDimension && (
+              <p>
+                {resolvedDimension.segments.length > 1 ? 'Total ' : ''}
+                <span className="font-semibold">
+                  {formatLength(
+                    resolvedDimension.segments.reduce((sum, segment) => sum + segment.length, 0),
+                    plan,
+                  )}
+                </span>
+                {resolvedDimension.segments.length > 1 ? ` in ${resolvedDimension.segments.length} parts` : ''}
+              </p>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">
+                Style
+                <select
+                  className="mt-1 w-full rounded-lg border border-slate-200 px-1 py-2"
+                  value={selectedDimension.style}
+                  onChange={(e) =>
+                    apply({
+                      type: 'dimension/update',
+                      payload: { id: selectedDimension.id, style: e.target.value as DimensionStyle },
+                    })
+                  }
+                >
+                  {DIMENSION_STYLES.map((style) => (
+                    <option key={style.value} value={style.value}>
+                      {style.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">
+                Offset
+                <LengthInput
+                  key={`${selectedDimension.id}-${selectedDimension.offset}`}
+                  value={selectedDimension.offset}
+                  units={plan.units}
+                  className="mt-1 w-full rounded-lg border border-slate-200 px-2 py-2"
+                  onCommit={(value) => apply({ type: 'dimension/update', payload: { id: selectedDimension.id, offset: value } })}
+                />
+              </label>
+            </div>
+            {selectedDimension.points.some((point) => !point.ref) && (
+              <p className="text-xs text-slate-500">
+                {selectedDimension.points.filter((point) => !point.ref).length} of {selectedDimension.points.length} points
+                are fixed on the plan rather than attached to geometry.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+      {selectedAnnotation && (
+        <div className="rounded-xl border border-slate-200 p-3">
+          <div className="flex items-center justify-between">
+            <p className="text-xs uppercase tracking-[0.12em] text-slate-400">
+              {selectedAnnotation.leader ? 'Callout' : 'Note'}{' '}
+              {(selection.annotationIds?.length ?? 0) > 1 ? `(${selection.annotationIds?.length})` : ''}
+            </p>
+            <button
+              className="text-xs text-red-600 hover:underline"
+              onClick={() => apply({ type: 'annotation/delete', payload: { ids: selection.annotationIds ?? [] } })}
+            >
+              Delete
+            </button>
+          </div>
+          <div className="mt-2 space-y-3 text-sm text-slate-700">
+            <label className="block text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">
+              Text
+              <input
+                key={`${selectedAnnotation.id}-${selectedAnnotation.text}`}
+                className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2"
+                defaultValue={selectedAnnotation.text}
+                onBlur={(e) => {
+                  const text = e.target.value.trim();
+                  if (text && text !== selectedAnnotation.text) {
+                    apply({ type: 'annotation/update', payload: { id: selectedAnnotation.id, text } });
+                  }
+                }}
+              />
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              <label className="block text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">
+                Size
+                <LengthInput
+                  key={`${selectedAnnotation.id}-${selectedAnnotation.fontSize}`}
+                  value={selectedAnnotation.fontSize}
+                  units={plan.units}
+                  className="mt-1 w-full rounded-lg border border-slate-200 px-2 py-2"
+                  onCommit={(value) => {
+                    if (value > 0) apply({ type: 'annotation/update', payload: { id: selectedAnnotation.id, fontSize: value } });
+                  }}
+                />
+              </label>
+              <label className="block text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">
+                Rot °
+                <input
+                  key={`${selectedAnnotation.id}-${selectedAnnotation.rotation}`}
+                  type="number"
+                  step="15"
+                  defaultValue={Number(selectedAnnotation.rotation.toFixed(3))}
+                  className="mt-1 w-full rounded-lg border border-slate-200 px-2 py-2"
+                  onBlur={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (!Number.isFinite(value)) return;
+                    apply({ type: 'annotation/update', payload: { id: selectedAnnotation.id, rotation: value } });
+                  }}
+                />
+              </label>
+              <label className="block text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">
+                Align
+                <select
+                  className="mt-1 w-full rounded-lg border border-slate-200 px-1 py-2"
+                  value={selectedAnnotation.align}
+                  onChange={(e) =>
+                    apply({
+                      type: 'annotation/update',
+                      payload: { id: selectedAnnotation.id, align: e.target.value as TextAlign },
+                    })
+                  }
+                >
+                  <option value="left">Left</option>
+                  <option value="center">Center</option>
+                  <option value="right">Right</option>
+                </select>
+              </label>
+            </div>
+            {selectedAnnotation.leader && (
+              <button
+                className="w-full rounded-lg border border-slate-200 px-3 py-2 font-semibold text-slate-700 hover:bg-slate-100"
+                onClick={() => apply({ type: 'annotation/update', payload: { id: selectedAnnotation.id, leader: null } })}
+              >
+                Remove leader
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+      {selectedOpening && (
+        <div className="rounded-xl border border-slate-200 p-3">
+          <div className="flex items-center justify-between">
+            <p className="text-xs uppercase tracking-[0.12em] text-slate-400">
+              {selectedOpening.kind === 'door' ? 'Door' : 'Window'}
+            </p>
+            <button
+              className="text-xs text-red-600 hover:underline"
+              onClick={() => apply({ type: 'opening/delete', payload: { ids: [selectedOpening.id] } })}
+            >
+              Delete
+            </button>
+          </div>
+          <div className="mt-2 space-y-3 text-sm text-slate-700">
+            <label className="block text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">
+              Type
+              <select
+                value={selectedOpening.kind}
+                className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2"
+                onChange={(e) =>
+                  apply({ type: 'opening/update', payload: { id: selectedOpening.id, kind: e.target.value as OpeningKind } })
+                }
+              >
+                <option value="door">Door</option>
+                <option value="window">Window</option>
+              </select>
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {(['width', 'offset'] as const).map((field) => (
+                <label key={field} className="block text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">
+                  {field} ({plan.units})
+                  <LengthInput
+                    key={`${selectedOpening.id}-${selectedOpening[field]}`}
+                    value={selectedOpening[field]}
+                    units={plan.units}
+                    className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2"
+                    onCommit={(value) => {
+                      if (value < 0) return;
+                      apply({ type: 'opening/update', payload: { id: selectedOpening.id, [field]: value } });
+                    }}
+                  />
+                </label>
+              ))}
+            </div>
+            {selectedOpening.kind === 'door' && (
+              <div className="grid grid-cols-2 gap-2">
+                <label className="block text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">
+                  Hinge
+                  <select
+                    value={selectedOpening.swing}
+                    className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2"
+                    onChange={(e) =>
+                      apply({
+                        type: 'opening/update',
+                        payload: { id: selectedOpening.id, swing: e.target.value as OpeningSwing },
+                      })
+                    }
+                  >
+                    <option value="left">Left</option>
+                    <option value="right">Right</option>
+                  </select>
+                </label>
+                <label className="block text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">
+                  Opens
+                  <select
+                    value={selectedOpening.direction}
+                    className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2"
+                    onChange={(e) =>
+                      apply({
+                        type: 'opening/update',
+                        payload: { id: selectedOpening.id, direction: e.target.value as OpeningDirection },
+                      })
+                    }
+                  >
+                    <option value="in">Inward</option>
+                    <option value="out">Outward</option>
+                  </select>
+                </label>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
       <div className="rounded-xl border border-slate-200 p-3 text-sm text-slate-600">
         <p className="text-xs font-semibold uppercase tracking-[0.12em] text-slate-400">Notes</p>
         <ul className="mt-2 list-disc space-y-1 pl-4">
@@ -148,7 +632,28 @@ export default function PropertiesPanel() {
           <li>Wheel to zoom, space+drag or Pan tool to move.</li>
           <li>Divide creates equal partitions (keeps parent id as lineage).</li>
           <li>Shift-click to multi-select and move together.</li>
-          <li>Long-press or right-click an area for the context menu (merge, divide, rename).</li>
+          <li>Draw walls click by click; Enter or double-click finishes, clicking the first point closes the loop.</li>
+          <li>Alt-click a wall to split it; dragging a wall keeps its corners joined.</li>
+          <li>Place doors and windows by clicking an area edge; drag them to slide along the edge.</li>
+          <li>Lock a group from the area context menu to protect its areas from edits.</li>
+          <li>Dragging a grouped area moves the whole group; Shift-click to pick one member.</li>
+          <li>Changing plan units converts all geometry, so real-world sizes stay the same.</li>
+          <li>Length fields accept feet and inches, e.g. 12'6-1/2".</li>
+          <li>Decimal places, number format and area units are set under Display in the plan summary.</li>
+          <li>Drag nodes in the Groups &amp; lineage tree to nest groups or reparent areas.</li>
+          <li>Hidden layers are not drawn and locked layers cannot be edited; drag layers to change their stacking.</li>
+          <li>Assigning a room type restyles the selected areas; edit the taxonomy from the plan summary.</li>
+          <li>Pick furniture from the library, then click the canvas to place it; drag to move.</li>
+          <li>Dimension tool: click two points, or several then Enter for a chain; drag the line to move it off the geometry.</li>
+          <li>Measure tool: click points for lengths and angles; close the outline for its area.</li>
+          <li>Annotate: click for a note, or drag from a point to the text position for a callout.</li>
+          <li>Drag the knob above a selection to rotate it; hold Shift to snap the angle.</li>
+          <li>Shift-drag a handle to scale proportionally, or use Scale… for exact factors.</li>
+          <li>Array… repeats the selection along a step or in a grid, numbering the copies (Room 101 → 102, 103…).</li>
+          <li>Offset… grows or shrinks areas by a distance, or makes a corridor or setback band around them.</li>
+          <li>Select several areas to align them or distribute them by equal gaps or centers.</li>
+          <li>Long-press or right-click an area for the context menu (merge, intersect, exclude, divide, rename).</li>
+          <li>Ctrl/Cmd+] and Ctrl/Cmd+[ change stacking within a layer; add Shift for front/back.</li>
           <li>Undo/redo: Ctrl/Cmd+Z and Shift+Ctrl/Cmd+Z.</li>
         </ul>
       </div>
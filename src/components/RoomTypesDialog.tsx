@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { planRoomTypes } from '../domain/roomTypes';
+import type { RoomType } from '../domain/types';
+import { usePlanStore } from '../store/usePlanStore';
+
+type Props = {
+  onClose: () => void;
+};
+
+const inputClass = 'w-full rounded-lg border border-slate-200 px-2 py-1 text-sm';
+
+export default function RoomTypesDialog({ onClose }: Props) {
+  const plan = usePlanStore((s) => s.plan);
+  const apply = usePlanStore((s) => s.apply);
+  const paletteColor = usePlanStore((s) => s.paletteColor);
+  const [newName, setNewName] = useState('');
+  const roomTypes = planRoomTypes(plan);
+
+  const upsert = (roomType: RoomType) => apply({ type: 'room-type/upsert', payload: { roomType } });
+
+  const addType = () => {
+    const name = newName.trim();
+    if (!name) return;
+    upsert({ id: crypto.randomUUID(), name, fill: paletteColor, stroke: '#1d4ed8', labelPrefix: name });
+    setNewName('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/20 p-4">
+      <div className="w-full max-w-xl rounded-xl bg-white p-6 shadow-lg ring-1 ring-slate-200">
+        <div className="mb-3 flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Room types</h2>
+          <button className="text-sm text-slate-500 hover:text-ink" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <div className="grid grid-cols-[auto_auto_1fr_1fr_auto] items-center gap-2 text-xs font-semibold text-slate-500">
+          <span>Fill</span>
+          <span>Stroke</span>
+          <span>Name</span>
+          <span>Label prefix</span>
+          <span />
+        </div>
+        <div className="mt-1 max-h-80 space-y-1 overflow-auto">
+          {roomTypes.map((type) => (
+            <div key={type.id} className="grid grid-cols-[auto_auto_1fr_1fr_auto] items-center gap-2">
+              <input
+                type="color"
+                className="h-8 w-8 rounded"
+                value={type.fill}
+                onChange={(e) => upsert({ ...type, fill: e.target.value })}
+              />
+              <input
+                type="color"
+                className="h-8 w-8 rounded"
+                value={type.stroke}
+                onChange={(e) => upsert({ ...type, stroke: e.target.value })}
+              />
+              <input
+                key={`${type.id}-name-${type.name}`}
+                className={inputClass}
+                defaultValue={type.name}
+                onBlur={(e) => {
+                  if (e.target.value.trim() && e.target.value !== type.name) upsert({ ...type, name: e.target.value });
+                }}
+              />
+              <input
+                key={`${type.id}-prefix-${type.labelPrefix}`}
+                className={inputClass}
+                defaultValue={type.labelPrefix}
+                onBlur={(e) => {
+                  const labelPrefix = e.target.value.trim();
+                  if (labelPrefix && labelPrefix !== type.labelPrefix) upsert({ ...type, labelPrefix });
+                }}
+              />
+              <button
+                className="text-xs text-slate-400 hover:text-red-600"
+                title={`Delete ${type.name}`}
+                onClick={() => apply({ type: 'room-type/delete', payload: { id: type.id } })}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="mt-4 flex gap-2">
+          <input
+            className={inputClass}
+            placeholder="New room type"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') addType();
+            }}
+          />
+          <button
+            className="rounded-lg bg-accent px-4 py-1 text-sm font-semibold text-white shadow-sm hover:bg-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+            disabled={!newName.trim()}
+            onClick={addType}
+          >
+            Add
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import LengthInput from './LengthInput';
+import { shapesBoundingBox } from '../domain/geometry';
+import { activeLevel } from '../domain/levels';
+import type { ScaleAnchor } from '../domain/types';
+import { usePlanStore } from '../store/usePlanStore';
+
+type Props = {
+  ids: string[];
+  /** Plan point the dialog was opened at, offered as the "Clicked point" anchor. */
+  point?: { x: number; y: number };
+  onClose: () => void;
+};
+
+type AnchorOption = 'center' | 'nw' | 'ne' | 'se' | 'sw' | 'point';
+
+const inputClass = 'mt-1 w-full rounded-lg border border-slate-200 px-2 py-1 text-sm';
+
+const ANCHORS: { value: AnchorOption; label: string }[] = [
+  { value: 'center', label: 'Center' },
+  { value: 'nw', label: 'Top-left corner' },
+  { value: 'ne', label: 'Top-right corner' },
+  { value: 'se', label: 'Bottom-right corner' },
+  { value: 'sw', label: 'Bottom-left corner' },
+  { value: 'point', label: 'Point' },
+];
+
+function parseFactor(text: string) {
+  const value = parseFloat(text.replace('%', ''));
+  if (!Number.isFinite(value) || value <= 0) return null;
+  return text.trim().endsWith('%') ? value / 100 : value;
+}
+
+export default function ScaleDialog({ ids, point, onClose }: Props) {
+  const plan = usePlanStore((s) => s.plan);
+  const apply = usePlanStore((s) => s.apply);
+  const areas = activeLevel(plan).areas.filter((area) => ids.includes(area.id));
+  const bounds = areas.length ? shapesBoundingBox(areas.map((area) => area.shape)) : null;
+  const [uniform, setUniform] = useState(true);
+  const [factorX, setFactorX] = useState('2');
+  const [factorY, setFactorY] = useState('2');
+  const [anchor, setAnchor] = useState<AnchorOption>(point ? 'point' : 'center');
+  const [anchorPoint, setAnchorPoint] = useState(
+    point ?? (bounds ? { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 } : { x: 0, y: 0 }),
+  );
+
+  const x = parseFactor(factorX);
+  const y = uniform ? x : parseFactor(factorY);
+  const valid = areas.length > 0 && x !== null && y !== null;
+
+  const submit = () => {
+    if (!areas.length || x === null || y === null) return;
+    const scaleAnchor: ScaleAnchor = anchor === 'point' ? anchorPoint : anchor;
+    apply({
+      type: 'area/scale',
+      payload: { ids: areas.map((area) => area.id), factor: uniform ? x : { x, y }, anchor: scaleAnchor },
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/20 p-4">
+      <div className="w-full max-w-sm rounded-xl bg-white p-6 shadow-lg ring-1 ring-slate-200">
+        <div className="mb-3 flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Scale {areas.length > 1 ? `${areas.length} areas` : 'area'}</h2>
+          <button className="text-sm text-slate-500 hover:text-ink" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <form
+          className="grid grid-cols-2 gap-3 text-sm text-slate-600"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit();
+          }}
+        >
+          <label className="col-span-2 flex items-center gap-2">
+            <input type="checkbox" checked={uniform} onChange={(e) => setUniform(e.target.checked)} />
+            Uniform
+          </label>
+          <label className={uniform ? 'col-span-2' : undefined}>
+            {uniform ? 'Factor' : 'Factor X'}
+            <input className={inputClass} value={factorX} onChange={(e) => setFactorX(e.target.value)} autoFocus />
+          </label>
+          {!uniform && (
+            <label>
+              Factor Y
+              <input className={inputClass} value={factorY} onChange={(e) => setFactorY(e.target.value)} />
+            </label>
+          )}
+          <label className="col-span-2">
+            Anchor
+            <select className={inputClass} value={anchor} onChange={(e) => setAnchor(e.target.value as AnchorOption)}>
+              {ANCHORS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.value === 'point' && point ? 'Clicked point' : option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          {anchor === 'point' && (
+            <>
+              <label>
+                X
+                <LengthInput
+                  value={anchorPoint.x}
+                  units={plan.units}
+                  className={inputClass}
+                  onCommit={(value) => setAnchorPoint((p) => ({ ...p, x: value }))}
+                />
+              </label>
+              <label>
+                Y
+                <LengthInput
+                  value={anchorPoint.y}
+                  units={plan.units}
+                  className={inputClass}
+                  onCommit={(value) => setAnchorPoint((p) => ({ ...p, y: value }))}
+                />
+              </label>
+            </>
+          )}
+          <p className="col-span-2 text-xs text-slate-400">Factors above 1 enlarge; 50% or 0.5 halves.</p>
+          <div className="col-span-2 flex justify-end gap-2">
+            <button
+              type="button"
+              className="rounded-lg border border-slate-200 px-3 py-2 font-semibold text-slate-700 hover:bg-slate-100"
+              onClick={onClose}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!valid}
+              className="rounded-lg bg-slate-900 px-3 py-2 font-semibold text-white hover:bg-slate-800 disabled:opacity-40"
+            >
+              Scale
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
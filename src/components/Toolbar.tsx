@@ -1,6 +1,14 @@
+import { useState } from 'react';
+import { DIMENSION_STYLES } from '../domain/dimensions';
+import { formatArea } from '../domain/format';
+import { activeLevel } from '../domain/levels';
+import { areaReport, roomTypeTotals, totalArea } from '../domain/reports';
 import { usePlanStore } from '../store/usePlanStore';
 import { usePromptStore } from '../store/usePromptStore';
-import type { Tool } from '../domain/types';
+import type { Tool, Units } from '../domain/types';
+import { UNIT_OPTIONS } from '../domain/units';
+import DisplaySettingsDialog from './DisplaySettingsDialog';
+import RoomTypesDialog from './RoomTypesDialog';
 
 type Props = {
   activeTool: Tool;
@@ -12,6 +20,9 @@ const tools: { id: Tool; label: string; icon: string }[] = [
   { id: 'select', label: 'Select / Move', icon: '⬚' },
   { id: 'draw-rect', label: 'Draw Rectangle', icon: '▭' },
   { id: 'draw-polygon', label: 'Draw Polygon', icon: '△' },
+  { id: 'draw-wall', label: 'Draw Walls (Enter to finish, Shift for right angles)', icon: '▥' },
+  { id: 'place-door', label: 'Place Door (click an area edge)', icon: '🚪' },
+  { id: 'place-window', label: 'Place Window (click an area edge)', icon: '🪟' },
   { id: 'draw-ellipse', label: 'Draw Ellipse', icon: '◯' },
   { id: 'draw-circle', label: 'Draw Circle', icon: '⬤' },
   { id: 'draw-semi-circle', label: 'Draw Semi Circle', icon: '◐' },
@@ -20,6 +31,9 @@ const tools: { id: Tool; label: string; icon: string }[] = [
   { id: 'pan', label: 'Pan / Zoom', icon: '✥' },
   { id: 'fill', label: 'Color Fill', icon: '🎨' },
   { id: 'label', label: 'Text / Label', icon: '✎' },
+  { id: 'dimension', label: 'Dimension (click two points; chains finish with Enter)', icon: '↔' },
+  { id: 'measure', label: 'Measure (click points; click the first point or Enter for area)', icon: '📏' },
+  { id: 'annotate', label: 'Annotate (click for a note, drag from a point for a callout)', icon: '✍' },
   { id: 'delete', label: 'Delete', icon: '⌫' },
 ];
 
@@ -30,7 +44,15 @@ export default function Toolbar({ activeTool, onChangeTool, hasSelection }: Prop
   const snapEnabled = usePlanStore((s) => s.snapEnabled);
   const showDimensions = usePlanStore((s) => s.showDimensions);
   const showGrid = usePlanStore((s) => s.showGrid);
+  const activeDimensionStyle = usePlanStore((s) => s.activeDimensionStyle);
   const openPrompt = usePromptStore((s) => s.openPrompt);
+  const level = activeLevel(plan);
+  const [showRoomTypes, setShowRoomTypes] = useState(false);
+  const [showDisplay, setShowDisplay] = useState(false);
+  const levelRows = areaReport(plan, 'level');
+  const levelTotal = totalArea(levelRows);
+  const typeTotals = roomTypeTotals(plan, levelRows);
+  const buildingTotal = totalArea(areaReport(plan, 'building'));
 
   return (
     <aside className="flex h-full flex-col gap-3 rounded-2xl bg-white p-4 shadow-shell ring-1 ring-slate-200">
@@ -52,9 +74,31 @@ export default function Toolbar({ activeTool, onChangeTool, hasSelection }: Prop
             </button>
           ))}
         </div>
+        {activeTool === 'dimension' && (
+          <div className="mt-2 grid grid-cols-4 gap-1" title="Dimension style">
+            {DIMENSION_STYLES.map((style) => (
+              <button
+                key={style.value}
+                onClick={() => usePlanStore.setState({ activeDimensionStyle: style.value })}
+                className={`rounded-lg px-1 py-1 text-xs font-semibold transition ${
+                  activeDimensionStyle === style.value
+                    ? 'bg-blue-50 text-ink ring-1 ring-blue-200'
+                    : 'text-slate-600 hover:bg-slate-100'
+                }`}
+              >
+                {style.label}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
       <div className="rounded-xl border border-slate-200 p-3">
-        <p className="text-xs font-semibold uppercase tracking-[0.12em] text-slate-400">Plan</p>
+        <div className="flex items-center justify-between">
+          <p className="text-xs font-semibold uppercase tracking-[0.12em] text-slate-400">Plan</p>
+          <button className="text-xs text-slate-500 hover:text-ink" onClick={() => setShowDisplay(true)}>
+            Display
+          </button>
+        </div>
         <div className="mt-2 space-y-1 text-sm text-slate-700">
           <div className="flex justify-between">
             <span>Size</span>
@@ -62,16 +106,82 @@ export default function Toolbar({ activeTool, onChangeTool, hasSelection }: Prop
               {plan.canvas.width} × {plan.canvas.height} {plan.units}
             </span>
           </div>
+          <div className="flex items-center justify-between">
+            <span>Units</span>
+            <select
+              className="rounded border border-slate-200 px-1 py-0.5 text-sm font-semibold"
+              title="Converts all geometry so real-world sizes stay the same"
+              value={plan.units}
+              onChange={(e) => apply({ type: 'plan/set-units', payload: { units: e.target.value as Units } })}
+            >
+              {UNIT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
           <div className="flex justify-between">
             <span>Zoom</span>
             <span className="font-semibold">{plan.canvas.zoom.toFixed(2)}×</span>
           </div>
+          <div className="flex justify-between">
+            <span>Level</span>
+            <span className="font-semibold">{level.name}</span>
+          </div>
           <div className="flex justify-between">
             <span>Areas</span>
-            <span className="font-semibold">{plan.areas.length}</span>
+            <span className="font-semibold">{level.areas.length}</span>
+          </div>
+          {!!level.walls?.length && (
+            <div className="flex justify-between">
+              <span>Walls</span>
+              <span className="font-semibold">{level.walls.length}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span>Level area</span>
+            <span className="font-semibold">
+              {formatArea(levelTotal, plan)}
+            </span>
           </div>
+          {plan.levels.length > 1 && (
+            <div className="flex justify-between">
+              <span>Building area</span>
+              <span className="font-semibold">
+                {formatArea(buildingTotal, plan)}
+              </span>
+            </div>
+          )}
+        </div>
+        <div className="mt-3 flex items-center justify-between">
+          <p className="text-xs font-semibold uppercase tracking-[0.12em] text-slate-400">By room type</p>
+          <button className="text-xs text-slate-500 hover:text-ink" onClick={() => setShowRoomTypes(true)}>
+            Edit types
+          </button>
+        </div>
+        <div className="mt-1 space-y-1 text-sm text-slate-700">
+          {!typeTotals.length && <p className="text-xs text-slate-400">No areas on this level.</p>}
+          {typeTotals.map((total) => (
+            <div key={total.roomType?.id ?? 'untyped'} className="flex items-center justify-between gap-2">
+              <span className="flex min-w-0 items-center gap-2">
+                <span
+                  className="h-3 w-3 shrink-0 rounded-sm border"
+                  style={{ background: total.roomType?.fill ?? '#ffffff', borderColor: total.roomType?.stroke ?? '#94a3b8' }}
+                />
+                <span className="truncate">
+                  {total.roomType?.name ?? 'Unassigned'} ({total.count})
+                </span>
+              </span>
+              <span className="font-semibold">
+                {formatArea(total.size, plan)}
+              </span>
+            </div>
+          ))}
         </div>
       </div>
+      {showRoomTypes && <RoomTypesDialog onClose={() => setShowRoomTypes(false)} />}
+      {showDisplay && <DisplaySettingsDialog onClose={() => setShowDisplay(false)} />}
       <div className="mt-2 rounded-xl border border-slate-200 p-3">
         <div className="flex items-center justify-between">
           <p className="text-xs font-semibold uppercase tracking-[0.12em] text-slate-400">Color</p>
@@ -165,6 +275,14 @@ export default function Toolbar({ activeTool, onChangeTool, hasSelection }: Prop
           >
             Subtract selection
           </button>
+          <button
+            className="rounded-lg border border-slate-200 px-3 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-100"
+            disabled={!level.walls?.length}
+            title="Create an area for every space fully enclosed by walls"
+            onClick={() => apply({ type: 'wall/derive-areas', payload: {} })}
+          >
+            Rooms from walls
+          </button>
         </div>
       </div>
     </aside>
@@ -1,7 +1,12 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import type { ChangeEvent } from 'react';
 import { exportPlanToJson, importPlanFromJson } from '../domain/io';
+import { activeLevel } from '../domain/levels';
+import { areaReport, areaReportToCsv } from '../domain/reports';
+import type { ReportScope } from '../domain/reports';
+import type { ValidationError } from '../domain/validation';
 import { usePlanStore } from '../store/usePlanStore';
+import ImportReportDialog from './ImportReportDialog';
 
 type Props = {
   onNew: () => void;
@@ -15,91 +20,152 @@ export default function TopBar({ onNew, onUndock, onResize }: Props) {
   const redo = usePlanStore((s) => s.redo);
   const loadPlan = usePlanStore((s) => s.loadPlan);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [exportScope, setExportScope] = useState<ReportScope>('building');
+  const [importReport, setImportReport] = useState<{
+    fileName: string;
+    json: string;
+    error: string;
+    issues: ValidationError[];
+    repairs?: string[];
+  } | null>(null);
 
   useEffect(() => {
     document.title = `${plan.meta.name} – Floor Plan`;
   }, [plan.meta.name]);
 
-  const handleSave = () => {
-    const json = exportPlanToJson(plan);
-    const blob = new Blob([json], { type: 'application/json' });
+  const exportBaseName = () => {
+    const base = plan.meta.name || 'plan';
+    return exportScope === 'level' ? `${base} - ${activeLevel(plan).name}` : base;
+  };
+
+  const download = (contents: string, type: string, fileName: string) => {
+    const blob = new Blob([contents], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${plan.meta.name || 'plan'}.json`;
+    a.download = fileName;
     a.click();
     URL.revokeObjectURL(url);
   };
 
+  const handleSave = () => {
+    download(exportPlanToJson(plan, exportScope), 'application/json', `${exportBaseName()}.json`);
+  };
+
+  const handleReport = () => {
+    const csv = areaReportToCsv(plan, areaReport(plan, exportScope));
+    download(csv, 'text/csv', `${exportBaseName()} areas.csv`);
+  };
+
   const handleLoad = (evt: ChangeEvent<HTMLInputElement>) => {
     const file = evt.target.files?.[0];
     if (!file) return;
     const reader = new FileReader();
     reader.onload = () => {
-      const parsed = importPlanFromJson(String(reader.result));
-      if (parsed) {
-        loadPlan(parsed);
+      const json = String(reader.result);
+      const result = importPlanFromJson(json);
+      if (result.ok) {
+        loadPlan(result.plan);
       } else {
-        alert('Invalid JSON file');
+        setImportReport({ fileName: file.name, json, error: result.error, issues: result.issues ?? [] });
       }
     };
     reader.readAsText(file);
+    evt.target.value = '';
+  };
+
+  const handleRepair = () => {
+    if (!importReport) return;
+    const result = importPlanFromJson(importReport.json, { repair: true });
+    if (result.ok) {
+      loadPlan(result.plan);
+      setImportReport({ ...importReport, repairs: result.repairs ?? [] });
+    } else {
+      setImportReport({ ...importReport, error: result.error, issues: result.issues ?? [] });
+    }
   };
 
   return (
-    <header className="flex items-center justify-between rounded-2xl bg-white px-4 py-3 shadow-shell ring-1 ring-slate-200">
-      <div className="flex items-center gap-3">
-        <div className="h-10 w-10 rounded-xl bg-gradient-to-br from-blue-500 to-emerald-400 shadow-sm" />
-        <div>
-          <p className="text-xs uppercase tracking-[0.12em] text-slate-400">Floor-Plan Editor</p>
-          <p className="text-sm font-semibold text-ink">{plan.meta.name}</p>
+    <>
+      <header className="flex items-center justify-between rounded-2xl bg-white px-4 py-3 shadow-shell ring-1 ring-slate-200">
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-xl bg-gradient-to-br from-blue-500 to-emerald-400 shadow-sm" />
+          <div>
+            <p className="text-xs uppercase tracking-[0.12em] text-slate-400">Floor-Plan Editor</p>
+            <p className="text-sm font-semibold text-ink">{plan.meta.name}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <button
+            className="rounded-lg px-3 py-2 font-medium text-slate-700 hover:bg-slate-100"
+            onClick={onNew}
+          >
+            New
+          </button>
+          <button
+            className="rounded-lg px-3 py-2 font-medium text-slate-700 hover:bg-slate-100"
+            onClick={onResize}
+          >
+            Resize
+          </button>
+          <select
+            value={exportScope}
+            onChange={(e) => setExportScope(e.target.value as ReportScope)}
+            title="Export scope"
+            className="rounded-lg border border-slate-200 px-2 py-2 text-slate-700"
+          >
+            <option value="building">Whole building</option>
+            <option value="level">Active level</option>
+          </select>
+          <button
+            className="rounded-lg px-3 py-2 font-medium text-slate-700 hover:bg-slate-100"
+            onClick={handleSave}
+          >
+            Save JSON
+          </button>
+          <button
+            className="rounded-lg px-3 py-2 font-medium text-slate-700 hover:bg-slate-100"
+            onClick={handleReport}
+          >
+            Area report
+          </button>
+          <button
+            className="rounded-lg px-3 py-2 font-medium text-slate-700 hover:bg-slate-100"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            Load JSON
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json" className="hidden" onChange={handleLoad} />
+          <button
+            className="rounded-lg px-3 py-2 font-medium text-slate-700 hover:bg-slate-100"
+            onClick={undo}
+          >
+            Undo
+          </button>
+          <button
+            className="rounded-lg px-3 py-2 font-medium text-slate-700 hover:bg-slate-100"
+            onClick={redo}
+          >
+            Redo
+          </button>
+          <button
+            className="rounded-lg bg-slate-900 px-3 py-2 font-medium text-white hover:bg-slate-800"
+            onClick={onUndock}
+          >
+            Dock out canvas
+          </button>
         </div>
-      </div>
-      <div className="flex items-center gap-2 text-sm">
-        <button
-          className="rounded-lg px-3 py-2 font-medium text-slate-700 hover:bg-slate-100"
-          onClick={onNew}
-        >
-          New
-        </button>
-        <button
-          className="rounded-lg px-3 py-2 font-medium text-slate-700 hover:bg-slate-100"
-          onClick={onResize}
-        >
-          Resize
-        </button>
-        <button
-          className="rounded-lg px-3 py-2 font-medium text-slate-700 hover:bg-slate-100"
-          onClick={handleSave}
-        >
-          Save JSON
-        </button>
-        <button
-          className="rounded-lg px-3 py-2 font-medium text-slate-700 hover:bg-slate-100"
-          onClick={() => fileInputRef.current?.click()}
-        >
-          Load JSON
-        </button>
-        <input ref={fileInputRef} type="file" accept="application/json" className="hidden" onChange={handleLoad} />
-        <button
-          className="rounded-lg px-3 py-2 font-medium text-slate-700 hover:bg-slate-100"
-          onClick={undo}
-        >
-          Undo
-        </button>
-        <button
-          className="rounded-lg px-3 py-2 font-medium text-slate-700 hover:bg-slate-100"
-          onClick={redo}
-        >
-          Redo
-        </button>
-        <button
-          className="rounded-lg bg-slate-900 px-3 py-2 font-medium text-white hover:bg-slate-800"
-          onClick={onUndock}
-        >
-          Dock out canvas
-        </button>
-      </div>
-    </header>
+      </header>
+      {importReport && (
+        <ImportReportDialog
+          fileName={importReport.fileName}
+          error={importReport.error}
+          issues={importReport.issues}
+          repairs={importReport.repairs}
+          onRepair={importReport.issues.length ? handleRepair : undefined}
+          onClose={() => setImportReport(null)}
+        />
+      )}
+    </>
   );
 }
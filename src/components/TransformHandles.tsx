@@ -3,7 +3,10 @@ import type { RectHandle, RectShape } from '../domain/types';
 
 type Props = {
   rect: RectShape;
-  onPointerDown: (handle: RectHandle, event: React.PointerEvent) => void;
+  /** Resize handles are only drawn when this is given. */
+  onPointerDown?: (handle: RectHandle, event: React.PointerEvent) => void;
+  /** Adds a rotation knob above the top edge. */
+  onRotatePointerDown?: (event: React.PointerEvent) => void;
 };
 
 const positions: { handle: RectHandle; x: (r: RectShape) => number; y: (r: RectShape) => number }[] = [
@@ -17,23 +20,43 @@ const positions: { handle: RectHandle; x: (r: RectShape) => number; y: (r: RectS
   { handle: 'se', x: (r) => r.x + r.width, y: (r) => r.y + r.height },
 ];
 
-export default function TransformHandles({ rect, onPointerDown }: Props) {
+export default function TransformHandles({ rect, onPointerDown, onRotatePointerDown }: Props) {
+  const knob = { x: rect.x + rect.width / 2, y: rect.y - 0.6 };
   return (
     <>
-      {positions.map((pos) => (
-        <rect
-          key={pos.handle}
-          x={pos.x(rect) - 0.12}
-          y={pos.y(rect) - 0.12}
-          width={0.24}
-          height={0.24}
-          rx={0.04}
-          fill="#fff"
-          stroke="#2563eb"
-          strokeWidth={0.04}
-          onPointerDown={(e) => onPointerDown(pos.handle, e)}
-        />
-      ))}
+      {onRotatePointerDown && (
+        <>
+          <line x1={knob.x} y1={knob.y} x2={knob.x} y2={rect.y} stroke="#2563eb" strokeWidth={0.04} pointerEvents="none" />
+          <circle
+            cx={knob.x}
+            cy={knob.y}
+            r={0.14}
+            fill="#fff"
+            stroke="#2563eb"
+            strokeWidth={0.04}
+            style={{ cursor: 'grab' }}
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              onRotatePointerDown(e);
+            }}
+          />
+        </>
+      )}
+      {onPointerDown &&
+        positions.map((pos) => (
+          <rect
+            key={pos.handle}
+            x={pos.x(rect) - 0.12}
+            y={pos.y(rect) - 0.12}
+            width={0.24}
+            height={0.24}
+            rx={0.04}
+            fill="#fff"
+            stroke="#2563eb"
+            strokeWidth={0.04}
+            onPointerDown={(e) => onPointerDown(pos.handle, e)}
+          />
+        ))}
     </>
   );
 }
@@ -0,0 +1,75 @@
+import type React from 'react';
+import type { Units, Wall } from '../domain/types';
+import { metresToUnits } from '../domain/units';
+import { wallOutline, wallSolids } from '../domain/walls';
+
+type Props = {
+  walls: Wall[];
+  /** Plan units; outline and handle sizes are set in metres and converted. */
+  units: Units;
+  selectedIds: string[];
+  interactive: boolean;
+  onWallPointerDown: (event: React.PointerEvent, wall: Wall) => void;
+};
+
+const toPath = (rings: { x: number; y: number }[][]) =>
+  rings
+    .filter((ring) => ring.length)
+    .map((ring) => `M ${ring.map((p) => `${p.x} ${p.y}`).join(' L ')} Z`)
+    .join(' ');
+
+export default function WallLayer({ walls, units, selectedIds, interactive, onWallPointerDown }: Props) {
+  if (!walls.length) return null;
+  const m = metresToUnits(1, units);
+  const solids = wallSolids(walls);
+
+  return (
+    <g>
+      {/* One unioned fill so T-joins and crossings read as a single solid. */}
+      <g pointerEvents="none">
+        {solids.map((solid, idx) => (
+          <path
+            key={`wall-solid-${idx}`}
+            d={toPath([solid.outer, ...solid.holes])}
+            fillRule="evenodd"
+            fill="#334155"
+            stroke="#0f172a"
+            strokeWidth={0.02 * m}
+          />
+        ))}
+      </g>
+      {walls.map((wall) => {
+        const outline = wallOutline(wall, walls);
+        const selected = selectedIds.includes(wall.id);
+        return (
+          <g key={wall.id}>
+            <polygon
+              points={outline.map((p) => `${p.x},${p.y}`).join(' ')}
+              fill={selected ? 'rgba(59,130,246,0.45)' : 'transparent'}
+              stroke={selected ? '#2563eb' : 'none'}
+              strokeWidth={0.04 * m}
+              pointerEvents={interactive ? 'all' : 'none'}
+              style={{ cursor: interactive ? 'move' : undefined }}
+              onPointerDown={(e) => onWallPointerDown(e, wall)}
+            />
+            {selected && (
+              <g pointerEvents="none">
+                <line
+                  x1={wall.start.x}
+                  y1={wall.start.y}
+                  x2={wall.end.x}
+                  y2={wall.end.y}
+                  stroke="#bfdbfe"
+                  strokeWidth={0.03 * m}
+                  strokeDasharray={`${0.15 * m} ${0.1 * m}`}
+                />
+                <circle cx={wall.start.x} cy={wall.start.y} r={0.08 * m} fill="#2563eb" />
+                <circle cx={wall.end.x} cy={wall.end.y} r={0.08 * m} fill="#2563eb" />
+              </g>
+            )}
+          </g>
+        );
+      })}
+    </g>
+  );
+}
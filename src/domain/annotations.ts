@@ -0,0 +1,63 @@
+import type { Annotation, TextAlign, Units } from './types';
+import { METRES_PER_UNIT } from './units';
+
+type Point = { x: number; y: number };
+
+/** Default text height in metres, converted to plan units like fixture sizes. */
+const DEFAULT_FONT_SIZE_M = 0.3;
+
+export function defaultAnnotationFontSize(units: Units) {
+  return DEFAULT_FONT_SIZE_M / METRES_PER_UNIT[units];
+}
+
+export const TEXT_ANCHORS: Record<TextAlign, 'start' | 'middle' | 'end'> = {
+  left: 'start',
+  center: 'middle',
+  right: 'end',
+};
+
+/**
+ * Text box in the annotation's own frame: origin at the anchor, x along the unrotated
+ * baseline. Width uses the same 0.6em-per-character estimate as area labels.
+ */
+export function annotationBox(annotation: Annotation) {
+  const padding = annotation.fontSize * 0.2;
+  const width = annotation.text.length * annotation.fontSize * 0.6 + padding * 2;
+  const height = annotation.fontSize + padding * 2;
+  const shift = { left: -padding, center: -width / 2, right: padding - width }[annotation.align];
+  return { x: shift, y: -height / 2, width, height };
+}
+
+function rotate(point: Point, degrees: number): Point {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return { x: point.x * cos - point.y * sin, y: point.x * sin + point.y * cos };
+}
+
+/** Where the leader leaves the text box, on the side facing its first point. */
+export function leaderStart(annotation: Annotation): Point | null {
+  const first = annotation.leader?.[0];
+  if (!first) return null;
+  const box = annotationBox(annotation);
+  const centre = { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+  const local = rotate({ x: first.x - annotation.x, y: first.y - annotation.y }, -annotation.rotation);
+  const dir = { x: local.x - centre.x, y: local.y - centre.y };
+  const t = Math.min(
+    dir.x ? box.width / 2 / Math.abs(dir.x) : Infinity,
+    dir.y ? box.height / 2 / Math.abs(dir.y) : Infinity,
+  );
+  // A first point inside the box starts the leader at the point itself.
+  const edge = t >= 1 ? local : { x: centre.x + dir.x * t, y: centre.y + dir.y * t };
+  const world = rotate(edge, annotation.rotation);
+  return { x: annotation.x + world.x, y: annotation.y + world.y };
+}
+
+export function translateAnnotation(annotation: Annotation, dx: number, dy: number): Annotation {
+  return {
+    ...annotation,
+    x: annotation.x + dx,
+    y: annotation.y + dy,
+    ...(annotation.leader ? { leader: annotation.leader.map((p) => ({ x: p.x + dx, y: p.y + dy })) } : {}),
+  };
+}
@@ -0,0 +1,74 @@
+import type { AlignEdge, DistributeAxis, DistributeMode } from './types';
+
+type Box = { x: number; y: number; width: number; height: number };
+type Delta = { dx: number; dy: number };
+
+export const ALIGN_EDGES: { value: AlignEdge; label: string }[] = [
+  { value: 'left', label: 'Left' },
+  { value: 'center', label: 'Center' },
+  { value: 'right', label: 'Right' },
+  { value: 'top', label: 'Top' },
+  { value: 'middle', label: 'Middle' },
+  { value: 'bottom', label: 'Bottom' },
+];
+
+function union(boxes: Box[]): Box {
+  const minX = Math.min(...boxes.map((b) => b.x));
+  const minY = Math.min(...boxes.map((b) => b.y));
+  const maxX = Math.max(...boxes.map((b) => b.x + b.width));
+  const maxY = Math.max(...boxes.map((b) => b.y + b.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/** Moves that line every box up with the matching edge or centre line of their combined bounds. */
+export function alignDeltas(boxes: Box[], edge: AlignEdge): Delta[] {
+  const bounds = union(boxes);
+  return boxes.map((box) => {
+    switch (edge) {
+      case 'left':
+        return { dx: bounds.x - box.x, dy: 0 };
+      case 'right':
+        return { dx: bounds.x + bounds.width - (box.x + box.width), dy: 0 };
+      case 'center':
+        return { dx: bounds.x + bounds.width / 2 - (box.x + box.width / 2), dy: 0 };
+      case 'top':
+        return { dx: 0, dy: bounds.y - box.y };
+      case 'bottom':
+        return { dx: 0, dy: bounds.y + bounds.height - (box.y + box.height) };
+      default:
+        return { dx: 0, dy: bounds.y + bounds.height / 2 - (box.y + box.height / 2) };
+    }
+  });
+}
+
+/**
+ * Moves that spread the boxes along an axis, keeping the outermost two in place: either equal
+ * gaps between neighbouring boxes or equally spaced centres. Fewer than three boxes stay put.
+ */
+export function distributeDeltas(boxes: Box[], axis: DistributeAxis, mode: DistributeMode): Delta[] {
+  const deltas = boxes.map(() => ({ dx: 0, dy: 0 }));
+  if (boxes.length < 3) return deltas;
+  const start = (box: Box) => (axis === 'horizontal' ? box.x : box.y);
+  const size = (box: Box) => (axis === 'horizontal' ? box.width : box.height);
+  const center = (box: Box) => start(box) + size(box) / 2;
+  const key = mode === 'centers' ? center : start;
+  const order = [...boxes.keys()].sort((a, b) => key(boxes[a]) - key(boxes[b]));
+  const first = boxes[order[0]];
+  const last = boxes[order[order.length - 1]];
+  const setShift = (idx: number, shift: number) => {
+    deltas[idx] = axis === 'horizontal' ? { dx: shift, dy: 0 } : { dx: 0, dy: shift };
+  };
+  if (mode === 'centers') {
+    const step = (center(last) - center(first)) / (order.length - 1);
+    order.forEach((idx, rank) => setShift(idx, center(first) + step * rank - center(boxes[idx])));
+    return deltas;
+  }
+  const span = start(last) + size(last) - start(first);
+  const gap = (span - order.reduce((acc, idx) => acc + size(boxes[idx]), 0)) / (order.length - 1);
+  let cursor = start(first);
+  order.forEach((idx) => {
+    setShift(idx, cursor - start(boxes[idx]));
+    cursor += size(boxes[idx]) + gap;
+  });
+  return deltas;
+}
@@ -1,23 +1,75 @@
 import {
-  applyRectResize,
+  arrayOffsets,
+  clamp,
   constrainRectToBounds,
+  ellipsePoints,
   moveRect,
+  normalizeAngle,
   polygonArea,
-  polygonAreaWithHoles,
-  ellipseToRect,
+  rectCenter,
+  rectCorners,
+  resizeRotatedRect,
+  rotateShape,
+  scaleShape,
+  shapeArea,
   splitRectEvenly,
   translatePolygon,
+  translateShape,
   shapeBoundingBox,
+  shapesBoundingBox,
 } from './geometry';
-import { defaultAreaName, findArea, partitionNames } from './naming';
-import { addGroup, deleteGroup, toggleGroupVisibility } from './grouping';
-import type { Command, CommandPayloads, MirrorAxis, PartitionDirection, Plan, Selection, RectShape, EllipseShape } from './types';
+import { defaultAreaName, findArea, partitionNames, sequenceNames } from './naming';
+import {
+  addGroup,
+  canNestGroup,
+  deleteGroup,
+  setAreasGroup,
+  setGroupLocked,
+  setGroupName,
+  setGroupParent,
+  toggleGroupVisibility,
+} from './grouping';
+import { activeLevel, createLevel, findLevel, nextLevelElevation } from './levels';
+import { CURRENT_PLAN_VERSION } from './migrations';
+import { defaultFixtureSize, findFixtureSymbol } from './fixtures';
+import { areaEdges, DEFAULT_OPENING_WIDTH } from './openings';
+import { commandAreaIds, layerCommandAreaIds, lockingGroups, lockingLayer } from './locking';
+import { activeLayer, areasInLayerOrder, createLayer, findLayer, nextLayerName, reorderAreas, resolveLayerId } from './layers';
+import { findRoomType, hasGeneratedName, planRoomTypes, roomTypeAreaName } from './roomTypes';
+import { DEFAULT_WALL_THICKNESS, enclosedSpaces, pointsEqual, projectOntoWall, translateWalls } from './walls';
+import { convertPlanUnits, DEFAULT_AREA_STROKE_WIDTH } from './units';
+import { defaultAnnotationFontSize, translateAnnotation } from './annotations';
+import { syncDimensionAnchors } from './dimensions';
+import { alignDeltas, distributeDeltas } from './arrange';
+import { offsetPolygons } from './offset';
+import { formatLength } from './format';
+import type {
+  Annotation,
+  Area,
+  Command,
+  CommandPayloads,
+  DimensionAnchor,
+  DisplaySettings,
+  Level,
+  MirrorAxis,
+  MultiPolygonShape,
+  PartitionDirection,
+  Plan,
+  PolygonShape,
+  Selection,
+  RectShape,
+  EllipseShape,
+  ReorderDirection,
+  ScaleAnchor,
+} from './types';
 import polygonClipping from 'polygon-clipping';
 
 type CommandResult = {
   plan: Plan;
   selection?: Selection;
   description?: string;
+  /** Set when the command was refused; explains why, for display to the user. */
+  blocked?: string;
 };
 
 function now() {
@@ -32,6 +84,13 @@ function ensureUpdated(plan: Plan) {
   plan.meta.updatedAt = now();
 }
 
+// Openings are hosted by an area; once the area is gone they have nothing to attach to.
+function dropOrphanOpenings(level: Level) {
+  if (!level.openings) return;
+  const areaIds = new Set(level.areas.map((area) => area.id));
+  level.openings = level.openings.filter((opening) => areaIds.has(opening.areaId));
+}
+
 type Ring = [number, number][];
 type PolygonRings = Ring[];
 
@@ -53,25 +112,11 @@ function shapeToPolygons(
     | EllipseShape,
 ): PolygonRings[] {
   if (shape.type === 'rect') {
-    const { x, y, width, height } = shape;
-    const ring: Ring = [
-      [x, y],
-      [x + width, y],
-      [x + width, y + height],
-      [x, y + height],
-      [x, y],
-    ];
-    const polygon: PolygonRings = [ring];
+    const polygon: PolygonRings = [closeRing(rectCorners(shape))];
     return [polygon];
   }
   if (shape.type === 'ellipse') {
-    const segments = 48;
-    const points: { x: number; y: number }[] = [];
-    for (let i = 0; i < segments; i += 1) {
-      const angle = (i / segments) * Math.PI * 2;
-      points.push({ x: shape.cx + Math.cos(angle) * shape.rx, y: shape.cy + Math.sin(angle) * shape.ry });
-    }
-    const polygon: PolygonRings = [closeRing(points)];
+    const polygon: PolygonRings = [closeRing(ellipsePoints(shape))];
     return [polygon];
   }
   if (shape.type === 'polygon') {
@@ -86,6 +131,23 @@ function ringsToPoints(ring: Ring): { x: number; y: number }[] {
   return trimmed.map(([x, y]) => ({ x, y }));
 }
 
+/** Polygon or multipolygon (holes kept) for a polygon-clipping result; null when nothing is left. */
+function clipResultShape(result: PolygonRings[] | null | undefined): PolygonShape | MultiPolygonShape | null {
+  const polygons: { x: number; y: number }[][] = [];
+  const holes: { x: number; y: number }[][][] = [];
+  (result ?? []).forEach((poly: Ring[]) => {
+    const ring = poly?.[0];
+    if (ring && ring.length >= 3) {
+      polygons.push(ringsToPoints(ring));
+      holes.push(poly.slice(1).map((hole) => ringsToPoints(hole)));
+    }
+  });
+  if (!polygons.length) return null;
+  return polygons.length === 1
+    ? { type: 'polygon', points: polygons[0], holes: holes[0] }
+    : { type: 'multipolygon', polygons, holes };
+}
+
 function mirrorPoint(point: { x: number; y: number }, axis: MirrorAxis, center: { x: number; y: number }) {
   if (axis === 'vertical') {
     return { x: center.x * 2 - point.x, y: point.y };
@@ -93,19 +155,6 @@ function mirrorPoint(point: { x: number; y: number }, axis: MirrorAxis, center:
   return { x: point.x, y: center.y * 2 - point.y };
 }
 
-function shapeArea(shape: RectShape | { type: 'polygon'; points: { x: number; y: number }[]; holes?: { x: number; y: number }[][] } | { type: 'multipolygon'; polygons: { x: number; y: number }[][]; holes?: { x: number; y: number }[][][] } | EllipseShape) {
-  if (shape.type === 'rect') {
-    return Math.abs(shape.width * shape.height);
-  }
-  if (shape.type === 'ellipse') {
-    return Math.abs(Math.PI * shape.rx * shape.ry);
-  }
-  if (shape.type === 'polygon') {
-    return polygonAreaWithHoles(shape.points, shape.holes);
-  }
-  return shape.polygons.reduce((acc, poly, idx) => acc + polygonAreaWithHoles(poly, shape.holes?.[idx]), 0);
-}
-
 function updatePlanDimensions(plan: Plan, payload: CommandPayloads['plan/resize-boundary']): CommandResult {
   const next = clonePlan(plan);
   if (typeof payload.width === 'number') next.canvas.width = Math.max(payload.width, 0.5);
@@ -115,8 +164,9 @@ function updatePlanDimensions(plan: Plan, payload: CommandPayloads['plan/resize-
 }
 
 function createPlan(_: Plan, payload: CommandPayloads['plan/create']): CommandResult {
+  const level = createLevel('Level 1');
   const next: Plan = {
-    version: '1.0',
+    version: CURRENT_PLAN_VERSION,
     units: payload.units,
     canvas: {
       width: payload.width,
@@ -124,7 +174,8 @@ function createPlan(_: Plan, payload: CommandPayloads['plan/create']): CommandRe
       zoom: 1,
       pan: { x: 0, y: 0 },
     },
-    areas: [],
+    levels: [level],
+    activeLevelId: level.id,
     meta: {
       name: payload.name ?? 'New Plan',
       createdAt: now(),
@@ -142,12 +193,83 @@ function setViewport(plan: Plan, payload: CommandPayloads['plan/set-viewport']):
   return { plan: next, description: 'Viewport change' };
 }
 
+function setUnits(plan: Plan, payload: CommandPayloads['plan/set-units']): CommandResult {
+  if (payload.units === plan.units) return { plan };
+  const next = clonePlan(plan);
+  convertPlanUnits(next, payload.units);
+  ensureUpdated(next);
+  return { plan: next, description: `Change units to ${payload.units}` };
+}
+
+const MAX_DISPLAY_DECIMALS = 6;
+
+function setDisplay(plan: Plan, payload: CommandPayloads['plan/set-display']): CommandResult {
+  const next = clonePlan(plan);
+  const display = { ...next.display, ...payload.display };
+  (['lengthDecimals', 'areaDecimals'] as const).forEach((key) => {
+    const value = display[key];
+    if (value !== undefined) display[key] = clamp(Math.round(value), 0, MAX_DISPLAY_DECIMALS);
+  });
+  (Object.keys(display) as (keyof DisplaySettings)[]).forEach((key) => {
+    if (display[key] === undefined) delete display[key];
+  });
+  if (JSON.stringify(display) === JSON.stringify(plan.display ?? {})) return { plan };
+  next.display = display;
+  ensureUpdated(next);
+  return { plan: next, description: 'Change display settings' };
+}
+
+function addLevel(plan: Plan, payload: CommandPayloads['level/create']): CommandResult {
+  const next = clonePlan(plan);
+  const level = createLevel(payload.name ?? `Level ${next.levels.length + 1}`, payload.elevation ?? nextLevelElevation(next));
+  next.levels.push(level);
+  next.activeLevelId = level.id;
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: [] }, description: 'Add level' };
+}
+
+function removeLevel(plan: Plan, payload: CommandPayloads['level/delete']): CommandResult {
+  if (plan.levels.length <= 1 || !findLevel(plan, payload.id)) return { plan };
+  const next = clonePlan(plan);
+  next.levels = next.levels.filter((level) => level.id !== payload.id);
+  if (next.activeLevelId === payload.id) next.activeLevelId = next.levels[0].id;
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: [] }, description: 'Delete level' };
+}
+
+function renameLevel(plan: Plan, payload: CommandPayloads['level/rename']): CommandResult {
+  const next = clonePlan(plan);
+  const level = findLevel(next, payload.id);
+  if (!level) return { plan };
+  level.name = payload.name;
+  ensureUpdated(next);
+  return { plan: next, description: 'Rename level' };
+}
+
+function setLevelElevation(plan: Plan, payload: CommandPayloads['level/set-elevation']): CommandResult {
+  if (!Number.isFinite(payload.elevation)) return { plan };
+  const next = clonePlan(plan);
+  const level = findLevel(next, payload.id);
+  if (!level) return { plan };
+  level.elevation = payload.elevation;
+  ensureUpdated(next);
+  return { plan: next, description: 'Set level elevation' };
+}
+
+function setActiveLevel(plan: Plan, payload: CommandPayloads['level/set-active']): CommandResult {
+  if (!findLevel(plan, payload.id)) return { plan };
+  const next = clonePlan(plan);
+  next.activeLevelId = payload.id;
+  return { plan: next, selection: { areaIds: [] }, description: 'Switch level' };
+}
+
 function createAreasFromRect(
   plan: Plan,
   payload: CommandPayloads['area/create'],
   baseName: string,
 ): { plan: Plan; selection?: Selection; description?: string } {
   const next = clonePlan(plan);
+  const level = activeLevel(next);
   const partitions = Math.max(1, payload.partitions ?? 1);
   const direction: PartitionDirection =
     payload.direction ?? (payload.rect.width >= payload.rect.height ? 'vertical' : 'horizontal');
@@ -158,13 +280,14 @@ function createAreasFromRect(
   rects.forEach((rect, idx) => {
     const id = crypto.randomUUID();
     createdIds.push(id);
-    next.areas.push({
+    level.areas.push({
       id,
       name: names[idx] ?? `${baseName} ${idx + 1}`,
       fill: payload.fill ?? '#bfdbfe',
       stroke: payload.stroke ?? '#1d4ed8',
-      strokeWidth: 0.04,
+      strokeWidth: DEFAULT_AREA_STROKE_WIDTH[next.units],
       shape: rect,
+      layerId: activeLayer(level).id,
       parentId: payload.parentId,
     });
   });
@@ -180,14 +303,16 @@ function createArea(plan: Plan, payload: CommandPayloads['area/create']): Comman
 function createPolygon(plan: Plan, payload: CommandPayloads['area/create-polygon']): CommandResult {
   if (payload.points.length < 3) return { plan };
   const next = clonePlan(plan);
+  const level = activeLevel(next);
   const id = crypto.randomUUID();
-  next.areas.push({
+  level.areas.push({
     id,
     name: payload.name ?? defaultAreaName(plan),
     fill: payload.fill ?? '#d8b4fe',
     stroke: payload.stroke ?? '#6b21a8',
-    strokeWidth: 0.04,
+    strokeWidth: DEFAULT_AREA_STROKE_WIDTH[next.units],
     shape: { type: 'polygon', points: payload.points },
+    layerId: activeLayer(level).id,
   });
   ensureUpdated(next);
   return { plan: next, selection: { areaIds: [id] }, description: 'Create polygon' };
@@ -195,60 +320,69 @@ function createPolygon(plan: Plan, payload: CommandPayloads['area/create-polygon
 
 function createEllipse(plan: Plan, payload: CommandPayloads['area/create-ellipse']): CommandResult {
   const next = clonePlan(plan);
+  const level = activeLevel(next);
   const id = crypto.randomUUID();
-  next.areas.push({
+  level.areas.push({
     id,
     name: payload.name ?? defaultAreaName(plan),
     fill: payload.fill ?? '#fecaca',
     stroke: payload.stroke ?? '#dc2626',
-    strokeWidth: 0.04,
+    strokeWidth: DEFAULT_AREA_STROKE_WIDTH[next.units],
     shape: { type: 'ellipse', cx: payload.cx, cy: payload.cy, rx: payload.rx, ry: payload.ry },
+    layerId: activeLayer(level).id,
   });
   ensureUpdated(next);
   return { plan: next, selection: { areaIds: [id] }, description: 'Create ellipse' };
 }
 
+/** Adds a copy of `area` shifted by `dx`/`dy` to the level; returns its id, or null for degenerate shapes. */
+function pasteArea(next: Plan, level: Level, area: Area, dx: number, dy: number, name: string): string | null {
+  let shape = area.shape;
+
+  if (shape.type === 'rect') {
+    const rect = constrainRectToBounds({ ...shape, x: shape.x + dx, y: shape.y + dy }, next.canvas);
+    shape = rect;
+  } else if (shape.type === 'ellipse') {
+    shape = { ...shape, cx: shape.cx + dx, cy: shape.cy + dy };
+  } else if (shape.type === 'polygon') {
+    const points = shape.points.map((p) => ({ x: p.x + dx, y: p.y + dy }));
+    if (points.length < 3) return null;
+    const holes = shape.holes?.map((hole) => hole.map((p) => ({ x: p.x + dx, y: p.y + dy })));
+    shape = { type: 'polygon', points, holes };
+  } else {
+    const polygons = shape.polygons.map((poly) => poly.map((p) => ({ x: p.x + dx, y: p.y + dy })));
+    const holes = shape.holes?.map((holeList) => holeList.map((hole) => hole.map((p) => ({ x: p.x + dx, y: p.y + dy }))));
+    if (!polygons.length || polygons.some((poly) => poly.length < 3)) return null;
+    shape = { type: 'multipolygon', polygons, holes };
+  }
+
+  const id = crypto.randomUUID();
+  level.areas.push({
+    id,
+    name,
+    fill: area.fill,
+    stroke: area.stroke,
+    strokeWidth: area.strokeWidth,
+    shape,
+    layerId: resolveLayerId(level, area.layerId),
+    labelOffset: area.labelOffset,
+    edgeLabelOffsets: area.edgeLabelOffsets,
+    radiusLabelOffset: area.radiusLabelOffset,
+    properties: area.properties,
+    roomType: area.roomType,
+  });
+  return id;
+}
+
 function pasteAreas(plan: Plan, payload: CommandPayloads['area/paste']): CommandResult {
   const next = clonePlan(plan);
+  const level = activeLevel(next);
   const createdIds: string[] = [];
 
   payload.areas.forEach((area) => {
-    let shape = area.shape;
-
-    if (shape.type === 'rect') {
-      const rect = constrainRectToBounds(
-        { ...shape, x: shape.x + payload.dx, y: shape.y + payload.dy },
-        next.canvas,
-      );
-      shape = rect;
-    } else if (shape.type === 'ellipse') {
-      shape = { ...shape, cx: shape.cx + payload.dx, cy: shape.cy + payload.dy };
-    } else if (shape.type === 'polygon') {
-      const points = shape.points.map((p) => ({ x: p.x + payload.dx, y: p.y + payload.dy }));
-      if (points.length < 3) return;
-      const holes = shape.holes?.map((hole) => hole.map((p) => ({ x: p.x + payload.dx, y: p.y + payload.dy })));
-      shape = { type: 'polygon', points, holes };
-    } else {
-      const polygons = shape.polygons.map((poly) => poly.map((p) => ({ x: p.x + payload.dx, y: p.y + payload.dy })));
-      const holes = shape.holes?.map((holeList) => holeList.map((hole) => hole.map((p) => ({ x: p.x + payload.dx, y: p.y + payload.dy }))));
-      if (!polygons.length || polygons.some((poly) => poly.length < 3)) return;
-      shape = { type: 'multipolygon', polygons, holes };
-    }
-
-    const id = crypto.randomUUID();
     const name = payload.nameSuffix ? `${area.name} ${payload.nameSuffix}` : area.name;
-    next.areas.push({
-      id,
-      name,
-      fill: area.fill,
-      stroke: area.stroke,
-      strokeWidth: area.strokeWidth,
-      shape,
-      labelOffset: area.labelOffset,
-      edgeLabelOffsets: area.edgeLabelOffsets,
-      radiusLabelOffset: area.radiusLabelOffset,
-    });
-    createdIds.push(id);
+    const id = pasteArea(next, level, area, payload.dx, payload.dy, name);
+    if (id) createdIds.push(id);
   });
 
   if (!createdIds.length) return { plan };
@@ -256,6 +390,34 @@ function pasteAreas(plan: Plan, payload: CommandPayloads['area/paste']): Command
   return { plan: next, selection: { areaIds: createdIds }, description: 'Paste areas' };
 }
 
+function arrayAreas(plan: Plan, payload: CommandPayloads['area/array']): CommandResult {
+  const { layout } = payload;
+  const counts = layout.kind === 'linear' ? [layout.count] : [layout.rows, layout.columns];
+  const lengths = layout.kind === 'linear' ? [layout.dx, layout.dy] : [layout.gapX, layout.gapY];
+  if (!counts.every((n) => Number.isInteger(n) && n >= 1) || !lengths.every(Number.isFinite)) return { plan };
+  const next = clonePlan(plan);
+  const level = activeLevel(next);
+  const sources = level.areas.filter((area) => payload.ids.includes(area.id));
+  if (!sources.length) return { plan };
+  const offsets = arrayOffsets(layout, shapesBoundingBox(sources.map((area) => area.shape)), next.canvas);
+  if (!offsets.length) return { plan };
+  const names = sequenceNames(
+    sources.map((area) => area.name),
+    offsets.length,
+    level.areas.map((area) => area.name),
+  );
+  const createdIds: string[] = [];
+  offsets.forEach(({ dx, dy }, copy) => {
+    sources.forEach((area, idx) => {
+      const id = pasteArea(next, level, area, dx, dy, names[copy][idx]);
+      if (id) createdIds.push(id);
+    });
+  });
+  if (!createdIds.length) return { plan };
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: createdIds }, description: `Array ${offsets.length} copies` };
+}
+
 function moveArea(plan: Plan, payload: CommandPayloads['area/move']): CommandResult {
   const target = findArea(plan, payload.id);
   if (!target || target.shape.type !== 'rect') return { plan };
@@ -296,7 +458,7 @@ function resizeArea(plan: Plan, payload: CommandPayloads['area/resize']): Comman
   const next = clonePlan(plan);
   const area = findArea(next, payload.id);
   if (!area || area.shape.type !== 'rect') return { plan };
-  area.shape = applyRectResize(area.shape, payload.handle, { dx: payload.dx, dy: payload.dy }, next.canvas);
+  area.shape = resizeRotatedRect(area.shape, payload.handle, { dx: payload.dx, dy: payload.dy }, next.canvas);
   ensureUpdated(next);
   return { plan: next, selection: { areaIds: [payload.id] }, description: 'Resize area' };
 }
@@ -398,19 +560,124 @@ function mirrorArea(plan: Plan, payload: CommandPayloads['area/mirror']): Comman
       polygons: area.shape.polygons.map((poly) => poly.map((p) => mirrorPoint(p, payload.axis, center))),
       holes: area.shape.holes?.map((holeList) => holeList.map((hole) => hole.map((p) => mirrorPoint(p, payload.axis, center)))),
     };
-  } else if (area.shape.type === 'rect') {
-    // Mirroring a rectangle around its own bounds yields the same shape.
-    area.shape = { ...area.shape };
-  } else if (area.shape.type === 'ellipse') {
-    area.shape = { ...area.shape };
+  } else {
+    // Rects and ellipses mirror onto themselves; only their rotation flips.
+    area.shape = { ...area.shape, rotation: normalizeAngle(-(area.shape.rotation ?? 0)) || undefined };
   }
   ensureUpdated(next);
   return { plan: next, selection: { areaIds: [payload.id] }, description: 'Mirror area' };
 }
 
+function rotateAreas(plan: Plan, payload: CommandPayloads['area/rotate']): CommandResult {
+  if (!Number.isFinite(payload.angle) || !normalizeAngle(payload.angle)) return { plan };
+  const next = clonePlan(plan);
+  const areas = payload.ids
+    .map((id) => findArea(next, id))
+    .filter((a): a is NonNullable<typeof a> => Boolean(a));
+  if (!areas.length) return { plan };
+  const bounds = shapesBoundingBox(areas.map((area) => area.shape));
+  const center = payload.center ?? { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+  areas.forEach((area) => {
+    area.shape = rotateShape(area.shape, center, payload.angle);
+  });
+  ensureUpdated(next);
+  return {
+    plan: next,
+    selection: { areaIds: areas.map((area) => area.id) },
+    description: areas.length > 1 ? 'Rotate areas' : 'Rotate area',
+  };
+}
+
+function scaleOrigin(bounds: { x: number; y: number; width: number; height: number }, anchor: ScaleAnchor) {
+  if (typeof anchor !== 'string') return anchor;
+  if (anchor === 'center') return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+  return {
+    x: anchor.includes('e') ? bounds.x + bounds.width : bounds.x,
+    y: anchor.includes('s') ? bounds.y + bounds.height : bounds.y,
+  };
+}
+
+function scaleAreas(plan: Plan, payload: CommandPayloads['area/scale']): CommandResult {
+  const factor = typeof payload.factor === 'number' ? { x: payload.factor, y: payload.factor } : payload.factor;
+  if (![factor.x, factor.y].every((f) => Number.isFinite(f) && f > 0)) return { plan };
+  if (factor.x === 1 && factor.y === 1) return { plan };
+  const next = clonePlan(plan);
+  const level = activeLevel(next);
+  const areas = payload.ids
+    .map((id) => findArea(next, id))
+    .filter((a): a is NonNullable<typeof a> => Boolean(a));
+  if (!areas.length) return { plan };
+  const origin = scaleOrigin(shapesBoundingBox(areas.map((area) => area.shape)), payload.anchor ?? 'center');
+  const scaleOffset = (offset: { x: number; y: number }) => ({ x: offset.x * factor.x, y: offset.y * factor.y });
+  areas.forEach((area) => {
+    const edgesBefore = areaEdges(area);
+    area.shape = scaleShape(area.shape, origin, factor.x, factor.y);
+    if (area.labelOffset) area.labelOffset = scaleOffset(area.labelOffset);
+    if (area.radiusLabelOffset) area.radiusLabelOffset = scaleOffset(area.radiusLabelOffset);
+    if (area.edgeLabelOffsets) {
+      area.edgeLabelOffsets = Object.fromEntries(
+        Object.entries(area.edgeLabelOffsets).map(([key, offset]) => [key, scaleOffset(offset)]),
+      );
+    }
+    // Openings keep their relative position along the stretched edge.
+    const edgesAfter = areaEdges(area);
+    (level.openings ?? []).forEach((opening) => {
+      if (opening.areaId !== area.id) return;
+      const before = edgesBefore.find((edge) => edge.key === opening.edgeKey);
+      const after = edgesAfter.find((edge) => edge.key === opening.edgeKey);
+      if (!before || !after) return;
+      const ratio = Math.hypot(after.b.x - after.a.x, after.b.y - after.a.y) / Math.hypot(before.b.x - before.a.x, before.b.y - before.a.y);
+      if (Number.isFinite(ratio)) opening.offset *= ratio;
+    });
+  });
+  ensureUpdated(next);
+  return {
+    plan: next,
+    selection: { areaIds: areas.map((area) => area.id) },
+    description: areas.length > 1 ? 'Scale areas' : 'Scale area',
+  };
+}
+
+/** Shifts each area by the delta computed from the areas' bounding boxes, in one step. */
+function arrangeAreas(
+  plan: Plan,
+  ids: string[],
+  deltas: (boxes: ReturnType<typeof shapeBoundingBox>[]) => { dx: number; dy: number }[],
+  description: string,
+): CommandResult {
+  const next = clonePlan(plan);
+  const areas = ids
+    .map((id) => findArea(next, id))
+    .filter((a): a is NonNullable<typeof a> => Boolean(a));
+  if (areas.length < 2) return { plan };
+  const shifts = deltas(areas.map((area) => shapeBoundingBox(area.shape)));
+  if (shifts.every((delta) => Math.abs(delta.dx) < 1e-9 && Math.abs(delta.dy) < 1e-9)) return { plan };
+  areas.forEach((area, idx) => {
+    area.shape = translateShape(area.shape, shifts[idx]);
+  });
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: areas.map((area) => area.id) }, description };
+}
+
+function alignAreas(plan: Plan, payload: CommandPayloads['area/align']): CommandResult {
+  return arrangeAreas(plan, payload.ids, (boxes) => alignDeltas(boxes, payload.edge), 'Align areas');
+}
+
+function distributeAreas(plan: Plan, payload: CommandPayloads['area/distribute']): CommandResult {
+  if (payload.ids.length < 3) return { plan };
+  return arrangeAreas(
+    plan,
+    payload.ids,
+    (boxes) => distributeDeltas(boxes, payload.axis, payload.mode),
+    'Distribute areas',
+  );
+}
+
 function deleteArea(plan: Plan, payload: CommandPayloads['area/delete']): CommandResult {
   const next = clonePlan(plan);
-  next.areas = next.areas.filter((a) => a.id !== payload.id);
+  const level = activeLevel(next);
+  level.areas = level.areas.filter((a) => a.id !== payload.id);
+  dropOrphanOpenings(level);
   ensureUpdated(next);
   return { plan: next, selection: { areaIds: [] }, description: 'Delete area' };
 }
@@ -418,6 +685,7 @@ function deleteArea(plan: Plan, payload: CommandPayloads['area/delete']): Comman
 function subtractAreas(plan: Plan, payload: CommandPayloads['area/subtract']): CommandResult {
   if (payload.ids.length < 2) return { plan };
   const next = clonePlan(plan);
+  const level = activeLevel(next);
   const targets = payload.ids
     .map((id) => findArea(next, id))
     .filter((a): a is NonNullable<typeof a> => Boolean(a));
@@ -427,27 +695,18 @@ function subtractAreas(plan: Plan, payload: CommandPayloads['area/subtract']): C
   const subject = shapeToPolygons(base.shape);
   const clips = cutters.flatMap((area) => shapeToPolygons(area.shape));
   const diff = polygonClipping.difference(subject, ...clips);
-  const polygons: { x: number; y: number }[][] = [];
-  const holes: { x: number; y: number }[][][] = [];
-  (diff ?? []).forEach((poly: Ring[]) => {
-    const ring = poly?.[0];
-    if (ring && ring.length >= 3) {
-      polygons.push(ringsToPoints(ring));
-      holes.push(poly.slice(1).map((hole) => ringsToPoints(hole)));
-    }
-  });
-  if (!polygons.length) {
-    next.areas = next.areas.filter((a) => !payload.ids.includes(a.id));
+  const shape = clipResultShape(diff);
+  if (!shape) {
+    level.areas = level.areas.filter((a) => !payload.ids.includes(a.id));
+    dropOrphanOpenings(level);
     ensureUpdated(next);
     return { plan: next, selection: { areaIds: [] }, description: 'Subtract areas' };
   }
-  next.areas = next.areas.filter((a) => a.id === base.id || !payload.ids.includes(a.id));
+  level.areas = level.areas.filter((a) => a.id === base.id || !payload.ids.includes(a.id));
+  dropOrphanOpenings(level);
   const baseArea = findArea(next, base.id);
   if (!baseArea) return { plan };
-  baseArea.shape =
-    polygons.length === 1
-      ? { type: 'polygon', points: polygons[0], holes: holes[0] }
-      : { type: 'multipolygon', polygons, holes };
+  baseArea.shape = shape;
   ensureUpdated(next);
   return { plan: next, selection: { areaIds: [base.id] }, description: 'Subtract areas' };
 }
@@ -455,42 +714,166 @@ function subtractAreas(plan: Plan, payload: CommandPayloads['area/subtract']): C
 function mergeAreas(plan: Plan, payload: CommandPayloads['area/merge']): CommandResult {
   if (payload.ids.length < 2) return { plan };
   const next = clonePlan(plan);
+  const level = activeLevel(next);
   const targets = payload.ids
     .map((id) => findArea(next, id))
     .filter((a): a is NonNullable<typeof a> => Boolean(a));
   if (targets.length < 2) return { plan };
   const polygonInputs = targets.flatMap((area) => shapeToPolygons(area.shape));
-  const merged = polygonClipping.union(...polygonInputs);
-  const polygons: { x: number; y: number }[][] = [];
-  const holes: { x: number; y: number }[][][] = [];
-  (merged ?? []).forEach((poly: Ring[]) => {
-    const ring = poly?.[0];
-    if (ring && ring.length >= 3) {
-      polygons.push(ringsToPoints(ring));
-      holes.push(poly.slice(1).map((hole) => ringsToPoints(hole)));
-    }
-  });
-  if (!polygons.length) return { plan };
-  next.areas = next.areas.filter((a) => !payload.ids.includes(a.id));
+  const shape = clipResultShape(polygonClipping.union(...polygonInputs));
+  if (!shape) return { plan };
+  level.areas = level.areas.filter((a) => !payload.ids.includes(a.id));
+  dropOrphanOpenings(level);
   const mergedId = crypto.randomUUID();
-  next.areas.push({
+  level.areas.push({
     id: mergedId,
     name: payload.name ?? 'Area',
     fill: payload.fill ?? targets[0].fill,
     stroke: payload.stroke ?? targets[0].stroke,
     strokeWidth: targets[0].strokeWidth,
-    shape:
-      polygons.length === 1
-        ? { type: 'polygon', points: polygons[0], holes: holes[0] }
-        : { type: 'multipolygon', polygons, holes },
+    shape,
+    layerId: targets[0].layerId,
   });
   ensureUpdated(next);
   return { plan: next, selection: { areaIds: [mergedId] }, description: 'Merge areas' };
 }
 
+/** Name for the result of combining areas, e.g. "Kitchen ∩ Dining"; long selections get a count instead. */
+function combinedName(targets: Area[], symbol: string, fallback: string) {
+  return targets.length <= 3 ? targets.map((area) => area.name).join(` ${symbol} `) : `${fallback} (${targets.length} areas)`;
+}
+
+/**
+ * Replaces the areas with the region they all cover. The result takes the style and layer of the
+ * topmost source in drawing order (layers first), since that is the one drawn over the overlap.
+ */
+function intersectAreas(plan: Plan, payload: CommandPayloads['area/intersect']): CommandResult {
+  if (payload.ids.length < 2) return { plan };
+  const next = clonePlan(plan);
+  const level = activeLevel(next);
+  const targets = level.areas.filter((area) => payload.ids.includes(area.id));
+  if (targets.length < 2) return { plan };
+  const [first, ...rest] = targets.map((area) => shapeToPolygons(area.shape));
+  const shape = clipResultShape(polygonClipping.intersection(first, ...rest));
+  if (!shape) return { plan, blocked: 'The selected areas do not all overlap.' };
+  const top = areasInLayerOrder(level, targets).at(-1) ?? targets[0];
+  level.areas = level.areas.filter((a) => !payload.ids.includes(a.id));
+  dropOrphanOpenings(level);
+  const id = crypto.randomUUID();
+  level.areas.push({
+    id,
+    name: payload.name ?? combinedName(targets, '∩', 'Intersection'),
+    fill: payload.fill ?? top.fill,
+    stroke: payload.stroke ?? top.stroke,
+    strokeWidth: top.strokeWidth,
+    shape,
+    layerId: top.layerId,
+  });
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: [id] }, description: 'Intersect areas' };
+}
+
+/**
+ * Replaces the areas with the parts covered by an odd number of them, so overlaps between two areas
+ * drop out. The result is styled like the bottom source in drawing order.
+ */
+function excludeAreas(plan: Plan, payload: CommandPayloads['area/exclude']): CommandResult {
+  if (payload.ids.length < 2) return { plan };
+  const next = clonePlan(plan);
+  const level = activeLevel(next);
+  const targets = level.areas.filter((area) => payload.ids.includes(area.id));
+  if (targets.length < 2) return { plan };
+  const [first, ...rest] = targets.map((area) => shapeToPolygons(area.shape));
+  const shape = clipResultShape(polygonClipping.xor(first, ...rest));
+  if (!shape) return { plan, blocked: 'The selected areas cancel each other out completely.' };
+  const base = areasInLayerOrder(level, targets)[0];
+  level.areas = level.areas.filter((a) => !payload.ids.includes(a.id));
+  dropOrphanOpenings(level);
+  const id = crypto.randomUUID();
+  level.areas.push({
+    id,
+    name: payload.name ?? combinedName(targets, '△', 'Exclusion'),
+    fill: payload.fill ?? base.fill,
+    stroke: payload.stroke ?? base.stroke,
+    strokeWidth: base.strokeWidth,
+    shape,
+    layerId: base.layerId,
+  });
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: [id] }, description: 'Exclude areas' };
+}
+
+/**
+ * Grows or shrinks each area's outline by the distance. An area whose outline cannot be clipped
+ * blocks the whole command. Grown copies go beneath their source so it stays visible; other
+ * copies go above.
+ */
+function offsetAreas(plan: Plan, payload: CommandPayloads['area/offset']): CommandResult {
+  const { distance, join, output } = payload;
+  if (!Number.isFinite(distance) || !distance) return { plan };
+  const next = clonePlan(plan);
+  const level = activeLevel(next);
+  const targets = payload.ids
+    .map((id) => findArea(next, id))
+    .filter((a): a is NonNullable<typeof a> => Boolean(a));
+  if (!targets.length) return { plan };
+  const resultIds: string[] = [];
+  let failed: string | undefined;
+  targets.forEach((area) => {
+    if (failed) return;
+    const subject = shapeToPolygons(area.shape);
+    let result: PolygonRings[];
+    try {
+      const outline = offsetPolygons(subject, distance, join);
+      result =
+        output !== 'band'
+          ? outline
+          : distance > 0
+            ? polygonClipping.difference(outline, subject)
+            : polygonClipping.difference(subject, outline);
+    } catch {
+      failed = area.name;
+      return;
+    }
+    const shape = clipResultShape(result);
+    if (!shape) return;
+    if (output === 'replace') {
+      area.shape = shape;
+      // The old outline's edges are gone, so edge labels and openings placed on them go too.
+      delete area.edgeLabelOffsets;
+      if (level.openings) level.openings = level.openings.filter((opening) => opening.areaId !== area.id);
+      resultIds.push(area.id);
+      return;
+    }
+    const id = crypto.randomUUID();
+    const index = level.areas.indexOf(area);
+    level.areas.splice(output === 'new' && distance > 0 ? index : index + 1, 0, {
+      id,
+      name: `${area.name} ${output === 'band' ? 'band' : 'offset'}`,
+      fill: area.fill,
+      stroke: area.stroke,
+      strokeWidth: area.strokeWidth,
+      shape,
+      layerId: resolveLayerId(level, area.layerId),
+    });
+    resultIds.push(id);
+  });
+  if (failed) return { plan, blocked: `Could not offset "${failed}"; try a different distance or corner style.` };
+  if (!resultIds.length) {
+    return { plan, blocked: `Insetting by ${formatLength(-distance, plan)} leaves nothing of the selected area.` };
+  }
+  ensureUpdated(next);
+  return {
+    plan: next,
+    selection: { areaIds: resultIds },
+    description: targets.length > 1 ? 'Offset areas' : 'Offset area',
+  };
+}
+
 function convertToPolygon(plan: Plan, payload: CommandPayloads['area/convert-to-polygon']): CommandResult {
   if (payload.ids.length < 1) return { plan };
   const next = clonePlan(plan);
+  const level = activeLevel(next);
   const targets = payload.ids
     .map((id) => findArea(next, id))
     .filter((a): a is NonNullable<typeof a> => Boolean(a));
@@ -498,22 +881,9 @@ function convertToPolygon(plan: Plan, payload: CommandPayloads['area/convert-to-
   const polygons: { x: number; y: number }[][] = [];
   targets.forEach((a) => {
     if (a.shape.type === 'rect') {
-      const { x, y, width, height } = a.shape;
-      polygons.push([
-        { x, y },
-        { x: x + width, y },
-        { x: x + width, y: y + height },
-        { x, y: y + height },
-      ]);
+      polygons.push(rectCorners(a.shape));
     } else if (a.shape.type === 'ellipse') {
-      const rect = ellipseToRect(a.shape);
-      const segments = 48;
-      const points: { x: number; y: number }[] = [];
-      for (let i = 0; i < segments; i += 1) {
-        const angle = (i / segments) * Math.PI * 2;
-        points.push({ x: rect.x + rect.width / 2 + Math.cos(angle) * rect.width / 2, y: rect.y + rect.height / 2 + Math.sin(angle) * rect.height / 2 });
-      }
-      polygons.push(points);
+      polygons.push(ellipsePoints(a.shape));
     } else if (a.shape.type === 'polygon') {
       polygons.push(a.shape.points);
     } else {
@@ -521,15 +891,17 @@ function convertToPolygon(plan: Plan, payload: CommandPayloads['area/convert-to-
     }
   });
   if (!polygons.length) return { plan };
-  next.areas = next.areas.filter((a) => !payload.ids.includes(a.id));
+  level.areas = level.areas.filter((a) => !payload.ids.includes(a.id));
+  dropOrphanOpenings(level);
   const id = crypto.randomUUID();
-  next.areas.push({
+  level.areas.push({
     id,
     name: payload.name ?? `Polygon ${targets.length}`,
     fill: payload.fill ?? targets[0].fill,
     stroke: payload.stroke ?? targets[0].stroke,
     strokeWidth: targets[0].strokeWidth,
     shape: polygons.length === 1 ? { type: 'polygon', points: polygons[0] } : { type: 'multipolygon', polygons },
+    layerId: targets[0].layerId,
   });
   ensureUpdated(next);
   return { plan: next, selection: { areaIds: [id] }, description: 'Convert to polygon' };
@@ -553,32 +925,105 @@ function setGroupVisibility(plan: Plan, payload: CommandPayloads['group/visibili
   return { plan: next, description: 'Toggle group visibility' };
 }
 
+function lockGroup(plan: Plan, payload: CommandPayloads['group/lock']): CommandResult {
+  if (!(activeLevel(plan).areaGroups ?? []).some((group) => group.id === payload.id)) return { plan };
+  const next = setGroupLocked(plan, payload.id, payload.locked);
+  ensureUpdated(next);
+  return { plan: next, description: payload.locked ? 'Lock group' : 'Unlock group' };
+}
+
+function renameGroup(plan: Plan, payload: CommandPayloads['group/rename']): CommandResult {
+  const name = payload.name.trim();
+  if (!name || !(activeLevel(plan).areaGroups ?? []).some((group) => group.id === payload.id)) return { plan };
+  const next = setGroupName(plan, payload.id, name);
+  ensureUpdated(next);
+  return { plan: next, description: 'Rename group' };
+}
+
+function nestGroup(plan: Plan, payload: CommandPayloads['group/set-parent']): CommandResult {
+  const level = activeLevel(plan);
+  const group = (level.areaGroups ?? []).find((g) => g.id === payload.id);
+  if (!group || (group.parentId ?? null) === payload.parentId || !canNestGroup(level, payload.id, payload.parentId)) {
+    return { plan };
+  }
+  const next = setGroupParent(plan, payload.id, payload.parentId);
+  ensureUpdated(next);
+  return { plan: next, description: 'Move group' };
+}
+
+function moveAreasToGroup(plan: Plan, payload: CommandPayloads['area/set-group']): CommandResult {
+  const level = activeLevel(plan);
+  if (payload.groupId && !(level.areaGroups ?? []).some((group) => group.id === payload.groupId)) return { plan };
+  const current = (id: string) => (level.areaGroups ?? []).find((group) => group.areaIds.includes(id))?.id ?? null;
+  const ids = payload.ids.filter((id) => level.areas.some((area) => area.id === id) && current(id) !== payload.groupId);
+  if (!ids.length) return { plan };
+  const next = setAreasGroup(plan, ids, payload.groupId);
+  ensureUpdated(next);
+  return { plan: next, description: payload.groupId ? 'Move to group' : 'Ungroup areas' };
+}
+
+/** Reparents an area in the lineage tree; it also joins the new parent's group. */
+function setAreaParent(plan: Plan, payload: CommandPayloads['area/set-parent']): CommandResult {
+  const { id, parentId } = payload;
+  const level = activeLevel(plan);
+  const area = level.areas.find((a) => a.id === id);
+  if (!area || (area.parentId ?? null) === parentId) return { plan };
+  // Refuse cycles: the new parent may not descend from the area.
+  const seen = new Set<string>();
+  let cursor = parentId ?? undefined;
+  while (cursor && cursor !== id && !seen.has(cursor)) {
+    seen.add(cursor);
+    const ancestorId: string = cursor;
+    cursor = level.areas.find((a) => a.id === ancestorId)?.parentId;
+  }
+  if (cursor === id) return { plan };
+  let next = clonePlan(plan);
+  const target = findArea(next, id);
+  if (!target) return { plan };
+  if (parentId) target.parentId = parentId;
+  else delete target.parentId;
+  const parentGroup = parentId ? (level.areaGroups ?? []).find((group) => group.areaIds.includes(parentId)) : undefined;
+  if (parentGroup && !parentGroup.areaIds.includes(id)) next = setAreasGroup(next, [id], parentGroup.id);
+  ensureUpdated(next);
+  return { plan: next, description: 'Reparent area' };
+}
+
 function divideArea(plan: Plan, payload: CommandPayloads['area/divide']): CommandResult {
   const target = findArea(plan, payload.id);
   if (!target) return { plan };
   const partitions = Math.max(2, payload.partitions);
   const next = clonePlan(plan);
+  const level = activeLevel(next);
   const baseArea = findArea(next, payload.id);
   if (!baseArea) return { plan };
   const direction: PartitionDirection =
     payload.direction ??
     (baseArea.shape.type === 'rect' && baseArea.shape.width >= baseArea.shape.height ? 'vertical' : 'horizontal');
-  next.areas = next.areas.filter((a) => a.id !== payload.id);
+  level.areas = level.areas.filter((a) => a.id !== payload.id);
+  dropOrphanOpenings(level);
   const names = partitionNames(baseArea.name, partitions);
   const created: string[] = [];
   if (baseArea.shape.type === 'rect') {
-    const rects = splitRectEvenly(baseArea.shape, partitions, direction);
+    // Slices are cut in the rect's own frame and then turned with it.
+    const center = rectCenter(baseArea.shape);
+    const rotation = baseArea.shape.rotation ?? 0;
+    const rects = splitRectEvenly(baseArea.shape, partitions, direction).map((rect) =>
+      rotation ? rotateShape(rect, center, rotation) : rect,
+    );
     rects.forEach((rect, idx) => {
       const id = crypto.randomUUID();
       created.push(id);
-      next.areas.push({
+      level.areas.push({
         id,
         name: names[idx],
         fill: baseArea.fill,
         stroke: baseArea.stroke,
         strokeWidth: baseArea.strokeWidth,
         shape: rect,
+        layerId: baseArea.layerId,
         parentId: baseArea.id,
+        properties: baseArea.properties,
+        roomType: baseArea.roomType,
       });
     });
   } else {
@@ -600,21 +1045,517 @@ function divideArea(plan: Plan, payload: CommandPayloads['area/divide']): Comman
       };
       const id = crypto.randomUUID();
       created.push(id);
-      next.areas.push({
+      level.areas.push({
         id,
         name: names[idx],
         fill: baseArea.fill,
         stroke: baseArea.stroke,
         strokeWidth: baseArea.strokeWidth,
         shape: poly,
+        layerId: baseArea.layerId,
         parentId: baseArea.id,
+        properties: baseArea.properties,
+        roomType: baseArea.roomType,
       });
     });
   }
+  (level.areaGroups ?? []).forEach((group) => {
+    if (group.areaIds.includes(baseArea.id)) {
+      group.areaIds = [...group.areaIds.filter((id) => id !== baseArea.id), ...created];
+    }
+  });
   ensureUpdated(next);
   return { plan: next, selection: { areaIds: created }, description: 'Divide area' };
 }
 
+function setAreaProperty(plan: Plan, payload: CommandPayloads['area/set-property']): CommandResult {
+  const key = payload.key.trim();
+  if (!key) return { plan };
+  const next = clonePlan(plan);
+  const area = findArea(next, payload.id);
+  if (!area) return { plan };
+  const properties = { ...(area.properties ?? {}) };
+  if (payload.value === null) {
+    if (!(key in properties)) return { plan };
+    delete properties[key];
+  } else {
+    properties[key] = payload.value;
+  }
+  area.properties = Object.keys(properties).length ? properties : undefined;
+  ensureUpdated(next);
+  return {
+    plan: next,
+    selection: { areaIds: [payload.id] },
+    description: payload.value === null ? `Remove property ${key}` : `Set property ${key}`,
+  };
+}
+
+function setAreaRoomType(plan: Plan, payload: CommandPayloads['area/set-room-type']): CommandResult {
+  const type = payload.roomTypeId ? findRoomType(plan, payload.roomTypeId) : undefined;
+  if (payload.roomTypeId && !type) return { plan };
+  const next = clonePlan(plan);
+  const areas = activeLevel(next).areas.filter((area) => payload.ids.includes(area.id));
+  if (!areas.length) return { plan };
+  areas.forEach((area) => {
+    if (!type) {
+      delete area.roomType;
+      return;
+    }
+    if (area.roomType === type.id) return;
+    const rename = hasGeneratedName(next, area);
+    area.roomType = type.id;
+    area.fill = type.fill;
+    area.stroke = type.stroke;
+    if (rename) area.name = roomTypeAreaName(next, type);
+  });
+  ensureUpdated(next);
+  return {
+    plan: next,
+    selection: { areaIds: payload.ids },
+    description: type ? `Set room type ${type.name}` : 'Clear room type',
+  };
+}
+
+function upsertRoomType(plan: Plan, payload: CommandPayloads['room-type/upsert']): CommandResult {
+  const roomType = { ...payload.roomType, name: payload.roomType.name.trim() };
+  if (!roomType.id || !roomType.name) return { plan };
+  const next = clonePlan(plan);
+  const types = [...planRoomTypes(next)];
+  const index = types.findIndex((type) => type.id === roomType.id);
+  if (index >= 0) types[index] = roomType;
+  else types.push(roomType);
+  next.roomTypes = types;
+  // Areas follow their type's styling, on every level.
+  next.levels.forEach((level) =>
+    level.areas.forEach((area) => {
+      if (area.roomType !== roomType.id) return;
+      area.fill = roomType.fill;
+      area.stroke = roomType.stroke;
+    }),
+  );
+  ensureUpdated(next);
+  return { plan: next, description: index >= 0 ? 'Edit room type' : 'Add room type' };
+}
+
+function deleteRoomType(plan: Plan, payload: CommandPayloads['room-type/delete']): CommandResult {
+  if (!findRoomType(plan, payload.id)) return { plan };
+  const next = clonePlan(plan);
+  next.roomTypes = planRoomTypes(next).filter((type) => type.id !== payload.id);
+  next.levels.forEach((level) =>
+    level.areas.forEach((area) => {
+      if (area.roomType === payload.id) delete area.roomType;
+    }),
+  );
+  ensureUpdated(next);
+  return { plan: next, description: 'Delete room type' };
+}
+
+function addLayer(plan: Plan, payload: CommandPayloads['layer/create']): CommandResult {
+  const next = clonePlan(plan);
+  const level = activeLevel(next);
+  const layer = createLayer(payload.name?.trim() || nextLayerName(level));
+  level.layers.push(layer);
+  level.activeLayerId = layer.id;
+  ensureUpdated(next);
+  return { plan: next, description: 'Add layer' };
+}
+
+function updateLayer(plan: Plan, payload: CommandPayloads['layer/update']): CommandResult {
+  const next = clonePlan(plan);
+  const layer = findLayer(activeLevel(next), payload.id);
+  if (!layer) return { plan };
+  if (payload.name !== undefined && payload.name.trim()) layer.name = payload.name.trim();
+  if (payload.visible !== undefined) layer.visible = payload.visible;
+  if (payload.locked !== undefined) layer.locked = payload.locked;
+  if (payload.opacity !== undefined && Number.isFinite(payload.opacity)) {
+    layer.opacity = Math.max(0, Math.min(1, payload.opacity));
+  }
+  ensureUpdated(next);
+  // Hidden or locked areas must not stay selected, or keyboard edits would still reach them.
+  const selection = payload.visible === false || payload.locked === true ? { areaIds: [] } : undefined;
+  return { plan: next, selection, description: 'Update layer' };
+}
+
+function removeLayer(plan: Plan, payload: CommandPayloads['layer/delete']): CommandResult {
+  const level = activeLevel(plan);
+  const index = level.layers.findIndex((layer) => layer.id === payload.id);
+  if (index < 0 || level.layers.length <= 1) return { plan };
+  const next = clonePlan(plan);
+  const nextLevel = activeLevel(next);
+  const target = nextLevel.layers[index > 0 ? index - 1 : 1];
+  nextLevel.layers.splice(index, 1);
+  nextLevel.areas.forEach((area) => {
+    if (area.layerId === payload.id) area.layerId = target.id;
+  });
+  if (nextLevel.activeLayerId === payload.id) nextLevel.activeLayerId = target.id;
+  ensureUpdated(next);
+  return { plan: next, description: 'Delete layer' };
+}
+
+function reorderLayer(plan: Plan, payload: CommandPayloads['layer/reorder']): CommandResult {
+  const from = activeLevel(plan).layers.findIndex((layer) => layer.id === payload.id);
+  if (from < 0) return { plan };
+  const to = Math.max(0, Math.min(activeLevel(plan).layers.length - 1, Math.round(payload.index)));
+  if (from === to) return { plan };
+  const next = clonePlan(plan);
+  const layers = activeLevel(next).layers;
+  const [layer] = layers.splice(from, 1);
+  layers.splice(to, 0, layer);
+  ensureUpdated(next);
+  return { plan: next, description: 'Reorder layers' };
+}
+
+function setActiveLayer(plan: Plan, payload: CommandPayloads['layer/set-active']): CommandResult {
+  if (!findLayer(activeLevel(plan), payload.id)) return { plan };
+  const next = clonePlan(plan);
+  activeLevel(next).activeLayerId = payload.id;
+  return { plan: next, description: 'Switch layer' };
+}
+
+function setAreaLayer(plan: Plan, payload: CommandPayloads['area/set-layer']): CommandResult {
+  const next = clonePlan(plan);
+  const level = activeLevel(next);
+  if (!findLayer(level, payload.layerId)) return { plan };
+  const areas = level.areas.filter((area) => payload.ids.includes(area.id) && area.layerId !== payload.layerId);
+  if (!areas.length) return { plan };
+  areas.forEach((area) => {
+    area.layerId = payload.layerId;
+  });
+  ensureUpdated(next);
+  return { plan: next, description: 'Move to layer' };
+}
+
+const REORDER_DESCRIPTIONS: Record<ReorderDirection, string> = {
+  forward: 'Bring forward',
+  backward: 'Send backward',
+  front: 'Bring to front',
+  back: 'Send to back',
+};
+
+function reorderAreasCommand(plan: Plan, payload: CommandPayloads['area/reorder']): CommandResult {
+  const level = activeLevel(plan);
+  const reordered = reorderAreas(level.areas, payload.ids, payload.direction);
+  if (reordered.every((area, idx) => area === level.areas[idx])) return { plan };
+  const next = clonePlan(plan);
+  const nextLevel = activeLevel(next);
+  nextLevel.areas = reorderAreas(nextLevel.areas, payload.ids, payload.direction);
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: payload.ids }, description: REORDER_DESCRIPTIONS[payload.direction] };
+}
+
+function createWalls(plan: Plan, payload: CommandPayloads['wall/create']): CommandResult {
+  const points = payload.points.filter((p, idx) => idx === 0 || !pointsEqual(p, payload.points[idx - 1]));
+  if (points.length < 2) return { plan };
+  const next = clonePlan(plan);
+  const level = activeLevel(next);
+  const thickness = payload.thickness ?? DEFAULT_WALL_THICKNESS[next.units];
+  const alignment = payload.alignment ?? 'center';
+  const segments = points.slice(1).map((end, idx) => ({ start: points[idx], end }));
+  if (payload.closed && points.length > 2 && !pointsEqual(points[0], points[points.length - 1])) {
+    segments.push({ start: points[points.length - 1], end: points[0] });
+  }
+  const createdIds: string[] = [];
+  const walls = level.walls ?? [];
+  segments.forEach(({ start, end }) => {
+    const id = crypto.randomUUID();
+    createdIds.push(id);
+    walls.push({ id, start: { ...start }, end: { ...end }, thickness, alignment });
+  });
+  level.walls = walls;
+  ensureUpdated(next);
+  return {
+    plan: next,
+    selection: { areaIds: [], wallIds: createdIds },
+    description: createdIds.length === 1 ? 'Create wall' : 'Create walls',
+  };
+}
+
+function moveWalls(plan: Plan, payload: CommandPayloads['wall/move']): CommandResult {
+  if (payload.dx === 0 && payload.dy === 0) return { plan };
+  const walls = activeLevel(plan).walls ?? [];
+  if (!walls.some((wall) => payload.ids.includes(wall.id))) return { plan };
+  const next = clonePlan(plan);
+  const level = activeLevel(next);
+  level.walls = translateWalls(level.walls ?? [], payload.ids, payload.dx, payload.dy);
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: [], wallIds: payload.ids }, description: 'Move walls' };
+}
+
+function splitWall(plan: Plan, payload: CommandPayloads['wall/split']): CommandResult {
+  const next = clonePlan(plan);
+  const walls = activeLevel(next).walls ?? [];
+  const index = walls.findIndex((wall) => wall.id === payload.id);
+  if (index < 0) return { plan };
+  const wall = walls[index];
+  const { t, point } = projectOntoWall(wall, payload.point);
+  if (t <= 0 || t >= 1) return { plan };
+  const tail = { ...wall, id: crypto.randomUUID(), start: { ...point }, end: { ...wall.end } };
+  wall.end = { ...point };
+  walls.splice(index + 1, 0, tail);
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: [], wallIds: [wall.id, tail.id] }, description: 'Split wall' };
+}
+
+function updateWall(plan: Plan, payload: CommandPayloads['wall/update']): CommandResult {
+  const next = clonePlan(plan);
+  const wall = activeLevel(next).walls?.find((w) => w.id === payload.id);
+  if (!wall) return { plan };
+  if (typeof payload.thickness === 'number' && payload.thickness > 0) wall.thickness = payload.thickness;
+  if (payload.alignment) wall.alignment = payload.alignment;
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: [], wallIds: [payload.id] }, description: 'Edit wall' };
+}
+
+function deleteWalls(plan: Plan, payload: CommandPayloads['wall/delete']): CommandResult {
+  const next = clonePlan(plan);
+  const level = activeLevel(next);
+  if (!level.walls?.some((wall) => payload.ids.includes(wall.id))) return { plan };
+  level.walls = level.walls.filter((wall) => !payload.ids.includes(wall.id));
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: [] }, description: 'Delete walls' };
+}
+
+function deriveAreasFromWalls(plan: Plan, payload: CommandPayloads['wall/derive-areas']): CommandResult {
+  const spaces = enclosedSpaces(activeLevel(plan).walls ?? []);
+  if (!spaces.length) return { plan };
+  const next = clonePlan(plan);
+  const level = activeLevel(next);
+  const createdIds: string[] = [];
+  spaces.forEach((points) => {
+    const id = crypto.randomUUID();
+    createdIds.push(id);
+    level.areas.push({
+      id,
+      name: defaultAreaName(next),
+      fill: payload.fill ?? '#d8b4fe',
+      stroke: payload.stroke ?? '#6b21a8',
+      strokeWidth: DEFAULT_AREA_STROKE_WIDTH[next.units],
+      shape: { type: 'polygon', points },
+      layerId: activeLayer(level).id,
+    });
+  });
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: createdIds }, description: 'Rooms from walls' };
+}
+
+function createOpening(plan: Plan, payload: CommandPayloads['opening/create']): CommandResult {
+  if (!findArea(plan, payload.areaId)) return { plan };
+  const next = clonePlan(plan);
+  const level = activeLevel(next);
+  const id = crypto.randomUUID();
+  const width = payload.width ?? DEFAULT_OPENING_WIDTH[next.units][payload.kind];
+  level.openings = [
+    ...(level.openings ?? []),
+    {
+      id,
+      areaId: payload.areaId,
+      edgeKey: payload.edgeKey,
+      kind: payload.kind,
+      width,
+      offset: payload.offset,
+      swing: payload.swing ?? 'left',
+      direction: payload.direction ?? 'in',
+    },
+  ];
+  ensureUpdated(next);
+  return {
+    plan: next,
+    selection: { areaIds: [], openingIds: [id] },
+    description: payload.kind === 'door' ? 'Add door' : 'Add window',
+  };
+}
+
+function updateOpening(plan: Plan, payload: CommandPayloads['opening/update']): CommandResult {
+  const next = clonePlan(plan);
+  const opening = activeLevel(next).openings?.find((o) => o.id === payload.id);
+  if (!opening) return { plan };
+  if (payload.kind) opening.kind = payload.kind;
+  if (typeof payload.width === 'number' && payload.width > 0) opening.width = payload.width;
+  if (typeof payload.offset === 'number' && Number.isFinite(payload.offset)) opening.offset = Math.max(0, payload.offset);
+  if (payload.swing) opening.swing = payload.swing;
+  if (payload.direction) opening.direction = payload.direction;
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: [], openingIds: [payload.id] }, description: 'Edit opening' };
+}
+
+function deleteOpenings(plan: Plan, payload: CommandPayloads['opening/delete']): CommandResult {
+  const next = clonePlan(plan);
+  const level = activeLevel(next);
+  if (!level.openings?.some((o) => payload.ids.includes(o.id))) return { plan };
+  level.openings = level.openings.filter((o) => !payload.ids.includes(o.id));
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: [] }, description: 'Delete openings' };
+}
+
+function normalizeRotation(degrees: number) {
+  return ((degrees % 360) + 360) % 360;
+}
+
+function createFixture(plan: Plan, payload: CommandPayloads['fixture/create']): CommandResult {
+  const symbol = findFixtureSymbol(payload.symbol);
+  if (!symbol) return { plan };
+  const next = clonePlan(plan);
+  const level = activeLevel(next);
+  const size = defaultFixtureSize(symbol, next.units);
+  const id = crypto.randomUUID();
+  level.fixtures = [
+    ...(level.fixtures ?? []),
+    {
+      id,
+      symbol: symbol.id,
+      x: payload.x,
+      y: payload.y,
+      width: payload.width ?? size.width,
+      depth: payload.depth ?? size.depth,
+      rotation: normalizeRotation(payload.rotation ?? 0),
+    },
+  ];
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: [], fixtureIds: [id] }, description: `Place ${symbol.label.toLowerCase()}` };
+}
+
+function moveFixtures(plan: Plan, payload: CommandPayloads['fixture/move']): CommandResult {
+  if (payload.dx === 0 && payload.dy === 0) return { plan };
+  const next = clonePlan(plan);
+  const fixtures = (activeLevel(next).fixtures ?? []).filter((f) => payload.ids.includes(f.id));
+  if (!fixtures.length) return { plan };
+  fixtures.forEach((fixture) => {
+    fixture.x += payload.dx;
+    fixture.y += payload.dy;
+  });
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: [], fixtureIds: payload.ids }, description: 'Move fixtures' };
+}
+
+function updateFixture(plan: Plan, payload: CommandPayloads['fixture/update']): CommandResult {
+  const next = clonePlan(plan);
+  const fixture = activeLevel(next).fixtures?.find((f) => f.id === payload.id);
+  if (!fixture) return { plan };
+  if (payload.name !== undefined) fixture.name = payload.name || undefined;
+  if (typeof payload.width === 'number' && payload.width > 0) fixture.width = payload.width;
+  if (typeof payload.depth === 'number' && payload.depth > 0) fixture.depth = payload.depth;
+  if (typeof payload.rotation === 'number' && Number.isFinite(payload.rotation)) {
+    fixture.rotation = normalizeRotation(payload.rotation);
+  }
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: [], fixtureIds: [payload.id] }, description: 'Edit fixture' };
+}
+
+function deleteFixtures(plan: Plan, payload: CommandPayloads['fixture/delete']): CommandResult {
+  const next = clonePlan(plan);
+  const level = activeLevel(next);
+  if (!level.fixtures?.some((f) => payload.ids.includes(f.id))) return { plan };
+  level.fixtures = level.fixtures.filter((f) => !payload.ids.includes(f.id));
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: [] }, description: 'Delete fixtures' };
+}
+
+function validLeader(points: { x: number; y: number }[]) {
+  return points.length > 0 && points.every((p) => Number.isFinite(p.x) && Number.isFinite(p.y));
+}
+
+function createAnnotation(plan: Plan, payload: CommandPayloads['annotation/create']): CommandResult {
+  const text = payload.text.trim();
+  if (!text) return { plan };
+  const next = clonePlan(plan);
+  const level = activeLevel(next);
+  const id = crypto.randomUUID();
+  const annotation: Annotation = {
+    id,
+    text,
+    x: payload.x,
+    y: payload.y,
+    fontSize: payload.fontSize && payload.fontSize > 0 ? payload.fontSize : defaultAnnotationFontSize(next.units),
+    rotation: normalizeRotation(payload.rotation ?? 0),
+    align: payload.align ?? 'left',
+  };
+  if (payload.leader && validLeader(payload.leader)) annotation.leader = payload.leader;
+  level.annotations = [...(level.annotations ?? []), annotation];
+  ensureUpdated(next);
+  return {
+    plan: next,
+    selection: { areaIds: [], annotationIds: [id] },
+    description: annotation.leader ? 'Add callout' : 'Add note',
+  };
+}
+
+function updateAnnotation(plan: Plan, payload: CommandPayloads['annotation/update']): CommandResult {
+  const next = clonePlan(plan);
+  const annotation = activeLevel(next).annotations?.find((a) => a.id === payload.id);
+  if (!annotation) return { plan };
+  if (payload.text !== undefined && payload.text.trim()) annotation.text = payload.text.trim();
+  if (typeof payload.fontSize === 'number' && payload.fontSize > 0) annotation.fontSize = payload.fontSize;
+  if (typeof payload.rotation === 'number' && Number.isFinite(payload.rotation)) {
+    annotation.rotation = normalizeRotation(payload.rotation);
+  }
+  if (payload.align) annotation.align = payload.align;
+  if (payload.leader === null) delete annotation.leader;
+  else if (payload.leader && validLeader(payload.leader)) annotation.leader = payload.leader;
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: [], annotationIds: [payload.id] }, description: 'Edit annotation' };
+}
+
+function moveAnnotations(plan: Plan, payload: CommandPayloads['annotation/move']): CommandResult {
+  if (payload.dx === 0 && payload.dy === 0) return { plan };
+  const next = clonePlan(plan);
+  const level = activeLevel(next);
+  if (!level.annotations?.some((a) => payload.ids.includes(a.id))) return { plan };
+  level.annotations = level.annotations.map((a) =>
+    payload.ids.includes(a.id) ? translateAnnotation(a, payload.dx, payload.dy) : a,
+  );
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: [], annotationIds: payload.ids }, description: 'Move annotations' };
+}
+
+function deleteAnnotations(plan: Plan, payload: CommandPayloads['annotation/delete']): CommandResult {
+  const next = clonePlan(plan);
+  const level = activeLevel(next);
+  if (!level.annotations?.some((a) => payload.ids.includes(a.id))) return { plan };
+  level.annotations = level.annotations.filter((a) => !payload.ids.includes(a.id));
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: [] }, description: 'Delete annotations' };
+}
+
+function validAnchors(points: DimensionAnchor[]) {
+  return points.length >= 2 && points.every((p) => Number.isFinite(p.x) && Number.isFinite(p.y));
+}
+
+function createDimension(plan: Plan, payload: CommandPayloads['dimension/create']): CommandResult {
+  if (!validAnchors(payload.points)) return { plan };
+  const next = clonePlan(plan);
+  const level = activeLevel(next);
+  const id = crypto.randomUUID();
+  const points = payload.style === 'chained' ? payload.points : [payload.points[0], payload.points[payload.points.length - 1]];
+  const offset = Number.isFinite(payload.offset) ? (payload.offset as number) : 0;
+  level.dimensions = [...(level.dimensions ?? []), { id, style: payload.style, points, offset }];
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: [], dimensionIds: [id] }, description: 'Add dimension' };
+}
+
+function updateDimension(plan: Plan, payload: CommandPayloads['dimension/update']): CommandResult {
+  const next = clonePlan(plan);
+  const dimension = activeLevel(next).dimensions?.find((d) => d.id === payload.id);
+  if (!dimension) return { plan };
+  if (payload.points && validAnchors(payload.points)) dimension.points = payload.points;
+  if (payload.style) dimension.style = payload.style;
+  // Only chains keep the points between their ends.
+  if (dimension.style !== 'chained' && dimension.points.length > 2) {
+    dimension.points = [dimension.points[0], dimension.points[dimension.points.length - 1]];
+  }
+  if (typeof payload.offset === 'number' && Number.isFinite(payload.offset)) dimension.offset = payload.offset;
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: [], dimensionIds: [payload.id] }, description: 'Edit dimension' };
+}
+
+function deleteDimensions(plan: Plan, payload: CommandPayloads['dimension/delete']): CommandResult {
+  const next = clonePlan(plan);
+  const level = activeLevel(next);
+  if (!level.dimensions?.some((d) => payload.ids.includes(d.id))) return { plan };
+  level.dimensions = level.dimensions.filter((d) => !payload.ids.includes(d.id));
+  ensureUpdated(next);
+  return { plan: next, selection: { areaIds: [] }, description: 'Delete dimensions' };
+}
+
 function loadPlan(_: Plan, payload: CommandPayloads['plan/load']): CommandResult {
   return { plan: payload.plan, selection: { areaIds: [] }, description: 'Load plan' };
 }
@@ -680,7 +1621,28 @@ function setRadiusLabelOffset(plan: Plan, payload: CommandPayloads['area/set-rad
   return { plan: next, selection: { areaIds: [payload.id] }, description: 'Move radius label' };
 }
 
+// Refuses edits to areas on locked layers or in locked groups. Commands that leave the areas
+// untouched (a click that commits a zero-length drag, say) pass through so they don't raise a notice.
 export function performCommand(plan: Plan, command: Command): CommandResult {
+  const level = activeLevel(plan);
+  const layerLockedId = layerCommandAreaIds(command).find((id) => lockingLayer(level, id));
+  const lockedId = commandAreaIds(command).find((id) => lockingGroups(level, id).length);
+  const ran = runCommand(plan, command);
+  // Dimensions follow the geometry they are attached to, whichever command moved it.
+  const result = ran.plan === plan ? ran : { ...ran, plan: syncDimensionAnchors(ran.plan) };
+  const changed = () => JSON.stringify(activeLevel(result.plan).areas) !== JSON.stringify(level.areas);
+  if (layerLockedId && changed()) {
+    const area = level.areas.find((a) => a.id === layerLockedId);
+    const layer = lockingLayer(level, layerLockedId);
+    return { plan, blocked: `"${area?.name ?? 'Area'}" is on locked layer "${layer?.name}". Unlock the layer to edit it.` };
+  }
+  if (!lockedId || !changed()) return result;
+  const area = level.areas.find((a) => a.id === lockedId);
+  const group = lockingGroups(level, lockedId)[0];
+  return { plan, blocked: `"${area?.name ?? 'Area'}" is in locked group "${group.name}". Unlock the group to edit it.` };
+}
+
+function runCommand(plan: Plan, command: Command): CommandResult {
   switch (command.type) {
     case 'plan/create':
       return createPlan(plan, command.payload);
@@ -688,14 +1650,30 @@ export function performCommand(plan: Plan, command: Command): CommandResult {
       return updatePlanDimensions(plan, command.payload);
     case 'plan/set-viewport':
       return setViewport(plan, command.payload);
+    case 'plan/set-units':
+      return setUnits(plan, command.payload);
+    case 'plan/set-display':
+      return setDisplay(plan, command.payload);
     case 'plan/load':
       return loadPlan(plan, command.payload);
+    case 'level/create':
+      return addLevel(plan, command.payload);
+    case 'level/delete':
+      return removeLevel(plan, command.payload);
+    case 'level/rename':
+      return renameLevel(plan, command.payload);
+    case 'level/set-elevation':
+      return setLevelElevation(plan, command.payload);
+    case 'level/set-active':
+      return setActiveLevel(plan, command.payload);
     case 'area/create':
       return createArea(plan, command.payload);
     case 'area/create-polygon':
       return createPolygon(plan, command.payload);
     case 'area/create-ellipse':
       return createEllipse(plan, command.payload);
+    case 'area/array':
+      return arrayAreas(plan, command.payload);
     case 'area/paste':
       return pasteAreas(plan, command.payload);
     case 'area/move':
@@ -722,8 +1700,22 @@ export function performCommand(plan: Plan, command: Command): CommandResult {
       return deleteArea(plan, command.payload);
     case 'area/mirror':
       return mirrorArea(plan, command.payload);
+    case 'area/rotate':
+      return rotateAreas(plan, command.payload);
+    case 'area/scale':
+      return scaleAreas(plan, command.payload);
+    case 'area/align':
+      return alignAreas(plan, command.payload);
+    case 'area/distribute':
+      return distributeAreas(plan, command.payload);
     case 'area/subtract':
       return subtractAreas(plan, command.payload);
+    case 'area/intersect':
+      return intersectAreas(plan, command.payload);
+    case 'area/exclude':
+      return excludeAreas(plan, command.payload);
+    case 'area/offset':
+      return offsetAreas(plan, command.payload);
     case 'area/divide':
       return divideArea(plan, command.payload);
     case 'area/merge':
@@ -734,6 +1726,16 @@ export function performCommand(plan: Plan, command: Command): CommandResult {
       return removeGroup(plan, command.payload);
     case 'group/visibility':
       return setGroupVisibility(plan, command.payload);
+    case 'group/lock':
+      return lockGroup(plan, command.payload);
+    case 'group/rename':
+      return renameGroup(plan, command.payload);
+    case 'group/set-parent':
+      return nestGroup(plan, command.payload);
+    case 'area/set-group':
+      return moveAreasToGroup(plan, command.payload);
+    case 'area/set-parent':
+      return setAreaParent(plan, command.payload);
     case 'area/convert-to-polygon':
       return convertToPolygon(plan, command.payload);
     case 'area/move-multi':
@@ -744,6 +1746,68 @@ export function performCommand(plan: Plan, command: Command): CommandResult {
       return setEdgeLabelOffset(plan, command.payload);
     case 'area/set-radius-label-offset':
       return setRadiusLabelOffset(plan, command.payload);
+    case 'area/set-property':
+      return setAreaProperty(plan, command.payload);
+    case 'area/set-room-type':
+      return setAreaRoomType(plan, command.payload);
+    case 'room-type/upsert':
+      return upsertRoomType(plan, command.payload);
+    case 'room-type/delete':
+      return deleteRoomType(plan, command.payload);
+    case 'layer/create':
+      return addLayer(plan, command.payload);
+    case 'layer/update':
+      return updateLayer(plan, command.payload);
+    case 'layer/delete':
+      return removeLayer(plan, command.payload);
+    case 'layer/reorder':
+      return reorderLayer(plan, command.payload);
+    case 'layer/set-active':
+      return setActiveLayer(plan, command.payload);
+    case 'area/set-layer':
+      return setAreaLayer(plan, command.payload);
+    case 'area/reorder':
+      return reorderAreasCommand(plan, command.payload);
+    case 'wall/create':
+      return createWalls(plan, command.payload);
+    case 'wall/move':
+      return moveWalls(plan, command.payload);
+    case 'wall/split':
+      return splitWall(plan, command.payload);
+    case 'wall/update':
+      return updateWall(plan, command.payload);
+    case 'wall/delete':
+      return deleteWalls(plan, command.payload);
+    case 'wall/derive-areas':
+      return deriveAreasFromWalls(plan, command.payload);
+    case 'opening/create':
+      return createOpening(plan, command.payload);
+    case 'opening/update':
+      return updateOpening(plan, command.payload);
+    case 'opening/delete':
+      return deleteOpenings(plan, command.payload);
+    case 'fixture/create':
+      return createFixture(plan, command.payload);
+    case 'fixture/move':
+      return moveFixtures(plan, command.payload);
+    case 'fixture/update':
+      return updateFixture(plan, command.payload);
+    case 'fixture/delete':
+      return deleteFixtures(plan, command.payload);
+    case 'annotation/create':
+      return createAnnotation(plan, command.payload);
+    case 'annotation/update':
+      return updateAnnotation(plan, command.payload);
+    case 'annotation/move':
+      return moveAnnotations(plan, command.payload);
+    case 'annotation/delete':
+      return deleteAnnotations(plan, command.payload);
+    case 'dimension/create':
+      return createDimension(plan, command.payload);
+    case 'dimension/update':
+      return updateDimension(plan, command.payload);
+    case 'dimension/delete':
+      return deleteDimensions(plan, command.payload);
     case 'selection/set':
       return setSelection(plan, command.payload);
     default:
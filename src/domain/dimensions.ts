@@ -0,0 +1,103 @@
+import { resolveAnchorRef } from './snapping';
+import type { Dimension, DimensionAnchor, DimensionStyle, Level, Plan } from './types';
+
+type Point = { x: number; y: number };
+
+export const DIMENSION_STYLES: { value: DimensionStyle; label: string }[] = [
+  { value: 'aligned', label: 'Aligned' },
+  { value: 'horizontal', label: 'Horizontal' },
+  { value: 'vertical', label: 'Vertical' },
+  { value: 'chained', label: 'Chained' },
+];
+
+export type DimensionSegment = {
+  /** Ends of the segment on the dimension line. */
+  a: Point;
+  b: Point;
+  length: number;
+};
+
+export type ResolvedDimension = {
+  dimension: Dimension;
+  /** Measured points, following any geometry they are attached to. */
+  points: Point[];
+  /** Where each measured point's extension line meets the dimension line. */
+  feet: Point[];
+  /** Unit vector along the dimension line and its normal (the offset direction). */
+  axis: Point;
+  normal: Point;
+  segments: DimensionSegment[];
+};
+
+export function anchorPoint(plan: Plan, level: Level, anchor: DimensionAnchor): Point {
+  return (anchor.ref && resolveAnchorRef(plan, level, anchor.ref)) ?? { x: anchor.x, y: anchor.y };
+}
+
+function dimensionAxis(style: DimensionStyle, first: Point, last: Point): Point {
+  const dx = last.x - first.x;
+  const dy = last.y - first.y;
+  if (style === 'horizontal') return { x: 1, y: 0 };
+  if (style === 'vertical') return { x: 0, y: 1 };
+  // Chains run along whichever axis their ends are furthest apart on.
+  if (style === 'chained') return Math.abs(dx) >= Math.abs(dy) ? { x: 1, y: 0 } : { x: 0, y: 1 };
+  const length = Math.hypot(dx, dy);
+  return length ? { x: dx / length, y: dy / length } : { x: 1, y: 0 };
+}
+
+/** Measured points of a dimension; only chains use the points between the ends. */
+export function measuredPoints(plan: Plan, level: Level, dimension: Dimension): Point[] {
+  const points = dimension.points.map((anchor) => anchorPoint(plan, level, anchor));
+  return dimension.style === 'chained' ? points : [points[0], points[points.length - 1]];
+}
+
+export function resolveDimension(plan: Plan, level: Level, dimension: Dimension): ResolvedDimension | null {
+  if (dimension.points.length < 2) return null;
+  const points = measuredPoints(plan, level, dimension);
+  const axis = dimensionAxis(dimension.style, points[0], points[points.length - 1]);
+  const normal = { x: -axis.y, y: axis.x };
+  const base = points[0].x * normal.x + points[0].y * normal.y + dimension.offset;
+  const along = points.map((p) => p.x * axis.x + p.y * axis.y);
+  const feet = along.map((t) => ({ x: axis.x * t + normal.x * base, y: axis.y * t + normal.y * base }));
+  const segments = feet.slice(1).map((b, idx) => ({ a: feet[idx], b, length: Math.abs(along[idx + 1] - along[idx]) }));
+  return { dimension, points, feet, axis, normal, segments };
+}
+
+/** The offset that puts the dimension line through `point`. */
+export function offsetThrough(resolved: ResolvedDimension, point: Point) {
+  const { normal, points } = resolved;
+  return (point.x - points[0].x) * normal.x + (point.y - points[0].y) * normal.y;
+}
+
+/**
+ * Copies the current position of attached geometry into each anchor's `x`/`y` and detaches
+ * anchors whose geometry is gone, so they stay where they last were. Returns `plan` itself
+ * when nothing changed.
+ */
+export function syncDimensionAnchors(plan: Plan): Plan {
+  let changed = false;
+  const levels = plan.levels.map((level) => {
+    if (!level.dimensions?.length) return level;
+    let levelChanged = false;
+    const dimensions = level.dimensions.map((dimension) => {
+      let dimensionChanged = false;
+      const points = dimension.points.map((anchor) => {
+        if (!anchor.ref) return anchor;
+        const point = resolveAnchorRef(plan, level, anchor.ref);
+        if (!point) {
+          dimensionChanged = true;
+          return { x: anchor.x, y: anchor.y };
+        }
+        if (point.x === anchor.x && point.y === anchor.y) return anchor;
+        dimensionChanged = true;
+        return { ...anchor, x: point.x, y: point.y };
+      });
+      if (!dimensionChanged) return dimension;
+      levelChanged = true;
+      return { ...dimension, points };
+    });
+    if (!levelChanged) return level;
+    changed = true;
+    return { ...level, dimensions };
+  });
+  return changed ? { ...plan, levels } : plan;
+}
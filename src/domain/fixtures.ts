@@ -0,0 +1,193 @@
+import type { Units } from './types';
+import { METRES_PER_UNIT } from './units';
+
+/**
+ * Symbol primitives are drawn in a unit box: `u` runs across the fixture's width and `v`
+ * across its depth, with v = 0 being the back (the side that usually sits against a wall).
+ * Scaling the box rather than the strokes keeps every symbol parametric in width/depth.
+ */
+export type FixturePrimitive =
+  | { type: 'rect'; u: number; v: number; w: number; h: number; round?: number }
+  | { type: 'ellipse'; cu: number; cv: number; ru: number; rv: number }
+  | { type: 'line'; u1: number; v1: number; u2: number; v2: number };
+
+export type FixtureCategory = 'Office' | 'Living' | 'Bedroom' | 'Bathroom' | 'Kitchen';
+
+export type FixtureSymbol = {
+  id: string;
+  label: string;
+  category: FixtureCategory;
+  /** Default footprint in metres; converted to plan units on placement. */
+  width: number;
+  depth: number;
+  primitives: FixturePrimitive[];
+};
+
+const outline: FixturePrimitive = { type: 'rect', u: 0, v: 0, w: 1, h: 1 };
+
+export const FIXTURE_LIBRARY: FixtureSymbol[] = [
+  {
+    id: 'desk',
+    label: 'Desk',
+    category: 'Office',
+    width: 1.4,
+    depth: 0.7,
+    primitives: [outline, { type: 'rect', u: 0.3, v: 0.08, w: 0.4, h: 0.12 }],
+  },
+  {
+    id: 'chair',
+    label: 'Chair',
+    category: 'Office',
+    width: 0.5,
+    depth: 0.5,
+    primitives: [
+      { type: 'rect', u: 0.1, v: 0, w: 0.8, h: 0.2, round: 0.2 },
+      { type: 'rect', u: 0.1, v: 0.25, w: 0.8, h: 0.7, round: 0.2 },
+    ],
+  },
+  {
+    id: 'table',
+    label: 'Table',
+    category: 'Living',
+    width: 1.6,
+    depth: 0.9,
+    primitives: [{ type: 'rect', u: 0, v: 0, w: 1, h: 1, round: 0.1 }],
+  },
+  {
+    id: 'sofa',
+    label: 'Sofa',
+    category: 'Living',
+    width: 2,
+    depth: 0.9,
+    primitives: [
+      outline,
+      { type: 'rect', u: 0, v: 0, w: 1, h: 0.25 },
+      { type: 'rect', u: 0, v: 0.25, w: 0.1, h: 0.75 },
+      { type: 'rect', u: 0.9, v: 0.25, w: 0.1, h: 0.75 },
+    ],
+  },
+  {
+    id: 'bed-single',
+    label: 'Single bed',
+    category: 'Bedroom',
+    width: 0.9,
+    depth: 2,
+    primitives: [
+      outline,
+      { type: 'rect', u: 0.1, v: 0.04, w: 0.8, h: 0.12, round: 0.3 },
+      { type: 'line', u1: 0, v1: 0.3, u2: 1, v2: 0.3 },
+    ],
+  },
+  {
+    id: 'bed-double',
+    label: 'Double bed',
+    category: 'Bedroom',
+    width: 1.6,
+    depth: 2,
+    primitives: [
+      outline,
+      { type: 'rect', u: 0.06, v: 0.04, w: 0.4, h: 0.12, round: 0.3 },
+      { type: 'rect', u: 0.54, v: 0.04, w: 0.4, h: 0.12, round: 0.3 },
+      { type: 'line', u1: 0, v1: 0.3, u2: 1, v2: 0.3 },
+    ],
+  },
+  {
+    id: 'wardrobe',
+    label: 'Wardrobe',
+    category: 'Bedroom',
+    width: 1,
+    depth: 0.6,
+    primitives: [outline, { type: 'line', u1: 0.5, v1: 0, u2: 0.5, v2: 1 }],
+  },
+  {
+    id: 'wc',
+    label: 'WC',
+    category: 'Bathroom',
+    width: 0.4,
+    depth: 0.7,
+    primitives: [
+      { type: 'rect', u: 0.05, v: 0, w: 0.9, h: 0.25, round: 0.2 },
+      { type: 'ellipse', cu: 0.5, cv: 0.6, ru: 0.42, rv: 0.36 },
+    ],
+  },
+  {
+    id: 'sink',
+    label: 'Sink',
+    category: 'Bathroom',
+    width: 0.6,
+    depth: 0.45,
+    primitives: [
+      outline,
+      { type: 'ellipse', cu: 0.5, cv: 0.58, ru: 0.35, rv: 0.3 },
+      { type: 'ellipse', cu: 0.5, cv: 0.14, ru: 0.04, rv: 0.05 },
+    ],
+  },
+  {
+    id: 'bathtub',
+    label: 'Bathtub',
+    category: 'Bathroom',
+    width: 0.75,
+    depth: 1.7,
+    primitives: [outline, { type: 'rect', u: 0.08, v: 0.05, w: 0.84, h: 0.9, round: 0.5 }],
+  },
+  {
+    id: 'shower',
+    label: 'Shower',
+    category: 'Bathroom',
+    width: 0.9,
+    depth: 0.9,
+    primitives: [
+      outline,
+      { type: 'line', u1: 0, v1: 0, u2: 1, v2: 1 },
+      { type: 'line', u1: 1, v1: 0, u2: 0, v2: 1 },
+      { type: 'ellipse', cu: 0.5, cv: 0.5, ru: 0.06, rv: 0.06 },
+    ],
+  },
+  {
+    id: 'kitchen-unit',
+    label: 'Kitchen unit',
+    category: 'Kitchen',
+    width: 0.6,
+    depth: 0.6,
+    primitives: [outline, { type: 'line', u1: 0, v1: 0.9, u2: 1, v2: 0.9 }],
+  },
+  {
+    id: 'hob',
+    label: 'Hob unit',
+    category: 'Kitchen',
+    width: 0.6,
+    depth: 0.6,
+    primitives: [
+      outline,
+      { type: 'ellipse', cu: 0.3, cv: 0.3, ru: 0.13, rv: 0.13 },
+      { type: 'ellipse', cu: 0.7, cv: 0.3, ru: 0.13, rv: 0.13 },
+      { type: 'ellipse', cu: 0.3, cv: 0.7, ru: 0.13, rv: 0.13 },
+      { type: 'ellipse', cu: 0.7, cv: 0.7, ru: 0.13, rv: 0.13 },
+    ],
+  },
+  {
+    id: 'kitchen-sink',
+    label: 'Kitchen sink',
+    category: 'Kitchen',
+    width: 1,
+    depth: 0.6,
+    primitives: [
+      outline,
+      { type: 'rect', u: 0.06, v: 0.15, w: 0.4, h: 0.75, round: 0.1 },
+      { type: 'line', u1: 0.55, v1: 0.25, u2: 0.94, v2: 0.25 },
+      { type: 'line', u1: 0.55, v1: 0.45, u2: 0.94, v2: 0.45 },
+      { type: 'line', u1: 0.55, v1: 0.65, u2: 0.94, v2: 0.65 },
+    ],
+  },
+];
+
+export const FIXTURE_CATEGORIES: FixtureCategory[] = ['Office', 'Living', 'Bedroom', 'Bathroom', 'Kitchen'];
+
+export function findFixtureSymbol(id: string): FixtureSymbol | undefined {
+  return FIXTURE_LIBRARY.find((symbol) => symbol.id === id);
+}
+
+export function defaultFixtureSize(symbol: FixtureSymbol, units: Units) {
+  const factor = METRES_PER_UNIT[units];
+  return { width: symbol.width / factor, depth: symbol.depth / factor };
+}
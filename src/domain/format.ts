@@ -0,0 +1,116 @@
+import type { DisplaySettings, Plan, RoundingMode, Units } from './types';
+import { unitFactor } from './units';
+
+/** Imperial lengths are shown to the nearest 1/16". */
+const INCH_DIVISIONS = 16;
+
+/** What the formatters need from a plan. */
+type FormatContext = Pick<Plan, 'units' | 'display'>;
+
+function isImperial(units: Units): units is 'ft' | 'in' {
+  return units === 'ft' || units === 'in';
+}
+
+/** The plan's display settings with defaults filled in; imperial areas default to whole units. */
+export function planDisplay(plan: FormatContext): DisplaySettings {
+  const areaUnits = plan.display?.areaUnits ?? plan.units;
+  return {
+    lengthDecimals: 2,
+    areaDecimals: isImperial(areaUnits) ? 0 : 2,
+    rounding: 'nearest',
+    thousandsSeparator: isImperial(areaUnits),
+    locale: 'en-US',
+    ...plan.display,
+  };
+}
+
+function roundTo(value: number, steps: number, mode: RoundingMode) {
+  // The epsilon keeps values like 2.0000000001 from rounding up a whole step.
+  if (mode === 'up') return Math.ceil(value * steps - 1e-9) / steps;
+  if (mode === 'down') return Math.floor(value * steps + 1e-9) / steps;
+  return Math.round(value * steps) / steps;
+}
+
+function formatNumber(value: number, decimals: number, display: DisplaySettings) {
+  const rounded = roundTo(value, 10 ** decimals, display.rounding);
+  const options = {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+    useGrouping: display.thousandsSeparator,
+  };
+  try {
+    return rounded.toLocaleString(display.locale, options);
+  } catch {
+    // An unknown locale tag throws; fall back rather than break every label.
+    return rounded.toLocaleString('en-US', options);
+  }
+}
+
+function gcd(a: number, b: number): number {
+  return b ? gcd(b, a % b) : a;
+}
+
+/** 6.5 → `6-1/2"`, 0.25 → `1/4"`. */
+function formatInches(inches: number, divisions: number) {
+  const whole = Math.floor(inches / divisions);
+  const rest = inches % divisions;
+  if (!rest) return `${whole}"`;
+  const divisor = gcd(rest, divisions);
+  const fraction = `${rest / divisor}/${divisions / divisor}`;
+  return whole ? `${whole}-${fraction}"` : `${fraction}"`;
+}
+
+/** 12.5 ft → `12' 6"`; plans in inches show inches only, e.g. `150-1/2"`. */
+function formatImperial(value: number, units: 'ft' | 'in', rounding: RoundingMode = 'nearest') {
+  const sign = value < 0 ? '-' : '';
+  const steps = roundTo(Math.abs(value) * (units === 'ft' ? 12 : 1), INCH_DIVISIONS, rounding) * INCH_DIVISIONS;
+  if (units === 'in') return `${sign}${formatInches(steps, INCH_DIVISIONS)}`;
+  const feet = Math.floor(steps / (12 * INCH_DIVISIONS));
+  return `${sign}${feet}' ${formatInches(steps - feet * 12 * INCH_DIVISIONS, INCH_DIVISIONS)}`;
+}
+
+/** Label text for a length in plan units: `3.25 m`, or feet and fractional inches. */
+export function formatLength(value: number, plan: FormatContext) {
+  const display = planDisplay(plan);
+  if (isImperial(plan.units)) return formatImperial(value, plan.units, display.rounding);
+  return `${formatNumber(value, display.lengthDecimals, display)} ${plan.units}`;
+}
+
+/** Label text for an area given in square plan units, converted to the display area units. */
+export function formatArea(value: number, plan: FormatContext) {
+  const display = planDisplay(plan);
+  const areaUnits = display.areaUnits ?? plan.units;
+  const converted = value * unitFactor(plan.units, areaUnits) ** 2;
+  return `${formatNumber(converted, display.areaDecimals, display)} ${areaUnits}²`;
+}
+
+/** Starting text for an editable length field; imperial plans edit feet-and-inches text. */
+export function lengthInputValue(value: number, units: Units) {
+  return isImperial(units) ? formatImperial(value, units) : String(Number(value.toFixed(3)));
+}
+
+const IMPERIAL_PATTERN =
+  /^(-)?\s*(?:(\d+(?:\.\d+)?)\s*(?:'|ft)\s*-?\s*)?(?:(\d+(?:\.\d+)?)(?=[\s\-"]|in|$))?\s*-?\s*(?:(\d+)\s*\/\s*(\d+))?\s*("|in)?$/;
+
+/**
+ * Reads a length typed by the user, in plan units. Plain numbers are taken as plan units;
+ * feet and inches such as `12'`, `12'6"`, `12' 6-1/2"` or `3/4"` are converted, so they
+ * work in metric plans too. Returns null when the text is not a length.
+ */
+export function parseLength(text: string, units: Units): number | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  if (/^[-+]?(\d+\.?\d*|\.\d+)$/.test(trimmed)) return parseFloat(trimmed);
+  const match = trimmed.match(IMPERIAL_PATTERN);
+  if (!match) return null;
+  const [, minus, feet, inches, numerator, denominator, inchMark] = match;
+  const hasFeet = feet !== undefined;
+  // Without a foot mark, bare numbers are ambiguous; require the inch mark.
+  if (!hasFeet && !inchMark) return null;
+  if (!hasFeet && inches === undefined && numerator === undefined) return null;
+  if (denominator !== undefined && Number(denominator) === 0) return null;
+  const fraction = numerator !== undefined ? Number(numerator) / Number(denominator) : 0;
+  const totalInches = (hasFeet ? Number(feet) * 12 : 0) + Number(inches ?? 0) + fraction;
+  const value = unitFactor('in', units) * totalInches;
+  return minus ? -value : value;
+}
@@ -1,4 +1,12 @@
-import type { PartitionDirection, RectHandle, RectShape, PolygonShape, MultiPolygonShape, EllipseShape } from './types';
+import type {
+  ArrayLayout,
+  PartitionDirection,
+  RectHandle,
+  RectShape,
+  PolygonShape,
+  MultiPolygonShape,
+  EllipseShape,
+} from './types';
 
 export const MIN_SIZE = 0.25;
 
@@ -44,10 +52,144 @@ export function rotatePolygon(points: { x: number; y: number }[], center: { x: n
   return points.map((p) => rotatePoint(p, center, angle));
 }
 
+/** Angle in degrees normalised to [0, 360). */
+export function normalizeAngle(degrees: number) {
+  return ((degrees % 360) + 360) % 360;
+}
+
+/**
+ * Corners of a rect in world space (nw, ne, se, sw before rotation), applying its
+ * clockwise `rotation` about the centre.
+ */
+export function rectCorners(rect: RectShape) {
+  const corners = [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+    { x: rect.x, y: rect.y + rect.height },
+  ];
+  return rect.rotation ? rotatePolygon(corners, rectCenter(rect), rect.rotation) : corners;
+}
+
+/** Outline of an ellipse sampled as a polygon, applying its rotation. */
+export function ellipsePoints(ellipse: EllipseShape, segments = 48) {
+  const points: { x: number; y: number }[] = [];
+  for (let i = 0; i < segments; i += 1) {
+    const angle = (i / segments) * Math.PI * 2;
+    points.push({ x: ellipse.cx + Math.cos(angle) * ellipse.rx, y: ellipse.cy + Math.sin(angle) * ellipse.ry });
+  }
+  return ellipse.rotation ? rotatePolygon(points, { x: ellipse.cx, y: ellipse.cy }, ellipse.rotation) : points;
+}
+
+/**
+ * Rotates a shape clockwise by `angle` degrees about `center`. Rects and ellipses keep their
+ * size and gain a `rotation`; polygon points are rotated in place.
+ */
+export function rotateShape<T extends RectShape | PolygonShape | MultiPolygonShape | EllipseShape>(
+  shape: T,
+  center: { x: number; y: number },
+  angle: number,
+): T {
+  if (shape.type === 'rect') {
+    const moved = rotatePoint(rectCenter(shape), center, angle);
+    const rotation = normalizeAngle((shape.rotation ?? 0) + angle) || undefined;
+    return { ...shape, x: moved.x - shape.width / 2, y: moved.y - shape.height / 2, rotation };
+  }
+  if (shape.type === 'ellipse') {
+    const moved = rotatePoint({ x: shape.cx, y: shape.cy }, center, angle);
+    const rotation = normalizeAngle((shape.rotation ?? 0) + angle) || undefined;
+    return { ...shape, cx: moved.x, cy: moved.y, rotation };
+  }
+  if (shape.type === 'polygon') {
+    return {
+      ...shape,
+      points: rotatePolygon(shape.points, center, angle),
+      holes: shape.holes?.map((hole) => rotatePolygon(hole, center, angle)),
+    };
+  }
+  return {
+    ...shape,
+    polygons: shape.polygons.map((poly) => rotatePolygon(poly, center, angle)),
+    holes: shape.holes?.map((holeList) => holeList.map((hole) => rotatePolygon(hole, center, angle))),
+  };
+}
+
+function scalePoint(point: { x: number; y: number }, origin: { x: number; y: number }, sx: number, sy: number) {
+  return { x: origin.x + (point.x - origin.x) * sx, y: origin.y + (point.y - origin.y) * sy };
+}
+
+/**
+ * Scales a shape about `origin` by positive factors. A rotated rect or ellipse scaled unevenly
+ * would shear, so it becomes a polygon, except at quarter turns where its axes swap onto the plan's.
+ */
+export function scaleShape(
+  shape: RectShape | PolygonShape | MultiPolygonShape | EllipseShape,
+  origin: { x: number; y: number },
+  sx: number,
+  sy: number,
+): RectShape | PolygonShape | MultiPolygonShape | EllipseShape {
+  const scalePoints = (points: { x: number; y: number }[]) => points.map((p) => scalePoint(p, origin, sx, sy));
+  if ((shape.type === 'rect' || shape.type === 'ellipse') && shape.rotation && sx !== sy) {
+    const quarterTurns = shape.rotation / 90;
+    if (Math.abs(quarterTurns - Math.round(quarterTurns)) > 1e-9) {
+      return { type: 'polygon', points: scalePoints(shape.type === 'rect' ? rectCorners(shape) : ellipsePoints(shape)) };
+    }
+  }
+  // Factors along the shape's own axes: a quarter or three-quarter turn lays width along plan Y.
+  const rotation = shape.type === 'rect' || shape.type === 'ellipse' ? (shape.rotation ?? 0) : 0;
+  const swapped = Math.round(rotation / 90) % 2 === 1;
+  const [kx, ky] = swapped ? [sy, sx] : [sx, sy];
+  if (shape.type === 'rect') {
+    const center = scalePoint(rectCenter(shape), origin, sx, sy);
+    const width = shape.width * kx;
+    const height = shape.height * ky;
+    return {
+      ...shape,
+      x: center.x - width / 2,
+      y: center.y - height / 2,
+      width,
+      height,
+      ...(shape.cornerRadius !== undefined ? { cornerRadius: shape.cornerRadius * Math.min(sx, sy) } : {}),
+    };
+  }
+  if (shape.type === 'ellipse') {
+    const center = scalePoint({ x: shape.cx, y: shape.cy }, origin, sx, sy);
+    return { ...shape, cx: center.x, cy: center.y, rx: shape.rx * kx, ry: shape.ry * ky };
+  }
+  if (shape.type === 'polygon') {
+    return { ...shape, points: scalePoints(shape.points), holes: shape.holes?.map(scalePoints) };
+  }
+  return {
+    ...shape,
+    polygons: shape.polygons.map(scalePoints),
+    holes: shape.holes?.map((holeList) => holeList.map(scalePoints)),
+  };
+}
+
 export function translatePolygon(points: { x: number; y: number }[], delta: { dx: number; dy: number }) {
   return points.map((p) => ({ x: p.x + delta.dx, y: p.y + delta.dy }));
 }
 
+export function translateShape<T extends RectShape | PolygonShape | MultiPolygonShape | EllipseShape>(
+  shape: T,
+  delta: { dx: number; dy: number },
+): T {
+  if (shape.type === 'rect') return { ...shape, x: shape.x + delta.dx, y: shape.y + delta.dy };
+  if (shape.type === 'ellipse') return { ...shape, cx: shape.cx + delta.dx, cy: shape.cy + delta.dy };
+  if (shape.type === 'polygon') {
+    return {
+      ...shape,
+      points: translatePolygon(shape.points, delta),
+      holes: shape.holes?.map((hole) => translatePolygon(hole, delta)),
+    };
+  }
+  return {
+    ...shape,
+    polygons: shape.polygons.map((poly) => translatePolygon(poly, delta)),
+    holes: shape.holes?.map((holeList) => holeList.map((hole) => translatePolygon(hole, delta))),
+  };
+}
+
 export function clampPolygonToBounds(points: { x: number; y: number }[], bounds: { width: number; height: number }) {
   const xs = points.map((p) => p.x);
   const ys = points.map((p) => p.y);
@@ -130,7 +272,63 @@ export function applyRectResize(
   return { ...rect, x, y, width, height };
 }
 
+/** Position of a resize handle in plan space, following the rect's rotation. */
+export function rectHandlePoint(rect: RectShape, handle: RectHandle) {
+  const point = {
+    x: handle.includes('w') ? rect.x : handle.includes('e') ? rect.x + rect.width : rect.x + rect.width / 2,
+    y: handle.includes('n') ? rect.y : handle.includes('s') ? rect.y + rect.height : rect.y + rect.height / 2,
+  };
+  return rect.rotation ? rotatePoint(point, rectCenter(rect), rect.rotation) : point;
+}
+
+const OPPOSITE_SIDES: Record<string, string> = { n: 's', s: 'n', e: 'w', w: 'e' };
+
+export function oppositeHandle(handle: RectHandle) {
+  return handle.replace(/[nsew]/g, (side) => OPPOSITE_SIDES[side]) as RectHandle;
+}
+
+/**
+ * `applyRectResize` for a rect that may be rotated: the pointer delta is taken in the rect's
+ * own frame and the opposite side stays put in world space, unless that would leave the plan.
+ */
+export function resizeRotatedRect(
+  rect: RectShape,
+  handle: RectHandle,
+  delta: { dx: number; dy: number },
+  bounds: { width: number; height: number },
+  min = MIN_SIZE,
+): RectShape {
+  if (!rect.rotation) return applyRectResize(rect, handle, delta, bounds, min);
+  const local = rotatePoint({ x: delta.dx, y: delta.dy }, { x: 0, y: 0 }, -rect.rotation);
+  let { x, y, width, height } = rect;
+  if (handle.includes('e')) width = Math.max(min, width + local.x);
+  if (handle.includes('s')) height = Math.max(min, height + local.y);
+  if (handle.includes('w')) {
+    const nextWidth = Math.max(min, width - local.x);
+    x += width - nextWidth;
+    width = nextWidth;
+  }
+  if (handle.includes('n')) {
+    const nextHeight = Math.max(min, height - local.y);
+    y += height - nextHeight;
+    height = nextHeight;
+  }
+  const center = rotatePoint({ x: x + width / 2, y: y + height / 2 }, rectCenter(rect), rect.rotation);
+  return shiftIntoBounds({ ...rect, x: center.x - width / 2, y: center.y - height / 2, width, height }, bounds);
+}
+
+/** Moves a rotated rect so its rotated outline lies inside the bounds where it fits; its size is kept. */
+function shiftIntoBounds(rect: RectShape, bounds: { width: number; height: number }): RectShape {
+  const box = shapeBoundingBox(rect);
+  const dx = clamp(box.x, 0, Math.max(0, bounds.width - box.width)) - box.x;
+  const dy = clamp(box.y, 0, Math.max(0, bounds.height - box.height)) - box.y;
+  return { ...rect, x: rect.x + dx, y: rect.y + dy };
+}
+
 export function constrainRectToBounds(rect: RectShape, bounds: { width: number; height: number }, min = MIN_SIZE) {
+  if (rect.rotation) {
+    return shiftIntoBounds({ ...rect, width: Math.max(min, rect.width), height: Math.max(min, rect.height) }, bounds);
+  }
   const x = clamp(rect.x, 0, Math.max(0, bounds.width - min));
   const y = clamp(rect.y, 0, Math.max(0, bounds.height - min));
   const width = clamp(rect.width, min, bounds.width - x);
@@ -139,6 +337,7 @@ export function constrainRectToBounds(rect: RectShape, bounds: { width: number;
 }
 
 export function moveRect(rect: RectShape, delta: { dx: number; dy: number }, bounds: { width: number; height: number }) {
+  if (rect.rotation) return shiftIntoBounds({ ...rect, x: rect.x + delta.dx, y: rect.y + delta.dy }, bounds);
   const x = clamp(rect.x + delta.dx, 0, Math.max(0, bounds.width - rect.width));
   const y = clamp(rect.y + delta.dy, 0, Math.max(0, bounds.height - rect.height));
   return { ...rect, x, y };
@@ -212,6 +411,7 @@ export function splitRectEvenly(rect: RectShape, count: number, direction: Parti
 }
 
 export function pointInRect(point: { x: number; y: number }, rect: RectShape) {
+  if (rect.rotation) return pointInRect(rotatePoint(point, rectCenter(rect), -rect.rotation), { ...rect, rotation: 0 });
   return (
     point.x >= rect.x &&
     point.x <= rect.x + rect.width &&
@@ -221,16 +421,21 @@ export function pointInRect(point: { x: number; y: number }, rect: RectShape) {
 }
 
 export function shapeBoundingBox(shape: RectShape | PolygonShape | MultiPolygonShape | EllipseShape) {
-  if (shape.type === 'rect') {
+  if (shape.type === 'rect' && !shape.rotation) {
     return { x: shape.x, y: shape.y, width: shape.width, height: shape.height };
   }
   if (shape.type === 'ellipse') {
-    return { x: shape.cx - shape.rx, y: shape.cy - shape.ry, width: shape.rx * 2, height: shape.ry * 2 };
+    const rad = ((shape.rotation ?? 0) * Math.PI) / 180;
+    const halfWidth = Math.hypot(shape.rx * Math.cos(rad), shape.ry * Math.sin(rad));
+    const halfHeight = Math.hypot(shape.rx * Math.sin(rad), shape.ry * Math.cos(rad));
+    return { x: shape.cx - halfWidth, y: shape.cy - halfHeight, width: halfWidth * 2, height: halfHeight * 2 };
   }
   const pts =
-    shape.type === 'polygon'
-      ? shape.points.concat(shape.holes?.flat() ?? [])
-      : shape.polygons.flat().concat(shape.holes?.flat(2) ?? []);
+    shape.type === 'rect'
+      ? rectCorners(shape)
+      : shape.type === 'polygon'
+        ? shape.points.concat(shape.holes?.flat() ?? [])
+        : shape.polygons.flat().concat(shape.holes?.flat(2) ?? []);
   const xs = pts.map((p: { x: number; y: number }) => p.x);
   const ys = pts.map((p: { x: number; y: number }) => p.y);
   const minX = Math.min(...xs);
@@ -240,6 +445,46 @@ export function shapeBoundingBox(shape: RectShape | PolygonShape | MultiPolygonS
   return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
 }
 
+/** Combined bounds of several shapes; callers pass at least one. */
+export function shapesBoundingBox(shapes: (RectShape | PolygonShape | MultiPolygonShape | EllipseShape)[]) {
+  const boxes = shapes.map(shapeBoundingBox);
+  const minX = Math.min(...boxes.map((b) => b.x));
+  const minY = Math.min(...boxes.map((b) => b.y));
+  const maxX = Math.max(...boxes.map((b) => b.x + b.width));
+  const maxY = Math.max(...boxes.map((b) => b.y + b.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Offsets of each array copy from the originals, in naming order; the grid runs row by row.
+ * Copies that would leave the plan boundary are skipped rather than squeezed against its edge.
+ */
+export function arrayOffsets(
+  layout: ArrayLayout,
+  bounds: { x: number; y: number; width: number; height: number },
+  canvas: { width: number; height: number },
+) {
+  const offsets: { dx: number; dy: number }[] = [];
+  if (layout.kind === 'linear') {
+    for (let i = 1; i <= layout.count; i += 1) offsets.push({ dx: layout.dx * i, dy: layout.dy * i });
+  } else {
+    for (let row = 0; row < layout.rows; row += 1) {
+      for (let column = 0; column < layout.columns; column += 1) {
+        if (row || column) {
+          offsets.push({ dx: (bounds.width + layout.gapX) * column, dy: (bounds.height + layout.gapY) * row });
+        }
+      }
+    }
+  }
+  return offsets.filter(
+    ({ dx, dy }) =>
+      bounds.x + dx >= 0 &&
+      bounds.y + dy >= 0 &&
+      bounds.x + bounds.width + dx <= canvas.width &&
+      bounds.y + bounds.height + dy <= canvas.height,
+  );
+}
+
 export function snapAngle(angle: number, enabled: boolean) {
   if (!enabled) return angle;
   const snaps = [0, 15, 30, 45, 90, 135, 180, 225, 270, 315];
@@ -272,12 +517,32 @@ export function polygonAreaWithHoles(points: { x: number; y: number }[], holes:
   return Math.max(0, outer - holeArea);
 }
 
+export function shapeArea(shape: RectShape | PolygonShape | MultiPolygonShape | EllipseShape) {
+  if (shape.type === 'rect') {
+    return Math.abs(shape.width * shape.height);
+  }
+  if (shape.type === 'ellipse') {
+    return Math.abs(Math.PI * shape.rx * shape.ry);
+  }
+  if (shape.type === 'polygon') {
+    return polygonAreaWithHoles(shape.points, shape.holes);
+  }
+  return shape.polygons.reduce((acc, poly, idx) => acc + polygonAreaWithHoles(poly, shape.holes?.[idx]), 0);
+}
+
 export function ellipseToRect(ellipse: EllipseShape): RectShape {
-  return { type: 'rect', x: ellipse.cx - ellipse.rx, y: ellipse.cy - ellipse.ry, width: ellipse.rx * 2, height: ellipse.ry * 2 };
+  return {
+    type: 'rect',
+    x: ellipse.cx - ellipse.rx,
+    y: ellipse.cy - ellipse.ry,
+    width: ellipse.rx * 2,
+    height: ellipse.ry * 2,
+    ...(ellipse.rotation ? { rotation: ellipse.rotation } : {}),
+  };
 }
 
 export function rectToEllipse(rect: RectShape): EllipseShape {
   const rx = rect.width / 2;
   const ry = rect.height / 2;
-  return { type: 'ellipse', cx: rect.x + rx, cy: rect.y + ry, rx, ry };
+  return { type: 'ellipse', cx: rect.x + rx, cy: rect.y + ry, rx, ry, ...(rect.rotation ? { rotation: rect.rotation } : {}) };
 }
@@ -1,20 +1,137 @@
-import type { AreaGroup, Plan } from './types';
+import { activeLevel } from './levels';
+import type { AreaGroup, Level, Plan } from './types';
 
+/**
+ * Areas belong to at most one group directly. When every area already sits in the same group,
+ * the new group nests inside it.
+ */
 export function addGroup(plan: Plan, name: string, areaIds: string[]): Plan {
   const next = structuredClone ? structuredClone(plan) : JSON.parse(JSON.stringify(plan));
+  const level = activeLevel(next);
+  const owners = new Set(areaIds.map((areaId) => directGroup(level, areaId)?.id));
+  const [owner] = owners;
   const group: AreaGroup = { id: crypto.randomUUID(), name, areaIds, visible: true };
-  next.areaGroups = [...(next.areaGroups ?? []), group];
+  if (owners.size === 1 && owner) group.parentId = owner;
+  level.areaGroups = [...withoutMembers(level.areaGroups ?? [], areaIds), group];
   return next;
 }
 
+function withoutMembers(groups: AreaGroup[], areaIds: string[]): AreaGroup[] {
+  return groups.map((g) => ({ ...g, areaIds: g.areaIds.filter((id) => !areaIds.includes(id)) }));
+}
+
+function directGroup(level: Level, areaId: string): AreaGroup | undefined {
+  return (level.areaGroups ?? []).find((group) => group.areaIds.includes(areaId));
+}
+
+function findGroup(level: Level, id: string | undefined): AreaGroup | undefined {
+  if (!id) return undefined;
+  return (level.areaGroups ?? []).find((group) => group.id === id);
+}
+
+/** The group followed by its enclosing groups, innermost first. */
+export function groupAncestors(level: Level, id: string): AreaGroup[] {
+  const chain: AreaGroup[] = [];
+  let group = findGroup(level, id);
+  while (group && !chain.includes(group)) {
+    chain.push(group);
+    group = findGroup(level, group.parentId);
+  }
+  return chain;
+}
+
+/** Ids of the group and every group nested inside it. */
+export function groupDescendantIds(level: Level, id: string): string[] {
+  const ids = [id];
+  for (let i = 0; i < ids.length; i += 1) {
+    (level.areaGroups ?? []).forEach((group) => {
+      if (group.parentId === ids[i] && !ids.includes(group.id)) ids.push(group.id);
+    });
+  }
+  return ids;
+}
+
+/** Members of the group and of its nested groups. */
+export function groupAreaIds(level: Level, id: string): string[] {
+  const groupIds = groupDescendantIds(level, id);
+  const ids = (level.areaGroups ?? []).filter((group) => groupIds.includes(group.id)).flatMap((group) => group.areaIds);
+  return Array.from(new Set(ids));
+}
+
+/** Groups that contain the area directly or through nesting. */
+export function enclosingGroups(level: Level, areaId: string): AreaGroup[] {
+  const direct = directGroup(level, areaId);
+  return direct ? groupAncestors(level, direct.id) : [];
+}
+
 export function toggleGroupVisibility(plan: Plan, id: string, visible: boolean): Plan {
   const next = structuredClone ? structuredClone(plan) : JSON.parse(JSON.stringify(plan));
-  next.areaGroups = (next.areaGroups ?? []).map((g: AreaGroup) => (g.id === id ? { ...g, visible } : g));
+  const level = activeLevel(next);
+  level.areaGroups = (level.areaGroups ?? []).map((g: AreaGroup) => (g.id === id ? { ...g, visible } : g));
+  return next;
+}
+
+export function setGroupLocked(plan: Plan, id: string, locked: boolean): Plan {
+  const next = structuredClone ? structuredClone(plan) : JSON.parse(JSON.stringify(plan));
+  const level = activeLevel(next);
+  level.areaGroups = (level.areaGroups ?? []).map((g: AreaGroup) => (g.id === id ? { ...g, locked } : g));
+  return next;
+}
+
+export function setGroupName(plan: Plan, id: string, name: string): Plan {
+  const next = structuredClone ? structuredClone(plan) : JSON.parse(JSON.stringify(plan));
+  const level = activeLevel(next);
+  level.areaGroups = (level.areaGroups ?? []).map((g: AreaGroup) => (g.id === id ? { ...g, name } : g));
+  return next;
+}
+
+/** Outermost group containing the area; dragging a member moves this group. */
+export function groupForArea(level: Level, areaId: string): AreaGroup | undefined {
+  return enclosingGroups(level, areaId).at(-1);
+}
+
+export function isAreaGroupHidden(level: Level, areaId: string) {
+  return enclosingGroups(level, areaId).some((group) => group.visible === false);
+}
+
+/** Whether `id` may move under `parentId` without creating a cycle. */
+export function canNestGroup(level: Level, id: string, parentId: string | null) {
+  if (parentId === null) return true;
+  return !!findGroup(level, parentId) && !groupDescendantIds(level, id).includes(parentId);
+}
+
+export function setGroupParent(plan: Plan, id: string, parentId: string | null): Plan {
+  const next = structuredClone ? structuredClone(plan) : JSON.parse(JSON.stringify(plan));
+  const level = activeLevel(next);
+  const group = findGroup(level, id);
+  if (!group) return next;
+  if (parentId) group.parentId = parentId;
+  else delete group.parentId;
+  return next;
+}
+
+export function setAreasGroup(plan: Plan, areaIds: string[], groupId: string | null): Plan {
+  const next = structuredClone ? structuredClone(plan) : JSON.parse(JSON.stringify(plan));
+  const level = activeLevel(next);
+  level.areaGroups = withoutMembers(level.areaGroups ?? [], areaIds).map((g) =>
+    g.id === groupId ? { ...g, areaIds: [...g.areaIds, ...areaIds] } : g,
+  );
   return next;
 }
 
+/** Nested groups and members move up to the deleted group's parent. */
 export function deleteGroup(plan: Plan, id: string): Plan {
   const next = structuredClone ? structuredClone(plan) : JSON.parse(JSON.stringify(plan));
-  next.areaGroups = (next.areaGroups ?? []).filter((g: AreaGroup) => g.id !== id);
+  const level = activeLevel(next);
+  const removed = findGroup(level, id);
+  if (!removed) return next;
+  level.areaGroups = (level.areaGroups ?? []).filter((g: AreaGroup) => g.id !== id);
+  level.areaGroups.forEach((g: AreaGroup) => {
+    if (g.parentId === id) {
+      if (removed.parentId) g.parentId = removed.parentId;
+      else delete g.parentId;
+    }
+    if (g.id === removed.parentId) g.areaIds = [...g.areaIds, ...removed.areaIds];
+  });
   return next;
 }
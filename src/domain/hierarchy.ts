@@ -0,0 +1,80 @@
+import { groupAreaIds } from './grouping';
+import type { Area, AreaGroup, Level } from './types';
+
+/**
+ * Navigator tree for a level. Groups hold their nested groups and member areas; areas hold
+ * the areas divided from them. When a divided area no longer exists its children sit under a
+ * `lineage` node carrying the removed area's id.
+ */
+export type HierarchyNode =
+  | { kind: 'group'; id: string; group: AreaGroup; children: HierarchyNode[] }
+  | { kind: 'area'; id: string; area: Area; children: HierarchyNode[] }
+  | { kind: 'lineage'; id: string; name: string; children: HierarchyNode[] };
+
+/** "Office A", "Office B" → "Office"; the parent's own name is gone once it is divided. */
+function lineageName(children: Area[]) {
+  const base = children[0]?.name.replace(/\s+\S$/, '') ?? '';
+  return `${base || 'Area'} (divided)`;
+}
+
+function areaNodes(areas: Area[]): HierarchyNode[] {
+  const ids = new Set(areas.map((area) => area.id));
+  const childrenOf = (parentId: string, seen: Set<string>): HierarchyNode[] =>
+    areas
+      .filter((area) => area.parentId === parentId && !seen.has(area.id))
+      .map((area) => ({
+        kind: 'area',
+        id: area.id,
+        area,
+        children: childrenOf(area.id, new Set([...seen, area.id])),
+      }));
+  const nodes: HierarchyNode[] = [];
+  const orphans = new Map<string, Area[]>();
+  areas.forEach((area) => {
+    if (area.parentId && ids.has(area.parentId)) return;
+    if (area.parentId) {
+      orphans.set(area.parentId, [...(orphans.get(area.parentId) ?? []), area]);
+      return;
+    }
+    nodes.push({ kind: 'area', id: area.id, area, children: childrenOf(area.id, new Set([area.id])) });
+  });
+  orphans.forEach((children, parentId) => {
+    nodes.push({
+      kind: 'lineage',
+      id: parentId,
+      name: lineageName(children),
+      children: children.map((area) => ({
+        kind: 'area',
+        id: area.id,
+        area,
+        children: childrenOf(area.id, new Set([area.id])),
+      })),
+    });
+  });
+  return nodes;
+}
+
+export function buildHierarchy(level: Level): HierarchyNode[] {
+  const groups = level.areaGroups ?? [];
+  const groupIds = new Set(groups.map((group) => group.id));
+  const grouped = new Set<string>();
+  const groupNode = (group: AreaGroup, seen: Set<string>): HierarchyNode => {
+    const members = level.areas.filter((area) => group.areaIds.includes(area.id) && !grouped.has(area.id));
+    members.forEach((area) => grouped.add(area.id));
+    const nested = groups
+      .filter((child) => child.parentId === group.id && !seen.has(child.id))
+      .map((child) => groupNode(child, new Set([...seen, child.id])));
+    return { kind: 'group', id: group.id, group, children: [...nested, ...areaNodes(members)] };
+  };
+  const roots = groups
+    .filter((group) => !group.parentId || !groupIds.has(group.parentId))
+    .map((group) => groupNode(group, new Set([group.id])));
+  return [...roots, ...areaNodes(level.areas.filter((area) => !grouped.has(area.id)))];
+}
+
+/** Every area at or beneath the node; selecting a node selects these. */
+export function nodeAreaIds(level: Level, node: HierarchyNode): string[] {
+  const own = node.kind === 'area' ? [node.id] : node.kind === 'group' ? groupAreaIds(level, node.id) : [];
+  const nested = node.children.flatMap((child) => nodeAreaIds(level, child));
+  return Array.from(new Set([...own, ...nested])).filter((id) => level.areas.some((area) => area.id === id));
+}
@@ -1,16 +1,46 @@
+import { activeLevel } from './levels';
+import { migratePlan } from './migrations';
+import type { PlanDocument } from './migrations';
+import { repairPlan, validatePlan } from './validation';
+import type { ValidationError } from './validation';
+import type { ReportScope } from './reports';
 import type { Plan } from './types';
 
-export function exportPlanToJson(plan: Plan): string {
-  return JSON.stringify(plan, null, 2);
+export type PlanImportResult =
+  | { ok: true; plan: Plan; migratedFrom?: string; repairs?: string[] }
+  | { ok: false; error: string; issues?: ValidationError[] };
+
+export type PlanImportOptions = {
+  /** Drop or fix invalid entries instead of rejecting the file. */
+  repair?: boolean;
+};
+
+export function exportPlanToJson(plan: Plan, scope: ReportScope = 'building'): string {
+  if (scope === 'building') return JSON.stringify(plan, null, 2);
+  const level = activeLevel(plan);
+  return JSON.stringify({ ...plan, levels: [level], activeLevelId: level.id }, null, 2);
 }
 
-export function importPlanFromJson(json: string): Plan | null {
+export function importPlanFromJson(json: string, options: PlanImportOptions = {}): PlanImportResult {
+  let parsed: unknown;
   try {
-    const parsed = JSON.parse(json) as Plan;
-    if (!parsed.version) return null;
-    return parsed;
+    parsed = JSON.parse(json);
   } catch (err) {
     console.error('Invalid plan JSON', err);
-    return null;
+    return { ok: false, error: 'File is not valid JSON.' };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { ok: false, error: 'File does not contain a plan object.' };
+  }
+  const migrated = migratePlan(parsed as PlanDocument);
+  if (!migrated.ok) return migrated;
+
+  const { valid, errors } = validatePlan(migrated.plan);
+  if (valid) return migrated;
+  if (!options.repair) {
+    return { ok: false, error: `Plan has ${errors.length} invalid field${errors.length === 1 ? '' : 's'}.`, issues: errors };
   }
+  const repaired = repairPlan(migrated.plan);
+  if (!repaired.plan) return { ok: false, error: 'Plan could not be repaired.', issues: errors };
+  return { ok: true, plan: repaired.plan, migratedFrom: migrated.migratedFrom, repairs: repaired.repairs };
 }
@@ -0,0 +1,91 @@
+import type { Area, Layer, Level, ReorderDirection } from './types';
+
+export function createLayer(name: string): Layer {
+  return { id: crypto.randomUUID(), name, visible: true, locked: false, opacity: 1 };
+}
+
+export function findLayer(level: Level, id: string | undefined): Layer | undefined {
+  if (!id) return undefined;
+  return level.layers.find((layer) => layer.id === id);
+}
+
+/** Layer new areas are drawn on; falls back to the topmost layer. */
+export function activeLayer(level: Level): Layer {
+  return findLayer(level, level.activeLayerId) ?? level.layers[level.layers.length - 1];
+}
+
+/** `preferred` when it names a layer on this level, otherwise the active layer's id. */
+export function resolveLayerId(level: Level, preferred?: string) {
+  return findLayer(level, preferred)?.id ?? activeLayer(level).id;
+}
+
+export function isAreaVisible(level: Level, area: Area) {
+  return findLayer(level, area.layerId)?.visible ?? true;
+}
+
+export function isAreaLocked(level: Level, area: Area) {
+  return findLayer(level, area.layerId)?.locked ?? false;
+}
+
+/** Ids from `ids` whose areas sit on visible, unlocked layers. */
+export function editableAreaIds(level: Level, ids: string[]) {
+  return ids.filter((id) => {
+    const area = level.areas.find((a) => a.id === id);
+    return !!area && isAreaVisible(level, area) && !isAreaLocked(level, area);
+  });
+}
+
+/**
+ * Areas in paint order: layers bottom to top (`level.layers` order), keeping the
+ * existing order of areas within a layer.
+ */
+export function areasInLayerOrder(level: Level, areas: Area[] = level.areas): Area[] {
+  const rank = new Map(level.layers.map((layer, idx) => [layer.id, idx]));
+  return areas
+    .map((area, idx) => ({ area, idx }))
+    .sort((a, b) => (rank.get(a.area.layerId) ?? 0) - (rank.get(b.area.layerId) ?? 0) || a.idx - b.idx)
+    .map(({ area }) => area);
+}
+
+export function nextLayerName(level: Level) {
+  const max = level.layers.reduce((acc, layer) => {
+    const match = layer.name.match(/^Layer (\d+)$/);
+    return match ? Math.max(acc, parseInt(match[1], 10)) : acc;
+  }, 0);
+  return `Layer ${max + 1}`;
+}
+
+function restack<T>(items: T[], selected: (item: T) => boolean, direction: ReorderDirection): T[] {
+  if (direction === 'front') return [...items.filter((item) => !selected(item)), ...items.filter(selected)];
+  if (direction === 'back') return [...items.filter(selected), ...items.filter((item) => !selected(item))];
+  const result = [...items];
+  // Step each selected item past one unselected neighbour; a selected block moves together.
+  if (direction === 'forward') {
+    for (let i = result.length - 2; i >= 0; i -= 1) {
+      if (selected(result[i]) && !selected(result[i + 1])) [result[i], result[i + 1]] = [result[i + 1], result[i]];
+    }
+  } else {
+    for (let i = 1; i < result.length; i += 1) {
+      if (selected(result[i]) && !selected(result[i - 1])) [result[i], result[i - 1]] = [result[i - 1], result[i]];
+    }
+  }
+  return result;
+}
+
+/**
+ * `areas` with the given ids moved within their own layers. Each layer's areas are restacked
+ * in the slots they already occupy, so other layers keep their positions in the array.
+ */
+export function reorderAreas(areas: Area[], ids: string[], direction: ReorderDirection): Area[] {
+  const result = [...areas];
+  const isSelected = (area: Area) => ids.includes(area.id);
+  const layerIds = new Set(areas.filter(isSelected).map((area) => area.layerId));
+  layerIds.forEach((layerId) => {
+    const slots = areas.flatMap((area, idx) => (area.layerId === layerId ? [idx] : []));
+    const restacked = restack(slots.map((idx) => areas[idx]), isSelected, direction);
+    slots.forEach((slot, idx) => {
+      result[slot] = restacked[idx];
+    });
+  });
+  return result;
+}
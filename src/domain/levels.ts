@@ -0,0 +1,35 @@
+import { createLayer } from './layers';
+import type { Level, Plan, Units } from './types';
+
+const DEFAULT_STOREY_HEIGHT: Record<Units, number> = { mm: 3000, cm: 300, m: 3, in: 120, ft: 10 };
+
+export function createLevel(name: string, elevation = 0): Level {
+  const layer = createLayer('Layer 1');
+  return {
+    id: crypto.randomUUID(),
+    name,
+    elevation,
+    layers: [layer],
+    activeLayerId: layer.id,
+    areas: [],
+    areaGroups: [],
+  };
+}
+
+export function findLevel(plan: Plan, id: string): Level | undefined {
+  return plan.levels.find((level) => level.id === id);
+}
+
+export function activeLevel(plan: Plan): Level {
+  return findLevel(plan, plan.activeLevelId) ?? plan.levels[0];
+}
+
+export function nextLevelElevation(plan: Plan) {
+  if (!plan.levels.length) return 0;
+  const highest = Math.max(...plan.levels.map((level) => level.elevation));
+  return highest + DEFAULT_STOREY_HEIGHT[plan.units];
+}
+
+export function sortedLevels(plan: Plan): Level[] {
+  return [...plan.levels].sort((a, b) => a.elevation - b.elevation);
+}
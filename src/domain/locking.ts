@@ -0,0 +1,72 @@
+import { enclosingGroups } from './grouping';
+import { findLayer } from './layers';
+import type { AreaGroup, Command, Layer, Level } from './types';
+
+/** Locked groups on the level that contain the area, directly or through nesting. */
+export function lockingGroups(level: Level, areaId: string): AreaGroup[] {
+  return enclosingGroups(level, areaId).filter((group) => group.locked);
+}
+
+export function isAreaGroupLocked(level: Level, areaId: string) {
+  return lockingGroups(level, areaId).length > 0;
+}
+
+/**
+ * Areas whose geometry, styling or existence a command changes. Locked groups protect
+ * exactly these; naming, label placement and stacking stay editable.
+ */
+export function commandAreaIds(command: Command): string[] {
+  switch (command.type) {
+    case 'area/move':
+    case 'area/move-polygon':
+    case 'area/resize':
+    case 'area/set-rect':
+    case 'area/set-ellipse':
+    case 'area/set-polygon':
+    case 'area/set-multipolygon':
+    case 'area/recolor':
+    case 'area/delete':
+    case 'area/mirror':
+    case 'area/divide':
+      return [command.payload.id];
+    case 'area/set-rect-batch':
+      return command.payload.updates.map((update) => update.id);
+    case 'area/move-multi':
+    case 'area/rotate':
+    case 'area/scale':
+    case 'area/align':
+    case 'area/distribute':
+    case 'area/merge':
+    case 'area/subtract':
+    case 'area/intersect':
+    case 'area/exclude':
+    case 'area/convert-to-polygon':
+    case 'area/set-room-type':
+      return command.payload.ids;
+    case 'area/offset':
+      return command.payload.output === 'replace' ? command.payload.ids : [];
+    default:
+      return [];
+  }
+}
+
+/** The area's layer, when that layer is locked. */
+export function lockingLayer(level: Level, areaId: string): Layer | undefined {
+  const layer = findLayer(level, level.areas.find((area) => area.id === areaId)?.layerId);
+  return layer?.locked ? layer : undefined;
+}
+
+/**
+ * Areas a locked layer protects: those `commandAreaIds` lists plus any the command restacks or
+ * copies, since a locked layer freezes its contents and order entirely.
+ */
+export function layerCommandAreaIds(command: Command): string[] {
+  switch (command.type) {
+    case 'area/reorder':
+    case 'area/array':
+    case 'area/offset':
+      return command.payload.ids;
+    default:
+      return commandAreaIds(command);
+  }
+}
@@ -0,0 +1,44 @@
+import { polygonArea } from './geometry';
+
+type Point = { x: number; y: number };
+
+export type MeasureReadout = {
+  /** Length of each clicked segment, including the closing one of a closed shape. */
+  segments: { a: Point; b: Point; length: number }[];
+  total: number;
+  /** Angle in degrees (0–180) between the two segments meeting at each vertex. */
+  angles: { at: Point; degrees: number }[];
+  /** Enclosed area once the path is closed. */
+  area: number | null;
+};
+
+function angleBetween(at: Point, a: Point, b: Point) {
+  const ua = { x: a.x - at.x, y: a.y - at.y };
+  const ub = { x: b.x - at.x, y: b.y - at.y };
+  const lengths = Math.hypot(ua.x, ua.y) * Math.hypot(ub.x, ub.y);
+  if (!lengths) return null;
+  const cos = (ua.x * ub.x + ua.y * ub.y) / lengths;
+  return (Math.acos(Math.max(-1, Math.min(1, cos))) * 180) / Math.PI;
+}
+
+/** Readouts for a measured path; nothing here touches the plan. */
+export function measurePath(points: Point[], closed: boolean): MeasureReadout {
+  const ring = closed && points.length >= 3;
+  const pairs = points.slice(1).map((b, idx) => ({ a: points[idx], b }));
+  if (ring) pairs.push({ a: points[points.length - 1], b: points[0] });
+  const segments = pairs.map(({ a, b }) => ({ a, b, length: Math.hypot(b.x - a.x, b.y - a.y) }));
+  const angles: MeasureReadout['angles'] = [];
+  points.forEach((at, idx) => {
+    const prev = idx > 0 ? points[idx - 1] : ring ? points[points.length - 1] : null;
+    const next = idx < points.length - 1 ? points[idx + 1] : ring ? points[0] : null;
+    if (!prev || !next) return;
+    const degrees = angleBetween(at, prev, next);
+    if (degrees !== null) angles.push({ at, degrees });
+  });
+  return {
+    segments,
+    total: segments.reduce((sum, segment) => sum + segment.length, 0),
+    angles,
+    area: ring ? polygonArea(points) : null,
+  };
+}
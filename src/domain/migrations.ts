@@ -0,0 +1,111 @@
+import type { Plan, PlanVersion } from './types';
+
+export const CURRENT_PLAN_VERSION: PlanVersion = '2.1';
+
+export type PlanDocument = { version?: unknown; [key: string]: unknown };
+
+type PlanMigration = {
+  from: string;
+  to: string;
+  migrate: (doc: PlanDocument) => PlanDocument;
+};
+
+export type PlanMigrationResult =
+  | { ok: true; plan: Plan; migratedFrom?: string }
+  | { ok: false; error: string };
+
+// Each entry upgrades a document by exactly one schema version. Loading walks the
+// chain from the file's version until it reaches CURRENT_PLAN_VERSION.
+const migrations: PlanMigration[] = [
+  {
+    // 1.0 kept a single flat floor; 2.0 moves it into the first entry of `levels`.
+    from: '1.0',
+    to: '2.0',
+    migrate: (doc) => {
+      const { areas, areaGroups, ...rest } = doc;
+      const levelId = crypto.randomUUID();
+      return {
+        ...rest,
+        levels: [
+          {
+            id: levelId,
+            name: 'Level 1',
+            elevation: 0,
+            areas: Array.isArray(areas) ? areas : [],
+            areaGroups: Array.isArray(areaGroups) ? areaGroups : [],
+          },
+        ],
+        activeLevelId: levelId,
+      };
+    },
+  },
+  {
+    // 2.1 adds ordered layers per level; existing areas keep their order on a single layer.
+    from: '2.0',
+    to: '2.1',
+    migrate: (doc) => ({
+      ...doc,
+      levels: Array.isArray(doc.levels)
+        ? doc.levels.map((level) => {
+            if (!level || typeof level !== 'object') return level;
+            const layerId = crypto.randomUUID();
+            const areas = Array.isArray(level.areas) ? level.areas : [];
+            return {
+              ...level,
+              layers: [{ id: layerId, name: 'Layer 1', visible: true, locked: false, opacity: 1 }],
+              activeLayerId: layerId,
+              areas: areas.map((area: unknown) => (area && typeof area === 'object' ? { ...area, layerId } : area)),
+            };
+          })
+        : doc.levels,
+    }),
+  },
+];
+
+function parseVersion(version: string) {
+  const match = version.match(/^(\d+)\.(\d+)$/);
+  if (!match) return null;
+  return [parseInt(match[1], 10), parseInt(match[2], 10)] as const;
+}
+
+export function compareVersions(a: string, b: string) {
+  const pa = parseVersion(a);
+  const pb = parseVersion(b);
+  if (!pa || !pb) return NaN;
+  return pa[0] !== pb[0] ? pa[0] - pb[0] : pa[1] - pb[1];
+}
+
+export function migratePlan(doc: PlanDocument): PlanMigrationResult {
+  if (typeof doc.version !== 'string' || !doc.version) {
+    return { ok: false, error: 'Plan file has no schema version.' };
+  }
+  const original = doc.version;
+  const order = compareVersions(original, CURRENT_PLAN_VERSION);
+  if (Number.isNaN(order)) {
+    return { ok: false, error: `Plan schema version "${original}" is not recognised.` };
+  }
+  if (order > 0) {
+    return {
+      ok: false,
+      error: `Plan schema version ${original} is newer than this editor supports (${CURRENT_PLAN_VERSION}). Update the editor to open this file.`,
+    };
+  }
+
+  let current = doc;
+  const visited = new Set<string>();
+  while (current.version !== CURRENT_PLAN_VERSION) {
+    const version = String(current.version);
+    const step = migrations.find((m) => m.from === version);
+    if (!step || visited.has(version)) {
+      return { ok: false, error: `No migration path from plan schema version ${version} to ${CURRENT_PLAN_VERSION}.` };
+    }
+    visited.add(version);
+    current = { ...step.migrate(current), version: step.to };
+  }
+
+  return {
+    ok: true,
+    plan: current as unknown as Plan,
+    migratedFrom: original !== CURRENT_PLAN_VERSION ? original : undefined,
+  };
+}
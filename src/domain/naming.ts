@@ -1,7 +1,8 @@
+import { activeLevel } from './levels';
 import type { Area, Plan } from './types';
 
 export function nextAreaIndex(plan: Plan) {
-  const max = plan.areas.reduce((acc, area) => {
+  const max = activeLevel(plan).areas.reduce((acc, area) => {
     const match = area.name.match(/(\d+)/);
     if (!match) return acc;
     return Math.max(acc, parseInt(match[1] ?? '0', 10));
@@ -23,6 +24,35 @@ export function partitionNames(base: string, count: number): string[] {
   });
 }
 
+/**
+ * Names for `count` copies of each base, listed copy by copy, that continue the number at the end
+ * of the base, keeping any zero padding (`Room 101` → `Room 102`, `Room 103`…); names without a
+ * number get ` 2`, ` 3`…. Names in `taken` or already handed out are skipped, so copies of
+ * `Room 101` and `Room 102` together run on to `Room 103`, `Room 104`….
+ */
+export function sequenceNames(bases: string[], count: number, taken: string[] = []): string[][] {
+  const used = new Set([...taken, ...bases]);
+  const sequences = bases.map((base) => {
+    const match = base.match(/^(.*?)(\d+)(\D*)$/);
+    let step = 0;
+    return () => {
+      let name: string;
+      do {
+        step += 1;
+        if (!match) {
+          name = `${base.replace(/\s+$/, '')} ${step + 1}`;
+        } else {
+          const [, prefix, digits, suffix] = match;
+          name = `${prefix}${String(parseInt(digits, 10) + step).padStart(digits.length, '0')}${suffix}`;
+        }
+      } while (used.has(name));
+      used.add(name);
+      return name;
+    };
+  });
+  return Array.from({ length: count }, () => sequences.map((next) => next()));
+}
+
 export function findArea(plan: Plan, id: string): Area | undefined {
-  return plan.areas.find((a) => a.id === id);
+  return activeLevel(plan).areas.find((a) => a.id === id);
 }
@@ -0,0 +1,227 @@
+import polygonClipping from 'polygon-clipping';
+import type { OffsetJoin } from './types';
+
+type Point = { x: number; y: number };
+type Ring = [number, number][];
+type PolygonRings = Ring[];
+
+/** Miter joins longer than this many times the distance are squared off instead. */
+export const MITER_LIMIT = 2;
+
+const ROUND_SEGMENTS = 32;
+const EPSILON = 1e-9;
+
+function unit(a: Point, b: Point): Point | null {
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  return length < EPSILON ? null : { x: (b.x - a.x) / length, y: (b.y - a.y) / length };
+}
+
+function along(p: Point, dir: Point, distance: number): Point {
+  return { x: p.x + dir.x * distance, y: p.y + dir.y * distance };
+}
+
+function dot(a: Point, b: Point) {
+  return a.x * b.x + a.y * b.y;
+}
+
+function signedArea(points: Point[]) {
+  let sum = 0;
+  points.forEach((p, idx) => {
+    const q = points[(idx + 1) % points.length];
+    sum += p.x * q.y - q.x * p.y;
+  });
+  return sum / 2;
+}
+
+function toPoints(ring: Ring): Point[] {
+  const points = ring.map(([x, y]) => ({ x, y }));
+  return points.filter((p, idx) => {
+    const prev = points[(idx - 1 + points.length) % points.length];
+    return Math.hypot(p.x - prev.x, p.y - prev.y) >= EPSILON;
+  });
+}
+
+function toRing(points: Point[]): Ring {
+  const ring: Ring = points.map((p) => [p.x, p.y]);
+  ring.push([points[0].x, points[0].y]);
+  return ring;
+}
+
+/**
+ * Corner on the outside of the turn at `p` from direction `u` into direction `v`: the points
+ * from the end of the incoming edge's offset to the start of the outgoing one.
+ */
+function joinPoints(p: Point, u: Point, v: Point, distance: number, join: OffsetJoin): Point[] {
+  const side = u.x * v.y - u.y * v.x >= 0 ? 1 : -1;
+  const n1 = { x: u.y * side, y: -u.x * side };
+  const n2 = { x: v.y * side, y: -v.x * side };
+  if (join === 'round') {
+    const start = Math.atan2(n1.y, n1.x);
+    const sweep = Math.acos(Math.max(-1, Math.min(1, dot(u, v))));
+    const steps = Math.max(1, Math.ceil((sweep / (Math.PI * 2)) * ROUND_SEGMENTS));
+    const arc = Array.from({ length: steps - 1 }, (_, i) => {
+      const angle = start + (side * sweep * (i + 1)) / steps;
+      return { x: p.x + Math.cos(angle) * distance, y: p.y + Math.sin(angle) * distance };
+    });
+    return [along(p, n1, distance), ...arc, along(p, n2, distance)];
+  }
+  // Bisector pointing away from the corner; a full reversal has none, so cap straight ahead.
+  const m = unit({ x: 0, y: 0 }, { x: n1.x + n2.x, y: n1.y + n2.y }) ?? u;
+  const cosHalf = dot(n1, m);
+  if (join === 'miter' && cosHalf >= 1 / MITER_LIMIT) {
+    return [along(p, n1, distance), along(p, m, distance / cosHalf), along(p, n2, distance)];
+  }
+  // Square: both offset edges run on until a line `distance` out along the bisector cuts them off.
+  const reach = (n: Point, dir: Point) => {
+    const cos = dot(dir, m);
+    return Math.abs(cos) < EPSILON ? 0 : (distance * (1 - dot(n, m))) / cos;
+  };
+  return [
+    along(p, n1, distance),
+    along(along(p, n1, distance), u, reach(n1, u)),
+    along(along(p, n2, distance), v, reach(n2, v)),
+    along(p, n2, distance),
+  ];
+}
+
+/**
+ * The ring moved `distance` away from the region it encloses (towards it when negative), with
+ * joins on corners that open up and plain miters on corners that close. Where the distance
+ * exceeds the local width the result loops over itself; see `removeBackwardLoops`.
+ */
+function offsetRing(points: Point[], distance: number, join: OffsetJoin): Point[] {
+  const away = Math.sign(signedArea(points)) * Math.sign(distance);
+  const d = Math.abs(distance);
+  const normal = (w: Point) => ({ x: w.y * away, y: -w.x * away });
+  const result: Point[] = [];
+  points.forEach((b, idx) => {
+    const a = points[(idx - 1 + points.length) % points.length];
+    const c = points[(idx + 1) % points.length];
+    const u = unit(a, b);
+    const v = unit(b, c);
+    if (!u || !v) return;
+    const cross = u.x * v.y - u.y * v.x;
+    if (Math.abs(cross) < EPSILON && dot(u, v) > 0) {
+      result.push(along(b, normal(u), d));
+    } else if ((cross >= 0 ? 1 : -1) === away) {
+      result.push(...joinPoints(b, u, v, d, join));
+    } else {
+      const n1 = normal(u);
+      const n2 = normal(v);
+      const m = unit({ x: 0, y: 0 }, { x: n1.x + n2.x, y: n1.y + n2.y });
+      const cosHalf = m ? dot(n1, m) : 0;
+      if (m && cosHalf > 1e-3) result.push(along(b, m, d / cosHalf));
+      else result.push(along(b, n1, d), along(b, n2, d));
+    }
+  });
+  return result;
+}
+
+function orient(a: Point, b: Point, c: Point) {
+  return (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+}
+
+/** First pair of non-adjacent edges of the closed ring that cross, by their start indices. */
+function firstCrossing(points: Point[]): [number, number] | null {
+  const n = points.length;
+  for (let i = 0; i < n; i += 1) {
+    const a = points[i];
+    const b = points[(i + 1) % n];
+    for (let j = i + 2; j < n; j += 1) {
+      if (i === 0 && j === n - 1) continue;
+      const c = points[j];
+      const e = points[(j + 1) % n];
+      if (orient(a, b, c) * orient(a, b, e) < 0 && orient(c, e, a) * orient(c, e, b) < 0) return [i, j];
+    }
+  }
+  return null;
+}
+
+/**
+ * Cuts the loops an offset ring throws where the distance exceeds the local curvature. Those
+ * loops run backwards relative to `orientation` and enclose nothing; what is left is the clean
+ * outline, or an empty ring when it all ran backwards. Returns null when a loop runs forwards,
+ * meaning the outline splits in two and needs real clipping.
+ */
+function removeBackwardLoops(points: Point[], orientation: number): Point[] | null {
+  let ring = points;
+  for (let guard = 0; guard < points.length; guard += 1) {
+    const crossing = firstCrossing(ring);
+    if (!crossing) return ring;
+    const [i, j] = crossing;
+    const a = ring[i];
+    const b = ring[i + 1];
+    const c = ring[j];
+    const e = ring[(j + 1) % ring.length];
+    const t = orient(c, e, a) / (orient(c, e, a) - orient(c, e, b));
+    const hit = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+    const loop = [hit, ...ring.slice(i + 1, j + 1)];
+    const rest = [...ring.slice(0, i + 1), hit, ...ring.slice(j + 1)];
+    const loopForward = Math.sign(signedArea(loop)) === orientation;
+    const restForward = Math.sign(signedArea(rest)) === orientation;
+    if (loopForward && restForward) return null;
+    if (!loopForward && !restForward) return [];
+    ring = loopForward ? loop : rest;
+  }
+  return null;
+}
+
+/**
+ * Convex pieces that together cover everything within `distance` of the rings' outlines, with
+ * corners shaped by `join`. Used when offset rings loop over themselves and need clipping apart.
+ */
+function offsetBand(rings: Point[][], distance: number, join: OffsetJoin): Point[][] {
+  const pieces: Point[][] = [];
+  rings.forEach((points) => {
+    if (points.length < 2) return;
+    points.forEach((a, idx) => {
+      const b = points[(idx + 1) % points.length];
+      const c = points[(idx + 2) % points.length];
+      const u = unit(a, b);
+      if (!u) return;
+      const normal = { x: -u.y, y: u.x };
+      pieces.push([
+        along(a, normal, distance),
+        along(b, normal, distance),
+        along(b, normal, -distance),
+        along(a, normal, -distance),
+      ]);
+      const v = unit(b, c);
+      if (v && !(Math.abs(u.x * v.y - u.y * v.x) < EPSILON && dot(u, v) > 0)) {
+        pieces.push([b, ...joinPoints(b, u, v, distance, join)]);
+      }
+    });
+  });
+  return pieces;
+}
+
+/**
+ * Grows (positive distance) or shrinks the polygons by `distance`. Each ring is offset on its
+ * own and the results clipped together, which keeps clipping to a few long edges; rings that
+ * split apart fall back to sweeping the band around every edge. polygon-clipping may still
+ * throw on degenerate input.
+ */
+export function offsetPolygons(subject: PolygonRings[], distance: number, join: OffsetJoin): PolygonRings[] {
+  const polygons = subject.map((polygon) =>
+    polygon.map((ring, idx) => {
+      const points = toPoints(ring);
+      const orientation = Math.sign(signedArea(points));
+      // Holes move the other way: growing the area shrinks its holes.
+      const raw = removeBackwardLoops(offsetRing(points, idx === 0 ? distance : -distance, join), orientation);
+      const gone = !raw || raw.length < 3 || Math.sign(signedArea(raw)) !== orientation || Math.abs(signedArea(raw)) < EPSILON;
+      return { points, raw: raw ?? [], split: !raw, gone };
+    }),
+  );
+  const rings = polygons.flat();
+  if (rings.some((ring) => ring.split)) {
+    const band = offsetBand(rings.map((ring) => ring.points), Math.abs(distance), join).map((piece) => [toRing(piece)]);
+    return distance > 0 ? polygonClipping.union(subject, ...band) : polygonClipping.difference(subject, ...band);
+  }
+  const parts = polygons
+    .filter(([outer]) => !outer.gone)
+    .map(([outer, ...holes]) => ({ outer: toRing(outer.raw), holes: holes.filter((hole) => !hole.gone).map((hole) => toRing(hole.raw)) }));
+  if (!parts.length) return [];
+  if (parts.length === 1 && !parts[0].holes.length) return [[parts[0].outer]];
+  const pieces = parts.map((part) => polygonClipping.difference([part.outer], ...part.holes.map((hole) => [hole])));
+  return polygonClipping.union(pieces[0], ...pieces.slice(1));
+}
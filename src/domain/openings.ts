@@ -0,0 +1,136 @@
+import { rectCorners } from './geometry';
+import type { Area, Opening, OpeningKind, Units } from './types';
+
+type Point = { x: number; y: number };
+
+export type AreaEdge = { key: string; a: Point; b: Point };
+
+export type ResolvedOpening = {
+  opening: Opening;
+  edge: AreaEdge;
+  /** Unit vector along the edge, from its start. */
+  along: Point;
+  /** Unit normal pointing into the host area. */
+  inward: Point;
+  /** Width actually drawn, capped to the edge length. */
+  width: number;
+  /** Offset actually drawn, kept far enough from the corners for the width to fit. */
+  offset: number;
+  start: Point;
+  end: Point;
+};
+
+export const DEFAULT_OPENING_WIDTH: Record<Units, Record<OpeningKind, number>> = {
+  mm: { door: 900, window: 1200 },
+  cm: { door: 90, window: 120 },
+  m: { door: 0.9, window: 1.2 },
+  in: { door: 36, window: 48 },
+  ft: { door: 3, window: 4 },
+};
+
+function signedArea(points: Point[]) {
+  let sum = 0;
+  for (let i = 0; i < points.length; i += 1) {
+    const current = points[i];
+    const next = points[(i + 1) % points.length];
+    sum += current.x * next.y - next.x * current.y;
+  }
+  return sum / 2;
+}
+
+function ringEdges(points: Point[], keyFor: (idx: number) => string): AreaEdge[] {
+  return points.map((point, idx) => ({ key: keyFor(idx), a: point, b: points[(idx + 1) % points.length] }));
+}
+
+/**
+ * Outer edges of an area keyed like `Area.edgeLabelOffsets`. Ellipses have no straight
+ * edges to host openings and return an empty list.
+ */
+export function areaEdges(area: Area): AreaEdge[] {
+  const shape = area.shape;
+  if (shape.type === 'rect') {
+    const [nw, ne, se, sw] = rectCorners(shape);
+    return [
+      { key: 'rect-top', a: nw, b: ne },
+      { key: 'rect-right', a: ne, b: se },
+      { key: 'rect-bottom', a: se, b: sw },
+      { key: 'rect-left', a: sw, b: nw },
+    ];
+  }
+  if (shape.type === 'polygon') return ringEdges(shape.points, (idx) => `edge-${idx}`);
+  if (shape.type === 'multipolygon') {
+    return shape.polygons.flatMap((poly, polyIdx) => ringEdges(poly, (idx) => `poly-${polyIdx}-edge-${idx}`));
+  }
+  return [];
+}
+
+function ringForEdge(area: Area, edgeKey: string): Point[] | null {
+  const shape = area.shape;
+  if (shape.type === 'polygon') return shape.points;
+  if (shape.type === 'multipolygon') {
+    const match = edgeKey.match(/^poly-(\d+)-edge-\d+$/);
+    return match ? shape.polygons[parseInt(match[1], 10)] ?? null : null;
+  }
+  return null;
+}
+
+export function resolveOpening(opening: Opening, area: Area): ResolvedOpening | null {
+  const edge = areaEdges(area).find((e) => e.key === opening.edgeKey);
+  if (!edge) return null;
+  const dx = edge.b.x - edge.a.x;
+  const dy = edge.b.y - edge.a.y;
+  const length = Math.hypot(dx, dy);
+  if (!Number.isFinite(length) || length <= 0) return null;
+  const along = { x: dx / length, y: dy / length };
+  // Rect edges run clockwise on screen, so their left normal points inside; polygons can
+  // be wound either way.
+  const ring = ringForEdge(area, opening.edgeKey);
+  const flip = ring && signedArea(ring) < 0 ? -1 : 1;
+  const inward = { x: -along.y * flip, y: along.x * flip };
+  const width = Math.min(opening.width, length);
+  const offset = clampOpeningOffset(opening.offset, width, length);
+  return {
+    opening,
+    edge,
+    along,
+    inward,
+    width,
+    offset,
+    start: { x: edge.a.x + along.x * (offset - width / 2), y: edge.a.y + along.y * (offset - width / 2) },
+    end: { x: edge.a.x + along.x * (offset + width / 2), y: edge.a.y + along.y * (offset + width / 2) },
+  };
+}
+
+export function clampOpeningOffset(offset: number, width: number, edgeLength: number) {
+  const half = Math.min(width, edgeLength) / 2;
+  return Math.max(half, Math.min(edgeLength - half, offset));
+}
+
+/** Distance along the edge from its start to the projection of `point`. */
+export function offsetAlongEdge(edge: AreaEdge, point: Point) {
+  const dx = edge.b.x - edge.a.x;
+  const dy = edge.b.y - edge.a.y;
+  const length = Math.hypot(dx, dy);
+  if (length <= 0) return 0;
+  const t = ((point.x - edge.a.x) * dx + (point.y - edge.a.y) * dy) / length;
+  return Math.max(0, Math.min(length, t));
+}
+
+/** Closest area edge to `point` within `tolerance`, used to place openings by clicking. */
+export function nearestAreaEdge(areas: Area[], point: Point, tolerance: number) {
+  let best: { area: Area; edge: AreaEdge; distance: number } | null = null;
+  for (const area of areas) {
+    for (const edge of areaEdges(area)) {
+      const length = Math.hypot(edge.b.x - edge.a.x, edge.b.y - edge.a.y);
+      if (length <= 0) continue;
+      const offset = offsetAlongEdge(edge, point);
+      const projected = {
+        x: edge.a.x + ((edge.b.x - edge.a.x) / length) * offset,
+        y: edge.a.y + ((edge.b.y - edge.a.y) / length) * offset,
+      };
+      const distance = Math.hypot(point.x - projected.x, point.y - projected.y);
+      if (distance <= tolerance && (!best || distance < best.distance)) best = { area, edge, distance };
+    }
+  }
+  return best;
+}
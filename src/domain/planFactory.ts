@@ -1,13 +1,17 @@
 import { defaultAreaName } from './naming';
+import { createLevel } from './levels';
+import { CURRENT_PLAN_VERSION } from './migrations';
 import type { Plan, RectShape, Units } from './types';
+import { DEFAULT_AREA_STROKE_WIDTH } from './units';
 
 function now() {
   return new Date().toISOString();
 }
 
 export function createBlankPlan(width: number, height: number, units: Units, name = 'New Plan'): Plan {
+  const level = createLevel('Level 1');
   return {
-    version: '1.0',
+    version: CURRENT_PLAN_VERSION,
     units,
     canvas: {
       width,
@@ -15,8 +19,8 @@ export function createBlankPlan(width: number, height: number, units: Units, nam
       zoom: 1,
       pan: { x: 0, y: 0 },
     },
-    areas: [],
-    areaGroups: [],
+    levels: [level],
+    activeLevelId: level.id,
     meta: {
       name,
       createdAt: now(),
@@ -41,22 +45,25 @@ export function seedPlan(): Plan {
   const areaA: RectShape = rectShape({ x: 1, y: 1, width: 4, height: 3 });
   const areaB: RectShape = rectShape({ x: 6, y: 2, width: 4.5, height: 4 });
   const baseName = defaultAreaName(plan);
-  plan.areas = [
+  const layerId = plan.levels[0].activeLayerId;
+  plan.levels[0].areas = [
     {
       id: crypto.randomUUID(),
       name: baseName,
       fill: '#bfdbfe',
       stroke: '#1d4ed8',
-      strokeWidth: 0.04,
+      strokeWidth: DEFAULT_AREA_STROKE_WIDTH[plan.units],
       shape: areaA,
+      layerId,
     },
     {
       id: crypto.randomUUID(),
       name: `${baseName} B`,
       fill: '#fecdd3',
       stroke: '#be123c',
-      strokeWidth: 0.04,
+      strokeWidth: DEFAULT_AREA_STROKE_WIDTH[plan.units],
       shape: areaB,
+      layerId,
     },
   ];
   plan.meta.updatedAt = now();
@@ -0,0 +1,75 @@
+import { shapeArea } from './geometry';
+import { activeLevel, sortedLevels } from './levels';
+import { findRoomType, planRoomTypes } from './roomTypes';
+import type { Level, Plan, RoomType } from './types';
+
+export type ReportScope = 'level' | 'building';
+
+export type AreaReportRow = {
+  levelId: string;
+  levelName: string;
+  elevation: number;
+  areaId: string;
+  areaName: string;
+  roomTypeId?: string;
+  size: number;
+};
+
+export type RoomTypeTotal = {
+  /** Undefined for the bucket of areas without a room type. */
+  roomType?: RoomType;
+  count: number;
+  size: number;
+};
+
+export function levelsInScope(plan: Plan, scope: ReportScope): Level[] {
+  return scope === 'level' ? [activeLevel(plan)] : sortedLevels(plan);
+}
+
+export function areaReport(plan: Plan, scope: ReportScope): AreaReportRow[] {
+  return levelsInScope(plan, scope).flatMap((level) =>
+    level.areas.map((area) => ({
+      levelId: level.id,
+      levelName: level.name,
+      elevation: level.elevation,
+      areaId: area.id,
+      areaName: area.name,
+      roomTypeId: area.roomType,
+      size: shapeArea(area.shape),
+    })),
+  );
+}
+
+export function totalArea(rows: AreaReportRow[]) {
+  return rows.reduce((acc, row) => acc + row.size, 0);
+}
+
+/** Area per room type in taxonomy order, followed by unclassified areas when there are any. */
+export function roomTypeTotals(plan: Plan, rows: AreaReportRow[]): RoomTypeTotal[] {
+  const totals: RoomTypeTotal[] = planRoomTypes(plan).map((roomType) => ({ roomType, count: 0, size: 0 }));
+  const untyped: RoomTypeTotal = { count: 0, size: 0 };
+  rows.forEach((row) => {
+    const total = totals.find((entry) => entry.roomType?.id === row.roomTypeId) ?? untyped;
+    total.count += 1;
+    total.size += row.size;
+  });
+  return [...totals.filter((total) => total.count > 0), ...(untyped.count ? [untyped] : [])];
+}
+
+function csvCell(value: string | number) {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function areaReportToCsv(plan: Plan, rows: AreaReportRow[]): string {
+  const header = ['Level', `Elevation (${plan.units})`, 'Area', 'Room type', `Size (${plan.units}²)`];
+  const lines = rows.map((row) => [
+    row.levelName,
+    row.elevation,
+    row.areaName,
+    findRoomType(plan, row.roomTypeId)?.name ?? '',
+    row.size.toFixed(2),
+  ]);
+  lines.push(['Total', '', '', '', totalArea(rows).toFixed(2)]);
+  return [header, ...lines].map((line) => line.map(csvCell).join(',')).join('\n');
+}
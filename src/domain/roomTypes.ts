@@ -0,0 +1,44 @@
+import { activeLevel } from './levels';
+import type { Area, Plan, RoomType } from './types';
+
+export const DEFAULT_ROOM_TYPES: RoomType[] = [
+  { id: 'office', name: 'Office', fill: '#bfdbfe', stroke: '#1d4ed8', labelPrefix: 'Office' },
+  { id: 'meeting', name: 'Meeting', fill: '#c7d2fe', stroke: '#4338ca', labelPrefix: 'Meeting' },
+  { id: 'wc', name: 'WC', fill: '#a5f3fc', stroke: '#0e7490', labelPrefix: 'WC' },
+  { id: 'kitchen', name: 'Kitchen', fill: '#fde68a', stroke: '#b45309', labelPrefix: 'Kitchen' },
+  { id: 'circulation', name: 'Circulation', fill: '#e2e8f0', stroke: '#475569', labelPrefix: 'Corridor' },
+  { id: 'storage', name: 'Storage', fill: '#d6d3d1', stroke: '#57534e', labelPrefix: 'Store' },
+];
+
+/** Plans without their own taxonomy use the defaults until a type is edited. */
+export function planRoomTypes(plan: Plan): RoomType[] {
+  return plan.roomTypes ?? DEFAULT_ROOM_TYPES;
+}
+
+export function findRoomType(plan: Plan, id: string | undefined): RoomType | undefined {
+  if (!id) return undefined;
+  return planRoomTypes(plan).find((type) => type.id === id);
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Next free "<prefix> N" name on the active level. */
+export function roomTypeAreaName(plan: Plan, type: RoomType) {
+  const pattern = new RegExp(`^${escapeRegExp(type.labelPrefix)} (\\d+)$`);
+  const max = activeLevel(plan).areas.reduce((acc, area) => {
+    const match = area.name.match(pattern);
+    return match ? Math.max(acc, parseInt(match[1], 10)) : acc;
+  }, 0);
+  return `${type.labelPrefix} ${max + 1}`;
+}
+
+/**
+ * Whether an area still carries a generated name ("Area 3" or "<prefix> 3" of its current
+ * type) and can be renamed when its type changes without losing a name the user typed.
+ */
+export function hasGeneratedName(plan: Plan, area: Area) {
+  const prefixes = ['Area', findRoomType(plan, area.roomType)?.labelPrefix].filter(Boolean) as string[];
+  return prefixes.some((prefix) => new RegExp(`^${escapeRegExp(prefix)} \\d+$`).test(area.name));
+}
@@ -0,0 +1,84 @@
+import { rectCorners, rotatePolygon } from './geometry';
+import { nearestAreaEdge, offsetAlongEdge } from './openings';
+import type { AnchorRef, Area, Level, Plan } from './types';
+
+type Point = { x: number; y: number };
+
+export type SnapTarget = { point: Point; ref: AnchorRef };
+
+/** Snap points of an area, in the order `AnchorRef` indexes them. */
+export function areaSnapPoints(area: Area): Point[] {
+  const shape = area.shape;
+  if (shape.type === 'rect') return rectCorners(shape);
+  if (shape.type === 'ellipse') {
+    const { cx, cy, rx, ry } = shape;
+    const points = [
+      { x: cx, y: cy - ry },
+      { x: cx + rx, y: cy },
+      { x: cx, y: cy + ry },
+      { x: cx - rx, y: cy },
+      { x: cx, y: cy },
+    ];
+    return shape.rotation ? rotatePolygon(points, { x: cx, y: cy }, shape.rotation) : points;
+  }
+  if (shape.type === 'polygon') return shape.points;
+  return shape.polygons.flat();
+}
+
+function boundaryCorners(plan: Plan): Point[] {
+  const { width, height } = plan.canvas;
+  return [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: 0, y: height },
+  ];
+}
+
+/** Every point on the level a dimension can attach to. */
+export function snapTargets(plan: Plan, level: Level, areas: Area[] = level.areas): SnapTarget[] {
+  const targets: SnapTarget[] = [];
+  areas.forEach((area) =>
+    areaSnapPoints(area).forEach((point, index) => targets.push({ point, ref: { kind: 'area', id: area.id, index } })),
+  );
+  (level.walls ?? []).forEach((wall) => {
+    targets.push({ point: wall.start, ref: { kind: 'wall', id: wall.id, end: 'start' } });
+    targets.push({ point: wall.end, ref: { kind: 'wall', id: wall.id, end: 'end' } });
+  });
+  boundaryCorners(plan).forEach((point, index) => targets.push({ point, ref: { kind: 'boundary', index } }));
+  return targets;
+}
+
+export function nearestSnapTarget(targets: SnapTarget[], point: Point, tolerance: number): SnapTarget | null {
+  let best: SnapTarget | null = null;
+  let bestDistance = tolerance;
+  for (const target of targets) {
+    const d = Math.hypot(target.point.x - point.x, target.point.y - point.y);
+    if (d <= bestDistance) {
+      best = target;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
+
+/** Current position of the referenced geometry, or null once it no longer exists. */
+export function resolveAnchorRef(plan: Plan, level: Level, ref: AnchorRef): Point | null {
+  if (ref.kind === 'boundary') return boundaryCorners(plan)[ref.index] ?? null;
+  if (ref.kind === 'wall') {
+    const wall = level.walls?.find((w) => w.id === ref.id);
+    return wall ? wall[ref.end] : null;
+  }
+  const area = level.areas.find((a) => a.id === ref.id);
+  return (area && areaSnapPoints(area)[ref.index]) ?? null;
+}
+
+/** Closest point on an area edge within `tolerance`, for snapping onto outlines between vertices. */
+export function nearestEdgePoint(areas: Area[], point: Point, tolerance: number): Point | null {
+  const hit = nearestAreaEdge(areas, point, tolerance);
+  if (!hit) return null;
+  const { a, b } = hit.edge;
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  const offset = Math.max(0, Math.min(length, offsetAlongEdge(hit.edge, point)));
+  return { x: a.x + ((b.x - a.x) / length) * offset, y: a.y + ((b.y - a.y) / length) * offset };
+}
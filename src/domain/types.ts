@@ -1,7 +1,32 @@
-export type Units = 'cm' | 'm' | 'ft';
+export type Units = 'mm' | 'cm' | 'm' | 'in' | 'ft';
+
+export type PlanVersion = '2.1';
+
+/** A room classification with the styling and naming applied to areas of that type. */
+export type RoomType = {
+  id: string;
+  name: string;
+  fill: string;
+  stroke: string;
+  labelPrefix: string;
+};
+
+export type RoundingMode = 'nearest' | 'up' | 'down';
+
+/** How dimensions and areas are written on labels. Unset fields fall back to defaults. */
+export type DisplaySettings = {
+  lengthDecimals: number;
+  areaDecimals: number;
+  rounding: RoundingMode;
+  thousandsSeparator: boolean;
+  /** BCP 47 locale used for decimal marks and digit grouping, e.g. 'de-DE'. */
+  locale: string;
+  /** Units areas are shown in; defaults to the plan units. */
+  areaUnits?: Units;
+};
 
 export type Plan = {
-  version: '1.0';
+  version: PlanVersion;
   units: Units;
   canvas: {
     width: number;
@@ -9,8 +34,13 @@ export type Plan = {
     zoom: number;
     pan: { x: number; y: number };
   };
-  areas: Area[];
-  areaGroups?: AreaGroup[];
+  /** Snap increment in plan units; defaults to `DEFAULT_SNAP_GRID` for the plan's units. */
+  snapGrid?: number;
+  display?: Partial<DisplaySettings>;
+  levels: Level[];
+  activeLevelId: string;
+  /** Room-type taxonomy; when absent the built-in defaults apply. */
+  roomTypes?: RoomType[];
   meta: {
     name: string;
     createdAt: string;
@@ -18,6 +48,141 @@ export type Plan = {
   };
 };
 
+/** A paint layer for areas. `Level.layers` is ordered bottom to top. */
+export type Layer = {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  /** 0–1, applied to every area on the layer. */
+  opacity: number;
+};
+
+export type Level = {
+  id: string;
+  name: string;
+  elevation: number;
+  layers: Layer[];
+  /** Layer that newly drawn areas are placed on. */
+  activeLayerId: string;
+  areas: Area[];
+  areaGroups?: AreaGroup[];
+  walls?: Wall[];
+  openings?: Opening[];
+  fixtures?: Fixture[];
+  annotations?: Annotation[];
+  dimensions?: Dimension[];
+};
+
+export type WallAlignment = 'center' | 'inside' | 'outside';
+
+/**
+ * A straight wall segment. The reference line runs from `start` to `end`; `alignment`
+ * says where the solid sits relative to it ('inside' is the left-hand normal side,
+ * which is the interior of rooms drawn clockwise on screen).
+ */
+export type Wall = {
+  id: string;
+  start: { x: number; y: number };
+  end: { x: number; y: number };
+  thickness: number;
+  alignment: WallAlignment;
+};
+
+export type OpeningKind = 'door' | 'window';
+
+/** Which jamb the door leaf hinges on; 'left' is the jamb nearer the edge start. */
+export type OpeningSwing = 'left' | 'right';
+
+/** Whether the door leaf opens into the host area or away from it. */
+export type OpeningDirection = 'in' | 'out';
+
+/**
+ * A door or window hosted on one edge of an area. `edgeKey` uses the same keys as
+ * `Area.edgeLabelOffsets`; `offset` is the distance from the edge start to the opening's
+ * centre, so openings follow the edge when the area moves or resizes.
+ */
+export type Opening = {
+  id: string;
+  areaId: string;
+  edgeKey: string;
+  kind: OpeningKind;
+  width: number;
+  offset: number;
+  swing: OpeningSwing;
+  direction: OpeningDirection;
+};
+
+/**
+ * A placed furniture or fixture symbol. `symbol` is an id from the fixture library; the
+ * instance is centred on (x, y) and rotated clockwise by `rotation` degrees.
+ */
+export type Fixture = {
+  id: string;
+  symbol: string;
+  name?: string;
+  x: number;
+  y: number;
+  width: number;
+  depth: number;
+  rotation: number;
+};
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+/**
+ * A free-standing text note. The text is anchored at (x, y), aligned by `align` and rotated
+ * clockwise by `rotation` degrees about the anchor. `leader` is an optional polyline drawn
+ * from the text outwards; its last point carries the arrowhead.
+ */
+export type Annotation = {
+  id: string;
+  text: string;
+  x: number;
+  y: number;
+  fontSize: number;
+  rotation: number;
+  align: TextAlign;
+  leader?: { x: number; y: number }[];
+};
+
+/**
+ * Geometry a dimension point is attached to: an outline vertex of an area (corners of a
+ * rect, cardinal points then centre of an ellipse, outer ring points of polygons), a wall
+ * end or a corner of the plan boundary, numbered clockwise from the origin.
+ */
+export type AnchorRef =
+  | { kind: 'area'; id: string; index: number }
+  | { kind: 'wall'; id: string; end: 'start' | 'end' }
+  | { kind: 'boundary'; index: number };
+
+/** A measured point. `x`/`y` is its last known position, used once the referenced geometry is gone. */
+export type DimensionAnchor = { x: number; y: number; ref?: AnchorRef };
+
+export type DimensionStyle = 'aligned' | 'horizontal' | 'vertical' | 'chained';
+
+/**
+ * A user-placed dimension line. Aligned, horizontal and vertical styles measure between the
+ * first and last point; chained measures every consecutive pair along one shared line.
+ * `offset` is the signed distance of the dimension line from the first point, along the
+ * line's normal.
+ */
+export type Dimension = {
+  id: string;
+  style: DimensionStyle;
+  points: DimensionAnchor[];
+  offset: number;
+};
+
+/** A typed value in an area's property bag. Enum values carry their allowed options. */
+export type AreaPropertyValue =
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'enum'; value: string; options: string[] };
+
+export type AreaPropertyType = AreaPropertyValue['type'];
+
 export type Area = {
   id: string;
   name: string;
@@ -25,10 +190,16 @@ export type Area = {
   stroke: string;
   strokeWidth: number;
   shape: RectShape | PolygonShape | MultiPolygonShape | EllipseShape;
+  /** Id of a layer on the same level. */
+  layerId: string;
+  /** Area this one was divided from; the area itself may no longer exist. */
   parentId?: string;
   labelOffset?: { x: number; y: number };
   edgeLabelOffsets?: Record<string, { x: number; y: number }>;
   radiusLabelOffset?: { x: number; y: number };
+  properties?: Record<string, AreaPropertyValue>;
+  /** Id of a `RoomType` from the plan's taxonomy. */
+  roomType?: string;
 };
 
 export type RectShape = {
@@ -60,10 +231,17 @@ export type EllipseShape = {
   cy: number;
   rx: number;
   ry: number;
+  /** Clockwise degrees about the centre, like `RectShape.rotation`. */
+  rotation?: number;
 };
 
 export type Selection = {
   areaIds: string[];
+  wallIds?: string[];
+  openingIds?: string[];
+  fixtureIds?: string[];
+  annotationIds?: string[];
+  dimensionIds?: string[];
 };
 
 export type RectHandle =
@@ -82,10 +260,48 @@ export type PartitionDirection = 'horizontal' | 'vertical';
 
 export type MirrorAxis = 'horizontal' | 'vertical';
 
+/**
+ * Placement of array copies: `count` copies each shifted by a further `dx`/`dy`, or a grid of
+ * `rows` × `columns` (the original included) with `gapX`/`gapY` between the copies' bounds.
+ */
+export type ArrayLayout =
+  | { kind: 'linear'; count: number; dx: number; dy: number }
+  | { kind: 'grid'; rows: number; columns: number; gapX: number; gapY: number };
+
+/** Fixed point of a scale: the selection's centre or a corner of its bounds, or any plan point. */
+export type ScaleAnchor = 'center' | 'nw' | 'ne' | 'se' | 'sw' | { x: number; y: number };
+
+/** Which bounding-box edge or centre line aligned areas share. */
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+/** `'gaps'` evens out the space between areas; `'centers'` spaces their centres equally. */
+export type DistributeMode = 'gaps' | 'centers';
+
+/** Corner style where offset edges meet: a sharp point, an arc, or a flat cut. */
+export type OffsetJoin = 'miter' | 'round' | 'square';
+
+/**
+ * What an offset produces: a new area with the grown or shrunk outline, the band between the
+ * old and new outlines as a new area, or the new outline in place of the original.
+ */
+export type OffsetOutput = 'new' | 'band' | 'replace';
+
+/** Stacking moves; areas only change places with other areas on the same layer. */
+export type ReorderDirection = 'forward' | 'backward' | 'front' | 'back';
+
 export type Tool =
   | 'select'
   | 'draw-rect'
   | 'draw-polygon'
+  | 'draw-wall'
+  | 'place-door'
+  | 'place-window'
+  | 'place-fixture'
+  | 'annotate'
+  | 'measure'
+  | 'dimension'
   | 'draw-ellipse'
   | 'draw-circle'
   | 'draw-semi-circle'
@@ -100,7 +316,14 @@ export type CommandType =
   | 'plan/create'
   | 'plan/resize-boundary'
   | 'plan/set-viewport'
+  | 'plan/set-units'
+  | 'plan/set-display'
   | 'plan/load'
+  | 'level/create'
+  | 'level/delete'
+  | 'level/rename'
+  | 'level/set-elevation'
+  | 'level/set-active'
   | 'area/create'
   | 'area/create-polygon'
   | 'area/create-ellipse'
@@ -117,24 +340,77 @@ export type CommandType =
   | 'area/recolor'
   | 'area/delete'
   | 'area/mirror'
+  | 'area/rotate'
+  | 'area/scale'
+  | 'area/align'
+  | 'area/distribute'
   | 'area/subtract'
+  | 'area/intersect'
+  | 'area/exclude'
+  | 'area/offset'
   | 'area/divide'
   | 'area/merge'
   | 'group/create'
   | 'group/delete'
   | 'group/visibility'
+  | 'group/lock'
+  | 'group/rename'
+  | 'group/set-parent'
+  | 'area/set-group'
+  | 'area/set-parent'
   | 'area/convert-to-polygon'
   | 'area/paste'
+  | 'area/array'
   | 'area/set-label-offset'
   | 'area/set-edge-label-offset'
   | 'area/set-radius-label-offset'
+  | 'area/set-property'
+  | 'area/set-room-type'
+  | 'room-type/upsert'
+  | 'room-type/delete'
+  | 'layer/create'
+  | 'layer/update'
+  | 'layer/delete'
+  | 'layer/reorder'
+  | 'layer/set-active'
+  | 'area/set-layer'
+  | 'area/reorder'
+  | 'wall/create'
+  | 'wall/move'
+  | 'wall/split'
+  | 'wall/update'
+  | 'wall/delete'
+  | 'wall/derive-areas'
+  | 'opening/create'
+  | 'opening/update'
+  | 'opening/delete'
+  | 'fixture/create'
+  | 'fixture/move'
+  | 'fixture/update'
+  | 'fixture/delete'
+  | 'annotation/create'
+  | 'annotation/update'
+  | 'annotation/move'
+  | 'annotation/delete'
+  | 'dimension/create'
+  | 'dimension/update'
+  | 'dimension/delete'
   | 'selection/set';
 
 export type CommandPayloads = {
   'plan/create': { width: number; height: number; units: Units; name?: string };
   'plan/resize-boundary': { width?: number; height?: number };
   'plan/set-viewport': { zoom?: number; pan?: { x: number; y: number } };
+  /** Rescales all stored geometry so physical dimensions are unchanged. */
+  'plan/set-units': { units: Units };
+  /** Merged into the current settings; `areaUnits: undefined` keeps areas in plan units. */
+  'plan/set-display': { display: Partial<DisplaySettings> };
   'plan/load': { plan: Plan };
+  'level/create': { name?: string; elevation?: number };
+  'level/delete': { id: string };
+  'level/rename': { id: string; name: string };
+  'level/set-elevation': { id: string; elevation: number };
+  'level/set-active': { id: string };
   'area/create': {
     rect: RectShape;
     partitions?: number;
@@ -172,17 +448,112 @@ export type CommandPayloads = {
   'area/recolor': { id: string; fill: string };
   'area/delete': { id: string };
   'area/mirror': { id: string; axis: MirrorAxis };
+  /** Clockwise degrees about `center`, which defaults to the middle of the areas' combined bounds. */
+  'area/rotate': { ids: string[]; angle: number; center?: { x: number; y: number } };
+  /** A number scales uniformly; `{ x, y }` scales each axis. The anchor defaults to `'center'`. */
+  'area/scale': { ids: string[]; factor: number | { x: number; y: number }; anchor?: ScaleAnchor };
+  'area/align': { ids: string[]; edge: AlignEdge };
+  /** Keeps the outermost areas in place; needs at least three areas. */
+  'area/distribute': { ids: string[]; axis: DistributeAxis; mode: DistributeMode };
   'area/subtract': { ids: string[] };
+  /** Replaces the areas with their common overlap. */
+  'area/intersect': { ids: string[]; name?: string; fill?: string; stroke?: string };
+  /** Replaces the areas with what they cover minus where they overlap (xor). */
+  'area/exclude': { ids: string[]; name?: string; fill?: string; stroke?: string };
+  /** Positive distances grow the areas outward, negative ones shrink them. */
+  'area/offset': { ids: string[]; distance: number; join: OffsetJoin; output: OffsetOutput };
   'area/divide': { id: string; partitions: number; direction?: PartitionDirection };
   'area/merge': { ids: string[]; name?: string; fill?: string; stroke?: string };
   'group/create': { name: string; areaIds: string[] };
   'group/delete': { id: string };
   'group/visibility': { id: string; visible: boolean };
+  /** Locked groups block moving, reshaping, restyling and deleting their member areas. */
+  'group/lock': { id: string; locked: boolean };
+  'group/rename': { id: string; name: string };
+  /** `parentId: null` makes the group top-level. */
+  'group/set-parent': { id: string; parentId: string | null };
+  /** Moves areas out of their current groups; `groupId: null` leaves them ungrouped. */
+  'area/set-group': { ids: string[]; groupId: string | null };
+  'area/set-parent': { id: string; parentId: string | null };
   'area/convert-to-polygon': { ids: string[]; name?: string; fill?: string; stroke?: string };
   'area/paste': { areas: Area[]; dx: number; dy: number; nameSuffix?: string };
+  /** Copies the areas into a linear or grid array in one step; copy names continue their numbering. */
+  'area/array': { ids: string[]; layout: ArrayLayout };
   'area/set-label-offset': { id: string; offset: { x: number; y: number } };
   'area/set-edge-label-offset': { id: string; edgeKey: string; offset: { x: number; y: number } };
   'area/set-radius-label-offset': { id: string; offset: { x: number; y: number } };
+  /** `value: null` removes the property. */
+  'area/set-property': { id: string; key: string; value: AreaPropertyValue | null };
+  /** `roomTypeId: null` clears the classification but keeps the current styling. */
+  'area/set-room-type': { ids: string[]; roomTypeId: string | null };
+  'room-type/upsert': { roomType: RoomType };
+  'room-type/delete': { id: string };
+  'layer/create': { name?: string };
+  'layer/update': { id: string; name?: string; visible?: boolean; locked?: boolean; opacity?: number };
+  /** Areas on the deleted layer move to the layer below it (or above, for the bottom layer). */
+  'layer/delete': { id: string };
+  /** `index` counts from the bottom of the stack. */
+  'layer/reorder': { id: string; index: number };
+  'layer/set-active': { id: string };
+  'area/set-layer': { ids: string[]; layerId: string };
+  'area/reorder': { ids: string[]; direction: ReorderDirection };
+  'wall/create': {
+    points: { x: number; y: number }[];
+    closed?: boolean;
+    thickness?: number;
+    alignment?: WallAlignment;
+  };
+  'wall/move': { ids: string[]; dx: number; dy: number };
+  'wall/split': { id: string; point: { x: number; y: number } };
+  'wall/update': { id: string; thickness?: number; alignment?: WallAlignment };
+  'wall/delete': { ids: string[] };
+  'wall/derive-areas': { fill?: string; stroke?: string };
+  'opening/create': {
+    areaId: string;
+    edgeKey: string;
+    kind: OpeningKind;
+    offset: number;
+    width?: number;
+    swing?: OpeningSwing;
+    direction?: OpeningDirection;
+  };
+  'opening/update': {
+    id: string;
+    kind?: OpeningKind;
+    offset?: number;
+    width?: number;
+    swing?: OpeningSwing;
+    direction?: OpeningDirection;
+  };
+  'opening/delete': { ids: string[] };
+  'fixture/create': { symbol: string; x: number; y: number; width?: number; depth?: number; rotation?: number };
+  'fixture/move': { ids: string[]; dx: number; dy: number };
+  'fixture/update': { id: string; name?: string; width?: number; depth?: number; rotation?: number };
+  'fixture/delete': { ids: string[] };
+  'annotation/create': {
+    text: string;
+    x: number;
+    y: number;
+    fontSize?: number;
+    rotation?: number;
+    align?: TextAlign;
+    leader?: { x: number; y: number }[];
+  };
+  /** `leader: null` removes the leader line. */
+  'annotation/update': {
+    id: string;
+    text?: string;
+    fontSize?: number;
+    rotation?: number;
+    align?: TextAlign;
+    leader?: { x: number; y: number }[] | null;
+  };
+  /** Moves the text together with its leader. */
+  'annotation/move': { ids: string[]; dx: number; dy: number };
+  'annotation/delete': { ids: string[] };
+  'dimension/create': { style: DimensionStyle; points: DimensionAnchor[]; offset?: number };
+  'dimension/update': { id: string; style?: DimensionStyle; offset?: number; points?: DimensionAnchor[] };
+  'dimension/delete': { ids: string[] };
   'selection/set': Selection;
 };
 
@@ -194,6 +565,8 @@ export type AreaGroup = {
   id: string;
   name: string;
   areaIds: string[];
+  /** Enclosing group on the same level; locking and hiding apply to nested groups too. */
+  parentId?: string;
   locked?: boolean;
   visible?: boolean;
 };
@@ -0,0 +1,116 @@
+import type { Area, Plan, Units } from './types';
+
+export const METRES_PER_UNIT: Record<Units, number> = { mm: 0.001, cm: 0.01, m: 1, in: 0.0254, ft: 0.3048 };
+
+export const UNIT_OPTIONS: { value: Units; label: string }[] = [
+  { value: 'mm', label: 'Millimeters' },
+  { value: 'cm', label: 'Centimeters' },
+  { value: 'm', label: 'Meters' },
+  { value: 'in', label: 'Inches' },
+  { value: 'ft', label: 'Feet' },
+];
+
+/** Snap increment in plan units when the plan does not set its own. */
+export const DEFAULT_SNAP_GRID: Record<Units, number> = { mm: 250, cm: 25, m: 0.25, in: 3, ft: 0.25 };
+
+/** Outline width of newly created areas, in plan units. */
+export const DEFAULT_AREA_STROKE_WIDTH: Record<Units, number> = { mm: 40, cm: 4, m: 0.04, in: 0.5, ft: 0.04 };
+
+export function planSnapGrid(plan: Plan) {
+  return plan.snapGrid ?? DEFAULT_SNAP_GRID[plan.units];
+}
+
+/** A length given in metres, expressed in `units`; for drawing sizes that need no round value. */
+export function metresToUnits(metres: number, units: Units) {
+  return metres / METRES_PER_UNIT[units];
+}
+
+/** Factor that converts a length in `from` units to `to` units. */
+export function unitFactor(from: Units, to: Units) {
+  return METRES_PER_UNIT[from] / METRES_PER_UNIT[to];
+}
+
+/** Trims float noise such as 1000.0000000000001 left by unit conversion. */
+function roundLength(value: number) {
+  return Math.round(value * 1e9) / 1e9;
+}
+
+function scalePoint(point: { x: number; y: number }, factor: number) {
+  return { x: roundLength(point.x * factor), y: roundLength(point.y * factor) };
+}
+
+function scaleArea(area: Area, factor: number) {
+  const len = (value: number) => roundLength(value * factor);
+  const pts = (points: { x: number; y: number }[]) => points.map((point) => scalePoint(point, factor));
+  const { shape } = area;
+  if (shape.type === 'rect') {
+    area.shape = {
+      ...shape,
+      x: len(shape.x),
+      y: len(shape.y),
+      width: len(shape.width),
+      height: len(shape.height),
+      ...(shape.cornerRadius !== undefined ? { cornerRadius: len(shape.cornerRadius) } : {}),
+    };
+  } else if (shape.type === 'ellipse') {
+    area.shape = { ...shape, cx: len(shape.cx), cy: len(shape.cy), rx: len(shape.rx), ry: len(shape.ry) };
+  } else if (shape.type === 'polygon') {
+    area.shape = { ...shape, points: pts(shape.points), ...(shape.holes ? { holes: shape.holes.map(pts) } : {}) };
+  } else {
+    area.shape = {
+      ...shape,
+      polygons: shape.polygons.map(pts),
+      ...(shape.holes ? { holes: shape.holes.map((holes) => holes.map(pts)) } : {}),
+    };
+  }
+  area.strokeWidth = len(area.strokeWidth);
+  if (area.labelOffset) area.labelOffset = scalePoint(area.labelOffset, factor);
+  if (area.radiusLabelOffset) area.radiusLabelOffset = scalePoint(area.radiusLabelOffset, factor);
+  if (area.edgeLabelOffsets) {
+    area.edgeLabelOffsets = Object.fromEntries(
+      Object.entries(area.edgeLabelOffsets).map(([key, offset]) => [key, scalePoint(offset, factor)]),
+    );
+  }
+}
+
+/**
+ * Converts every stored length in `plan` (mutated in place) to `units`, so physical sizes
+ * stay the same. Zoom and pan are screen-space and are left alone.
+ */
+export function convertPlanUnits(plan: Plan, units: Units) {
+  const factor = unitFactor(plan.units, units);
+  const len = (value: number) => roundLength(value * factor);
+  plan.canvas.width = len(plan.canvas.width);
+  plan.canvas.height = len(plan.canvas.height);
+  plan.snapGrid = len(planSnapGrid(plan));
+  plan.levels.forEach((level) => {
+    level.elevation = len(level.elevation);
+    level.areas.forEach((area) => scaleArea(area, factor));
+    level.walls?.forEach((wall) => {
+      wall.start = scalePoint(wall.start, factor);
+      wall.end = scalePoint(wall.end, factor);
+      wall.thickness = len(wall.thickness);
+    });
+    level.openings?.forEach((opening) => {
+      opening.width = len(opening.width);
+      opening.offset = len(opening.offset);
+    });
+    level.fixtures?.forEach((fixture) => {
+      fixture.x = len(fixture.x);
+      fixture.y = len(fixture.y);
+      fixture.width = len(fixture.width);
+      fixture.depth = len(fixture.depth);
+    });
+    level.annotations?.forEach((annotation) => {
+      annotation.x = len(annotation.x);
+      annotation.y = len(annotation.y);
+      annotation.fontSize = len(annotation.fontSize);
+      if (annotation.leader) annotation.leader = annotation.leader.map((point) => scalePoint(point, factor));
+    });
+    level.dimensions?.forEach((dimension) => {
+      dimension.points = dimension.points.map((anchor) => ({ ...anchor, ...scalePoint(anchor, factor) }));
+      dimension.offset = len(dimension.offset);
+    });
+  });
+  plan.units = units;
+}
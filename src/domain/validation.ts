@@ -0,0 +1,1098 @@
+import type {
+  AnchorRef,
+  Annotation,
+  Area,
+  AreaGroup,
+  AreaPropertyValue,
+  Dimension,
+  DimensionAnchor,
+  DimensionStyle,
+  DisplaySettings,
+  Fixture,
+  Layer,
+  Level,
+  Opening,
+  OpeningDirection,
+  OpeningKind,
+  OpeningSwing,
+  Plan,
+  RoomType,
+  RoundingMode,
+  TextAlign,
+  Units,
+  Wall,
+  WallAlignment,
+} from './types';
+import { createLayer } from './layers';
+import { createLevel } from './levels';
+import { DEFAULT_ROOM_TYPES } from './roomTypes';
+import { DEFAULT_AREA_STROKE_WIDTH } from './units';
+
+export type ValidationError = { path: string; message: string };
+
+export type PlanValidationResult = { valid: boolean; errors: ValidationError[] };
+
+export type PlanRepairResult = {
+  plan: Plan | null;
+  errors: ValidationError[];
+  repairs: string[];
+};
+
+type Point = { x: number; y: number };
+
+const UNITS: Units[] = ['mm', 'cm', 'm', 'in', 'ft'];
+const WALL_ALIGNMENTS: WallAlignment[] = ['center', 'inside', 'outside'];
+const ROUNDING_MODES: RoundingMode[] = ['nearest', 'up', 'down'];
+const TEXT_ALIGNS: TextAlign[] = ['left', 'center', 'right'];
+const DIMENSION_STYLES: DimensionStyle[] = ['aligned', 'horizontal', 'vertical', 'chained'];
+const DISPLAY_KEYS: Record<keyof DisplaySettings, true> = {
+  lengthDecimals: true,
+  areaDecimals: true,
+  rounding: true,
+  thousandsSeparator: true,
+  locale: true,
+  areaUnits: true,
+};
+const OPENING_KINDS: OpeningKind[] = ['door', 'window'];
+const OPENING_SWINGS: OpeningSwing[] = ['left', 'right'];
+const OPENING_DIRECTIONS: OpeningDirection[] = ['in', 'out'];
+const DEFAULT_FILL = '#bfdbfe';
+const DEFAULT_STROKE = '#1d4ed8';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function checkNumber(value: unknown, path: string, errors: ValidationError[], opts: { positive?: boolean; min?: number } = {}) {
+  if (!isFiniteNumber(value)) {
+    errors.push({ path, message: 'must be a finite number' });
+    return;
+  }
+  if (opts.positive && value <= 0) errors.push({ path, message: 'must be greater than 0' });
+  if (typeof opts.min === 'number' && value < opts.min) errors.push({ path, message: `must be at least ${opts.min}` });
+}
+
+function checkOptionalNumber(value: unknown, path: string, errors: ValidationError[], opts: { min?: number } = {}) {
+  if (value === undefined) return;
+  checkNumber(value, path, errors, opts);
+}
+
+function checkString(value: unknown, path: string, errors: ValidationError[], allowEmpty = false) {
+  if (typeof value !== 'string' || (!allowEmpty && !value.length)) {
+    errors.push({ path, message: allowEmpty ? 'must be a string' : 'must be a non-empty string' });
+  }
+}
+
+function checkPoint(value: unknown, path: string, errors: ValidationError[]) {
+  if (!isRecord(value)) {
+    errors.push({ path, message: 'must be a point { x, y }' });
+    return;
+  }
+  checkNumber(value.x, `${path}.x`, errors);
+  checkNumber(value.y, `${path}.y`, errors);
+}
+
+function isPoint(value: unknown): value is Point {
+  return isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+}
+
+function checkRing(value: unknown, path: string, errors: ValidationError[]) {
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: 'must be an array of points' });
+    return;
+  }
+  if (value.length < 3) errors.push({ path, message: 'must have at least 3 points' });
+  value.forEach((point, idx) => checkPoint(point, `${path}[${idx}]`, errors));
+}
+
+function checkRingList(value: unknown, path: string, errors: ValidationError[]) {
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: 'must be an array of rings' });
+    return;
+  }
+  value.forEach((ring, idx) => checkRing(ring, `${path}[${idx}]`, errors));
+}
+
+export function validateShape(value: unknown, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+  if (!isRecord(value)) {
+    errors.push({ path, message: 'must be a shape object' });
+    return errors;
+  }
+  switch (value.type) {
+    case 'rect':
+      checkNumber(value.x, `${path}.x`, errors);
+      checkNumber(value.y, `${path}.y`, errors);
+      checkNumber(value.width, `${path}.width`, errors, { positive: true });
+      checkNumber(value.height, `${path}.height`, errors, { positive: true });
+      checkOptionalNumber(value.rotation, `${path}.rotation`, errors);
+      checkOptionalNumber(value.cornerRadius, `${path}.cornerRadius`, errors, { min: 0 });
+      break;
+    case 'ellipse':
+      checkNumber(value.cx, `${path}.cx`, errors);
+      checkNumber(value.cy, `${path}.cy`, errors);
+      checkNumber(value.rx, `${path}.rx`, errors, { positive: true });
+      checkNumber(value.ry, `${path}.ry`, errors, { positive: true });
+      checkOptionalNumber(value.rotation, `${path}.rotation`, errors);
+      break;
+    case 'polygon':
+      checkRing(value.points, `${path}.points`, errors);
+      if (value.holes !== undefined) checkRingList(value.holes, `${path}.holes`, errors);
+      checkOptionalNumber(value.rotation, `${path}.rotation`, errors);
+      break;
+    case 'multipolygon':
+      if (!Array.isArray(value.polygons) || !value.polygons.length) {
+        errors.push({ path: `${path}.polygons`, message: 'must be a non-empty array of rings' });
+      } else {
+        checkRingList(value.polygons, `${path}.polygons`, errors);
+      }
+      if (value.holes !== undefined) {
+        if (!Array.isArray(value.holes)) {
+          errors.push({ path: `${path}.holes`, message: 'must be an array of ring lists' });
+        } else {
+          value.holes.forEach((holeList, idx) => checkRingList(holeList, `${path}.holes[${idx}]`, errors));
+        }
+      }
+      break;
+    default:
+      errors.push({ path: `${path}.type`, message: 'must be one of rect, ellipse, polygon, multipolygon' });
+  }
+  return errors;
+}
+
+function checkOffsetRecord(value: unknown, path: string, errors: ValidationError[]) {
+  if (!isRecord(value)) {
+    errors.push({ path, message: 'must be an object of offsets' });
+    return;
+  }
+  Object.entries(value).forEach(([key, offset]) => checkPoint(offset, `${path}.${key}`, errors));
+}
+
+export function validatePropertyValue(value: unknown, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+  if (!isRecord(value)) {
+    errors.push({ path, message: 'must be a property object { type, value }' });
+    return errors;
+  }
+  if (value.type === 'string') {
+    if (typeof value.value !== 'string') errors.push({ path: `${path}.value`, message: 'must be a string' });
+  } else if (value.type === 'number') {
+    checkNumber(value.value, `${path}.value`, errors);
+  } else if (value.type === 'boolean') {
+    if (typeof value.value !== 'boolean') errors.push({ path: `${path}.value`, message: 'must be a boolean' });
+  } else if (value.type === 'enum') {
+    if (!Array.isArray(value.options) || value.options.some((option) => typeof option !== 'string')) {
+      errors.push({ path: `${path}.options`, message: 'must be an array of strings' });
+    } else if (typeof value.value !== 'string' || !value.options.includes(value.value)) {
+      errors.push({ path: `${path}.value`, message: 'must be one of the options' });
+    }
+  } else {
+    errors.push({ path: `${path}.type`, message: 'must be one of string, number, boolean, enum' });
+  }
+  return errors;
+}
+
+export function validateArea(value: unknown, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+  if (!isRecord(value)) {
+    errors.push({ path, message: 'must be an area object' });
+    return errors;
+  }
+  checkString(value.id, `${path}.id`, errors);
+  checkString(value.name, `${path}.name`, errors, true);
+  checkString(value.fill, `${path}.fill`, errors);
+  checkString(value.stroke, `${path}.stroke`, errors);
+  checkNumber(value.strokeWidth, `${path}.strokeWidth`, errors, { min: 0 });
+  errors.push(...validateShape(value.shape, `${path}.shape`));
+  checkString(value.layerId, `${path}.layerId`, errors);
+  if (value.parentId !== undefined) checkString(value.parentId, `${path}.parentId`, errors);
+  if (value.labelOffset !== undefined) checkPoint(value.labelOffset, `${path}.labelOffset`, errors);
+  if (value.edgeLabelOffsets !== undefined) checkOffsetRecord(value.edgeLabelOffsets, `${path}.edgeLabelOffsets`, errors);
+  if (value.radiusLabelOffset !== undefined) checkPoint(value.radiusLabelOffset, `${path}.radiusLabelOffset`, errors);
+  if (value.roomType !== undefined) checkString(value.roomType, `${path}.roomType`, errors);
+  if (value.properties !== undefined) {
+    if (!isRecord(value.properties)) {
+      errors.push({ path: `${path}.properties`, message: 'must be an object' });
+    } else {
+      Object.entries(value.properties).forEach(([key, prop]) =>
+        errors.push(...validatePropertyValue(prop, `${path}.properties.${key}`)),
+      );
+    }
+  }
+  return errors;
+}
+
+export function validateAreaGroup(
+  value: unknown,
+  path: string,
+  areaIds: Set<string>,
+  groupIds: Set<string> = new Set(),
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  if (!isRecord(value)) {
+    errors.push({ path, message: 'must be a group object' });
+    return errors;
+  }
+  checkString(value.id, `${path}.id`, errors);
+  checkString(value.name, `${path}.name`, errors, true);
+  if (!Array.isArray(value.areaIds)) {
+    errors.push({ path: `${path}.areaIds`, message: 'must be an array of area ids' });
+  } else {
+    value.areaIds.forEach((id, idx) => {
+      if (typeof id !== 'string') {
+        errors.push({ path: `${path}.areaIds[${idx}]`, message: 'must be a string' });
+      } else if (!areaIds.has(id)) {
+        errors.push({ path: `${path}.areaIds[${idx}]`, message: `references unknown area "${id}"` });
+      }
+    });
+  }
+  if (value.parentId !== undefined) {
+    if (typeof value.parentId !== 'string') {
+      errors.push({ path: `${path}.parentId`, message: 'must be a string' });
+    } else if (value.parentId === value.id || !groupIds.has(value.parentId)) {
+      errors.push({ path: `${path}.parentId`, message: 'must reference another group on the same level' });
+    }
+  }
+  if (value.locked !== undefined && typeof value.locked !== 'boolean') {
+    errors.push({ path: `${path}.locked`, message: 'must be a boolean' });
+  }
+  if (value.visible !== undefined && typeof value.visible !== 'boolean') {
+    errors.push({ path: `${path}.visible`, message: 'must be a boolean' });
+  }
+  return errors;
+}
+
+export function validateLayer(value: unknown, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+  if (!isRecord(value)) {
+    errors.push({ path, message: 'must be a layer object' });
+    return errors;
+  }
+  checkString(value.id, `${path}.id`, errors);
+  checkString(value.name, `${path}.name`, errors, true);
+  if (typeof value.visible !== 'boolean') errors.push({ path: `${path}.visible`, message: 'must be a boolean' });
+  if (typeof value.locked !== 'boolean') errors.push({ path: `${path}.locked`, message: 'must be a boolean' });
+  checkNumber(value.opacity, `${path}.opacity`, errors, { min: 0 });
+  if (isFiniteNumber(value.opacity) && value.opacity > 1) {
+    errors.push({ path: `${path}.opacity`, message: 'must be at most 1' });
+  }
+  return errors;
+}
+
+export function validateRoomType(value: unknown, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+  if (!isRecord(value)) {
+    errors.push({ path, message: 'must be a room type object' });
+    return errors;
+  }
+  checkString(value.id, `${path}.id`, errors);
+  checkString(value.name, `${path}.name`, errors);
+  checkString(value.fill, `${path}.fill`, errors);
+  checkString(value.stroke, `${path}.stroke`, errors);
+  checkString(value.labelPrefix, `${path}.labelPrefix`, errors);
+  return errors;
+}
+
+/** Every field is optional; present fields must be usable by the label formatters. */
+export function validateDisplaySettings(value: unknown, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+  if (!isRecord(value)) {
+    errors.push({ path, message: 'must be a display settings object' });
+    return errors;
+  }
+  (['lengthDecimals', 'areaDecimals'] as const).forEach((key) => {
+    const decimals = value[key];
+    if (decimals === undefined) return;
+    if (typeof decimals !== 'number' || !Number.isInteger(decimals) || decimals < 0 || decimals > 6) {
+      errors.push({ path: `${path}.${key}`, message: 'must be a whole number from 0 to 6' });
+    }
+  });
+  if (value.rounding !== undefined && !ROUNDING_MODES.includes(value.rounding as RoundingMode)) {
+    errors.push({ path: `${path}.rounding`, message: `must be one of ${ROUNDING_MODES.join(', ')}` });
+  }
+  if (value.thousandsSeparator !== undefined && typeof value.thousandsSeparator !== 'boolean') {
+    errors.push({ path: `${path}.thousandsSeparator`, message: 'must be a boolean' });
+  }
+  if (value.locale !== undefined) checkString(value.locale, `${path}.locale`, errors);
+  if (value.areaUnits !== undefined && !UNITS.includes(value.areaUnits as Units)) {
+    errors.push({ path: `${path}.areaUnits`, message: `must be one of ${UNITS.join(', ')}` });
+  }
+  return errors;
+}
+
+export function validateWall(value: unknown, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+  if (!isRecord(value)) {
+    errors.push({ path, message: 'must be a wall object' });
+    return errors;
+  }
+  checkString(value.id, `${path}.id`, errors);
+  checkPoint(value.start, `${path}.start`, errors);
+  checkPoint(value.end, `${path}.end`, errors);
+  checkNumber(value.thickness, `${path}.thickness`, errors, { positive: true });
+  if (!WALL_ALIGNMENTS.includes(value.alignment as WallAlignment)) {
+    errors.push({ path: `${path}.alignment`, message: `must be one of ${WALL_ALIGNMENTS.join(', ')}` });
+  }
+  return errors;
+}
+
+export function validateOpening(value: unknown, path: string, areaIds: Set<string>): ValidationError[] {
+  const errors: ValidationError[] = [];
+  if (!isRecord(value)) {
+    errors.push({ path, message: 'must be an opening object' });
+    return errors;
+  }
+  checkString(value.id, `${path}.id`, errors);
+  if (typeof value.areaId !== 'string' || !areaIds.has(value.areaId)) {
+    errors.push({ path: `${path}.areaId`, message: 'must reference an area on the same level' });
+  }
+  checkString(value.edgeKey, `${path}.edgeKey`, errors);
+  if (!OPENING_KINDS.includes(value.kind as OpeningKind)) {
+    errors.push({ path: `${path}.kind`, message: `must be one of ${OPENING_KINDS.join(', ')}` });
+  }
+  checkNumber(value.width, `${path}.width`, errors, { positive: true });
+  checkNumber(value.offset, `${path}.offset`, errors, { min: 0 });
+  if (!OPENING_SWINGS.includes(value.swing as OpeningSwing)) {
+    errors.push({ path: `${path}.swing`, message: `must be one of ${OPENING_SWINGS.join(', ')}` });
+  }
+  if (!OPENING_DIRECTIONS.includes(value.direction as OpeningDirection)) {
+    errors.push({ path: `${path}.direction`, message: `must be one of ${OPENING_DIRECTIONS.join(', ')}` });
+  }
+  return errors;
+}
+
+export function validateFixture(value: unknown, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+  if (!isRecord(value)) {
+    errors.push({ path, message: 'must be a fixture object' });
+    return errors;
+  }
+  checkString(value.id, `${path}.id`, errors);
+  checkString(value.symbol, `${path}.symbol`, errors);
+  if (value.name !== undefined) checkString(value.name, `${path}.name`, errors, true);
+  checkNumber(value.x, `${path}.x`, errors);
+  checkNumber(value.y, `${path}.y`, errors);
+  checkNumber(value.width, `${path}.width`, errors, { positive: true });
+  checkNumber(value.depth, `${path}.depth`, errors, { positive: true });
+  checkNumber(value.rotation, `${path}.rotation`, errors);
+  return errors;
+}
+
+export function validateAnnotation(value: unknown, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+  if (!isRecord(value)) {
+    errors.push({ path, message: 'must be an annotation object' });
+    return errors;
+  }
+  checkString(value.id, `${path}.id`, errors);
+  checkString(value.text, `${path}.text`, errors);
+  checkNumber(value.x, `${path}.x`, errors);
+  checkNumber(value.y, `${path}.y`, errors);
+  checkNumber(value.fontSize, `${path}.fontSize`, errors, { positive: true });
+  checkNumber(value.rotation, `${path}.rotation`, errors);
+  if (!TEXT_ALIGNS.includes(value.align as TextAlign)) {
+    errors.push({ path: `${path}.align`, message: `must be one of ${TEXT_ALIGNS.join(', ')}` });
+  }
+  if (value.leader !== undefined) {
+    if (!Array.isArray(value.leader) || !value.leader.length) {
+      errors.push({ path: `${path}.leader`, message: 'must be a non-empty array of points' });
+    } else {
+      value.leader.forEach((point, idx) => checkPoint(point, `${path}.leader[${idx}]`, errors));
+    }
+  }
+  return errors;
+}
+
+function isAnchorRef(value: unknown): value is AnchorRef {
+  if (!isRecord(value)) return false;
+  const isIndex = (index: unknown) => Number.isInteger(index) && (index as number) >= 0;
+  if (value.kind === 'area') return isNonEmptyString(value.id) && isIndex(value.index);
+  if (value.kind === 'wall') return isNonEmptyString(value.id) && (value.end === 'start' || value.end === 'end');
+  if (value.kind === 'boundary') return isIndex(value.index) && (value.index as number) < 4;
+  return false;
+}
+
+export function validateDimension(value: unknown, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+  if (!isRecord(value)) {
+    errors.push({ path, message: 'must be a dimension object' });
+    return errors;
+  }
+  checkString(value.id, `${path}.id`, errors);
+  if (!DIMENSION_STYLES.includes(value.style as DimensionStyle)) {
+    errors.push({ path: `${path}.style`, message: `must be one of ${DIMENSION_STYLES.join(', ')}` });
+  }
+  checkNumber(value.offset, `${path}.offset`, errors);
+  if (!Array.isArray(value.points) || value.points.length < 2) {
+    errors.push({ path: `${path}.points`, message: 'must be an array of at least 2 points' });
+  } else {
+    value.points.forEach((point, idx) => {
+      checkPoint(point, `${path}.points[${idx}]`, errors);
+      if (isRecord(point) && point.ref !== undefined && !isAnchorRef(point.ref)) {
+        errors.push({ path: `${path}.points[${idx}].ref`, message: 'must reference an area vertex, wall end or boundary corner' });
+      }
+    });
+  }
+  return errors;
+}
+
+// Optional per-level entity lists: absent is fine, otherwise every entry must validate.
+function checkEntityList(
+  value: unknown,
+  path: string,
+  errors: ValidationError[],
+  validate: (entry: unknown, entryPath: string) => ValidationError[],
+) {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: 'must be an array' });
+    return;
+  }
+  value.forEach((entry, idx) => errors.push(...validate(entry, `${path}[${idx}]`)));
+}
+
+export function validateLevel(value: unknown, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+  if (!isRecord(value)) {
+    errors.push({ path, message: 'must be a level object' });
+    return errors;
+  }
+  checkString(value.id, `${path}.id`, errors);
+  checkString(value.name, `${path}.name`, errors, true);
+  checkNumber(value.elevation, `${path}.elevation`, errors);
+  const layerIds = new Set<string>();
+  if (!Array.isArray(value.layers) || !value.layers.length) {
+    errors.push({ path: `${path}.layers`, message: 'must be a non-empty array' });
+  } else {
+    value.layers.forEach((layer, idx) => {
+      errors.push(...validateLayer(layer, `${path}.layers[${idx}]`));
+      if (isRecord(layer) && typeof layer.id === 'string') {
+        if (layerIds.has(layer.id)) errors.push({ path: `${path}.layers[${idx}].id`, message: `duplicates id "${layer.id}"` });
+        layerIds.add(layer.id);
+      }
+    });
+  }
+  if (typeof value.activeLayerId !== 'string' || !layerIds.has(value.activeLayerId)) {
+    errors.push({ path: `${path}.activeLayerId`, message: 'must reference a layer' });
+  }
+  const areaIds = new Set<string>();
+  if (!Array.isArray(value.areas)) {
+    errors.push({ path: `${path}.areas`, message: 'must be an array' });
+  } else {
+    value.areas.forEach((area, idx) => {
+      errors.push(...validateArea(area, `${path}.areas[${idx}]`));
+      if (isRecord(area) && typeof area.layerId === 'string' && !layerIds.has(area.layerId)) {
+        errors.push({ path: `${path}.areas[${idx}].layerId`, message: 'must reference a layer on the same level' });
+      }
+      if (isRecord(area) && typeof area.id === 'string') {
+        if (areaIds.has(area.id)) errors.push({ path: `${path}.areas[${idx}].id`, message: `duplicates id "${area.id}"` });
+        areaIds.add(area.id);
+      }
+    });
+  }
+  if (value.areaGroups !== undefined) {
+    if (!Array.isArray(value.areaGroups)) {
+      errors.push({ path: `${path}.areaGroups`, message: 'must be an array' });
+    } else {
+      const groupIds = new Set(
+        value.areaGroups.flatMap((group) => (isRecord(group) && typeof group.id === 'string' ? [group.id] : [])),
+      );
+      value.areaGroups.forEach((group, idx) =>
+        errors.push(...validateAreaGroup(group, `${path}.areaGroups[${idx}]`, areaIds, groupIds)),
+      );
+      // Walk each group's ancestors; landing back on the group means the nesting loops.
+      const parents = new Map<string, string>();
+      value.areaGroups.forEach((group) => {
+        if (isRecord(group) && typeof group.id === 'string' && typeof group.parentId === 'string') {
+          parents.set(group.id, group.parentId);
+        }
+      });
+      value.areaGroups.forEach((group, idx) => {
+        if (!isRecord(group) || typeof group.id !== 'string' || group.parentId === group.id) return;
+        const seen = new Set([group.id]);
+        let parentId = parents.get(group.id);
+        while (parentId !== undefined && !seen.has(parentId)) {
+          seen.add(parentId);
+          parentId = parents.get(parentId);
+        }
+        if (parentId === group.id) {
+          errors.push({ path: `${path}.areaGroups[${idx}].parentId`, message: 'must not make the group its own ancestor' });
+        }
+      });
+    }
+  }
+  checkEntityList(value.walls, `${path}.walls`, errors, validateWall);
+  checkEntityList(value.fixtures, `${path}.fixtures`, errors, validateFixture);
+  checkEntityList(value.annotations, `${path}.annotations`, errors, validateAnnotation);
+  checkEntityList(value.dimensions, `${path}.dimensions`, errors, validateDimension);
+  checkEntityList(value.openings, `${path}.openings`, errors, (entry, entryPath) =>
+    validateOpening(entry, entryPath, areaIds),
+  );
+  return errors;
+}
+
+export function validatePlan(value: unknown): PlanValidationResult {
+  const errors: ValidationError[] = [];
+  if (!isRecord(value)) {
+    errors.push({ path: '', message: 'must be a plan object' });
+    return { valid: false, errors };
+  }
+  checkString(value.version, 'version', errors);
+  if (!UNITS.includes(value.units as Units)) {
+    errors.push({ path: 'units', message: `must be one of ${UNITS.join(', ')}` });
+  }
+  if (!isRecord(value.canvas)) {
+    errors.push({ path: 'canvas', message: 'is required' });
+  } else {
+    checkNumber(value.canvas.width, 'canvas.width', errors, { positive: true });
+    checkNumber(value.canvas.height, 'canvas.height', errors, { positive: true });
+    checkNumber(value.canvas.zoom, 'canvas.zoom', errors, { positive: true });
+    checkPoint(value.canvas.pan, 'canvas.pan', errors);
+  }
+  if (value.snapGrid !== undefined) checkNumber(value.snapGrid, 'snapGrid', errors, { positive: true });
+  if (value.display !== undefined) errors.push(...validateDisplaySettings(value.display, 'display'));
+  const levelIds = new Set<string>();
+  if (!Array.isArray(value.levels) || !value.levels.length) {
+    errors.push({ path: 'levels', message: 'must be a non-empty array' });
+  } else {
+    value.levels.forEach((level, idx) => {
+      errors.push(...validateLevel(level, `levels[${idx}]`));
+      if (isRecord(level) && typeof level.id === 'string') {
+        if (levelIds.has(level.id)) errors.push({ path: `levels[${idx}].id`, message: `duplicates id "${level.id}"` });
+        levelIds.add(level.id);
+      }
+    });
+  }
+  if (typeof value.activeLevelId !== 'string' || !levelIds.has(value.activeLevelId)) {
+    errors.push({ path: 'activeLevelId', message: 'must reference a level' });
+  }
+  checkEntityList(value.roomTypes, 'roomTypes', errors, validateRoomType);
+  const roomTypes = Array.isArray(value.roomTypes) ? value.roomTypes : DEFAULT_ROOM_TYPES;
+  const roomTypeIds = new Set(roomTypes.map((type) => (isRecord(type) ? type.id : undefined)));
+  if (Array.isArray(value.levels)) {
+    value.levels.forEach((level, levelIdx) => {
+      if (!isRecord(level) || !Array.isArray(level.areas)) return;
+      level.areas.forEach((area, areaIdx) => {
+        if (isRecord(area) && typeof area.roomType === 'string' && !roomTypeIds.has(area.roomType)) {
+          errors.push({ path: `levels[${levelIdx}].areas[${areaIdx}].roomType`, message: 'must reference a room type' });
+        }
+      });
+    });
+  }
+  if (!isRecord(value.meta)) {
+    errors.push({ path: 'meta', message: 'is required' });
+  } else {
+    checkString(value.meta.name, 'meta.name', errors, true);
+    checkString(value.meta.createdAt, 'meta.createdAt', errors);
+    checkString(value.meta.updatedAt, 'meta.updatedAt', errors);
+  }
+  return { valid: errors.length === 0, errors };
+}
+
+function repairPoint(value: unknown): Point | undefined {
+  if (!isRecord(value) || !isFiniteNumber(value.x) || !isFiniteNumber(value.y)) return undefined;
+  return { x: value.x, y: value.y };
+}
+
+function repairArea(value: unknown, path: string, units: Units, seenIds: Set<string>, repairs: string[]): Area | null {
+  if (!isRecord(value)) {
+    repairs.push(`Dropped ${path}: not an area object`);
+    return null;
+  }
+  if (validateShape(value.shape, `${path}.shape`).length) {
+    repairs.push(`Dropped ${path}: invalid shape`);
+    return null;
+  }
+  let id = isNonEmptyString(value.id) ? value.id : '';
+  if (!id || seenIds.has(id)) {
+    id = crypto.randomUUID();
+    repairs.push(`Assigned a new id to ${path}`);
+  }
+  seenIds.add(id);
+  const area: Area = {
+    id,
+    name: typeof value.name === 'string' ? value.name : 'Area',
+    fill: isNonEmptyString(value.fill) ? value.fill : DEFAULT_FILL,
+    stroke: isNonEmptyString(value.stroke) ? value.stroke : DEFAULT_STROKE,
+    strokeWidth: isFiniteNumber(value.strokeWidth) && value.strokeWidth >= 0 ? value.strokeWidth : DEFAULT_AREA_STROKE_WIDTH[units],
+    shape: value.shape as Area['shape'],
+    // Checked against the level's layers once they are repaired.
+    layerId: typeof value.layerId === 'string' ? value.layerId : '',
+  };
+  if (area.name !== value.name) repairs.push(`Reset ${path}.name`);
+  if (area.fill !== value.fill) repairs.push(`Reset ${path}.fill`);
+  if (area.stroke !== value.stroke) repairs.push(`Reset ${path}.stroke`);
+  if (area.strokeWidth !== value.strokeWidth) repairs.push(`Reset ${path}.strokeWidth`);
+  if (isNonEmptyString(value.parentId)) area.parentId = value.parentId;
+  if (isNonEmptyString(value.roomType)) area.roomType = value.roomType;
+  const labelOffset = repairPoint(value.labelOffset);
+  if (labelOffset) area.labelOffset = labelOffset;
+  else if (value.labelOffset !== undefined) repairs.push(`Removed ${path}.labelOffset`);
+  const radiusLabelOffset = repairPoint(value.radiusLabelOffset);
+  if (radiusLabelOffset) area.radiusLabelOffset = radiusLabelOffset;
+  else if (value.radiusLabelOffset !== undefined) repairs.push(`Removed ${path}.radiusLabelOffset`);
+  if (isRecord(value.edgeLabelOffsets)) {
+    const offsets: Record<string, Point> = {};
+    Object.entries(value.edgeLabelOffsets).forEach(([key, offset]) => {
+      const point = repairPoint(offset);
+      if (point) offsets[key] = point;
+      else repairs.push(`Removed ${path}.edgeLabelOffsets.${key}`);
+    });
+    area.edgeLabelOffsets = offsets;
+  } else if (value.edgeLabelOffsets !== undefined) {
+    repairs.push(`Removed ${path}.edgeLabelOffsets`);
+  }
+  if (isRecord(value.properties)) {
+    const properties: Record<string, AreaPropertyValue> = {};
+    Object.entries(value.properties).forEach(([key, prop]) => {
+      if (validatePropertyValue(prop, key).length) repairs.push(`Removed ${path}.properties.${key}`);
+      else properties[key] = prop as AreaPropertyValue;
+    });
+    if (Object.keys(properties).length) area.properties = properties;
+  } else if (value.properties !== undefined) {
+    repairs.push(`Removed ${path}.properties`);
+  }
+  return area;
+}
+
+function repairGroups(value: unknown, path: string, areaIds: Set<string>, repairs: string[]): AreaGroup[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    repairs.push(`Removed ${path}: not an array`);
+    return [];
+  }
+  const groups: AreaGroup[] = [];
+  value.forEach((group, idx) => {
+    if (!isRecord(group) || !isNonEmptyString(group.id) || !Array.isArray(group.areaIds)) {
+      repairs.push(`Dropped ${path}[${idx}]`);
+      return;
+    }
+    const members = group.areaIds.filter((id): id is string => typeof id === 'string' && areaIds.has(id));
+    if (members.length !== group.areaIds.length) repairs.push(`Removed unknown members from ${path}[${idx}]`);
+    groups.push({
+      id: group.id,
+      name: typeof group.name === 'string' ? group.name : 'Group',
+      areaIds: members,
+      ...(isNonEmptyString(group.parentId) ? { parentId: group.parentId } : {}),
+      locked: typeof group.locked === 'boolean' ? group.locked : undefined,
+      visible: typeof group.visible === 'boolean' ? group.visible : true,
+    });
+  });
+  // Nesting must point at a group on this level and must not loop back on itself.
+  groups.forEach((group, idx) => {
+    const seen = new Set([group.id]);
+    let parent = groups.find((g) => g.id === group.parentId);
+    while (parent && !seen.has(parent.id)) {
+      seen.add(parent.id);
+      parent = groups.find((g) => g.id === parent?.parentId);
+    }
+    if (group.parentId && (!groups.some((g) => g.id === group.parentId) || parent?.id === group.id)) {
+      repairs.push(`Cleared ${path}[${idx}].parentId`);
+      delete group.parentId;
+    }
+  });
+  return groups;
+}
+
+function repairRoomTypes(value: unknown, repairs: string[]): RoomType[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    repairs.push('Removed roomTypes: not an array');
+    return undefined;
+  }
+  const seenIds = new Set<string>();
+  return value.filter((entry, idx): entry is RoomType => {
+    if (validateRoomType(entry, `roomTypes[${idx}]`).length || seenIds.has((entry as RoomType).id)) {
+      repairs.push(`Dropped roomTypes[${idx}]`);
+      return false;
+    }
+    seenIds.add((entry as RoomType).id);
+    return true;
+  });
+}
+
+/** Keeps the display fields that validate on their own and drops the rest. */
+function repairDisplaySettings(value: unknown, repairs: string[]): Partial<DisplaySettings> | undefined {
+  if (value === undefined) return undefined;
+  if (!isRecord(value)) {
+    repairs.push('Removed display: not an object');
+    return undefined;
+  }
+  const entries = Object.entries(value).filter(([key, entry]) => {
+    const valid = key in DISPLAY_KEYS && !validateDisplaySettings({ [key]: entry }, 'display').length;
+    if (!valid) repairs.push(`Removed display.${key}`);
+    return valid;
+  });
+  return Object.fromEntries(entries) as Partial<DisplaySettings>;
+}
+
+function repairWalls(value: unknown, path: string, repairs: string[]): Wall[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    repairs.push(`Removed ${path}: not an array`);
+    return [];
+  }
+  const seenIds = new Set<string>();
+  const walls: Wall[] = [];
+  value.forEach((wall, idx) => {
+    const start = isRecord(wall) ? repairPoint(wall.start) : undefined;
+    const end = isRecord(wall) ? repairPoint(wall.end) : undefined;
+    if (!isRecord(wall) || !start || !end) {
+      repairs.push(`Dropped ${path}[${idx}]: missing endpoints`);
+      return;
+    }
+    let id = isNonEmptyString(wall.id) ? wall.id : '';
+    if (!id || seenIds.has(id)) {
+      id = crypto.randomUUID();
+      repairs.push(`Assigned a new id to ${path}[${idx}]`);
+    }
+    seenIds.add(id);
+    const thickness = isFiniteNumber(wall.thickness) && wall.thickness > 0 ? wall.thickness : null;
+    if (thickness === null) {
+      repairs.push(`Dropped ${path}[${idx}]: invalid thickness`);
+      return;
+    }
+    const alignment = WALL_ALIGNMENTS.includes(wall.alignment as WallAlignment) ? (wall.alignment as WallAlignment) : 'center';
+    if (alignment !== wall.alignment) repairs.push(`Reset ${path}[${idx}].alignment`);
+    walls.push({ id, start, end, thickness, alignment });
+  });
+  return walls;
+}
+
+function repairOpenings(value: unknown, path: string, areaIds: Set<string>, repairs: string[]): Opening[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    repairs.push(`Removed ${path}: not an array`);
+    return [];
+  }
+  const seenIds = new Set<string>();
+  const openings: Opening[] = [];
+  value.forEach((opening, idx) => {
+    if (
+      !isRecord(opening) ||
+      typeof opening.areaId !== 'string' ||
+      !areaIds.has(opening.areaId) ||
+      !isNonEmptyString(opening.edgeKey) ||
+      !OPENING_KINDS.includes(opening.kind as OpeningKind) ||
+      !isFiniteNumber(opening.width) ||
+      opening.width <= 0
+    ) {
+      repairs.push(`Dropped ${path}[${idx}]`);
+      return;
+    }
+    let id = isNonEmptyString(opening.id) ? opening.id : '';
+    if (!id || seenIds.has(id)) {
+      id = crypto.randomUUID();
+      repairs.push(`Assigned a new id to ${path}[${idx}]`);
+    }
+    seenIds.add(id);
+    const offset = isFiniteNumber(opening.offset) && opening.offset >= 0 ? opening.offset : opening.width / 2;
+    if (offset !== opening.offset) repairs.push(`Reset ${path}[${idx}].offset`);
+    const swing = OPENING_SWINGS.includes(opening.swing as OpeningSwing) ? (opening.swing as OpeningSwing) : 'left';
+    if (swing !== opening.swing) repairs.push(`Reset ${path}[${idx}].swing`);
+    const direction = OPENING_DIRECTIONS.includes(opening.direction as OpeningDirection)
+      ? (opening.direction as OpeningDirection)
+      : 'in';
+    if (direction !== opening.direction) repairs.push(`Reset ${path}[${idx}].direction`);
+    openings.push({
+      id,
+      areaId: opening.areaId,
+      edgeKey: opening.edgeKey,
+      kind: opening.kind as OpeningKind,
+      width: opening.width,
+      offset,
+      swing,
+      direction,
+    });
+  });
+  return openings;
+}
+
+function repairFixtures(value: unknown, path: string, repairs: string[]): Fixture[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    repairs.push(`Removed ${path}: not an array`);
+    return [];
+  }
+  const seenIds = new Set<string>();
+  const fixtures: Fixture[] = [];
+  value.forEach((fixture, idx) => {
+    if (
+      !isRecord(fixture) ||
+      !isNonEmptyString(fixture.symbol) ||
+      !isFiniteNumber(fixture.x) ||
+      !isFiniteNumber(fixture.y) ||
+      !isFiniteNumber(fixture.width) ||
+      fixture.width <= 0 ||
+      !isFiniteNumber(fixture.depth) ||
+      fixture.depth <= 0
+    ) {
+      repairs.push(`Dropped ${path}[${idx}]`);
+      return;
+    }
+    let id = isNonEmptyString(fixture.id) ? fixture.id : '';
+    if (!id || seenIds.has(id)) {
+      id = crypto.randomUUID();
+      repairs.push(`Assigned a new id to ${path}[${idx}]`);
+    }
+    seenIds.add(id);
+    const rotation = isFiniteNumber(fixture.rotation) ? fixture.rotation : 0;
+    if (rotation !== fixture.rotation) repairs.push(`Reset ${path}[${idx}].rotation`);
+    fixtures.push({
+      id,
+      symbol: fixture.symbol,
+      name: typeof fixture.name === 'string' ? fixture.name : undefined,
+      x: fixture.x,
+      y: fixture.y,
+      width: fixture.width,
+      depth: fixture.depth,
+      rotation,
+    });
+  });
+  return fixtures;
+}
+
+function repairAnnotations(value: unknown, path: string, repairs: string[]): Annotation[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    repairs.push(`Removed ${path}: not an array`);
+    return [];
+  }
+  const seenIds = new Set<string>();
+  const annotations: Annotation[] = [];
+  value.forEach((annotation, idx) => {
+    if (
+      !isRecord(annotation) ||
+      !isNonEmptyString(annotation.text) ||
+      !isFiniteNumber(annotation.x) ||
+      !isFiniteNumber(annotation.y) ||
+      !isFiniteNumber(annotation.fontSize) ||
+      annotation.fontSize <= 0
+    ) {
+      repairs.push(`Dropped ${path}[${idx}]`);
+      return;
+    }
+    let id = isNonEmptyString(annotation.id) ? annotation.id : '';
+    if (!id || seenIds.has(id)) {
+      id = crypto.randomUUID();
+      repairs.push(`Assigned a new id to ${path}[${idx}]`);
+    }
+    seenIds.add(id);
+    const repaired: Annotation = {
+      id,
+      text: annotation.text,
+      x: annotation.x,
+      y: annotation.y,
+      fontSize: annotation.fontSize,
+      rotation: isFiniteNumber(annotation.rotation) ? annotation.rotation : 0,
+      align: TEXT_ALIGNS.includes(annotation.align as TextAlign) ? (annotation.align as TextAlign) : 'left',
+    };
+    if (annotation.leader !== undefined) {
+      const leader = Array.isArray(annotation.leader) ? annotation.leader.filter(isPoint) : [];
+      if (leader.length) repaired.leader = leader;
+      if (!Array.isArray(annotation.leader) || leader.length !== annotation.leader.length) {
+        repairs.push(`Removed invalid leader points from ${path}[${idx}]`);
+      }
+    }
+    annotations.push(repaired);
+  });
+  return annotations;
+}
+
+function repairDimensions(value: unknown, path: string, repairs: string[]): Dimension[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    repairs.push(`Removed ${path}: not an array`);
+    return [];
+  }
+  const seenIds = new Set<string>();
+  const dimensions: Dimension[] = [];
+  value.forEach((dimension, idx) => {
+    const points: DimensionAnchor[] = [];
+    if (isRecord(dimension) && Array.isArray(dimension.points)) {
+      dimension.points.forEach((point, pointIdx) => {
+        if (!isPoint(point)) return;
+        const anchor: DimensionAnchor = { x: point.x, y: point.y };
+        const ref = (point as Record<string, unknown>).ref;
+        if (isAnchorRef(ref)) anchor.ref = ref;
+        else if (ref !== undefined) repairs.push(`Detached ${path}[${idx}].points[${pointIdx}] from invalid geometry`);
+        points.push(anchor);
+      });
+    }
+    if (!isRecord(dimension) || points.length < 2) {
+      repairs.push(`Dropped ${path}[${idx}]`);
+      return;
+    }
+    let id = isNonEmptyString(dimension.id) ? dimension.id : '';
+    if (!id || seenIds.has(id)) {
+      id = crypto.randomUUID();
+      repairs.push(`Assigned a new id to ${path}[${idx}]`);
+    }
+    seenIds.add(id);
+    const style = DIMENSION_STYLES.includes(dimension.style as DimensionStyle) ? (dimension.style as DimensionStyle) : 'aligned';
+    if (style !== dimension.style) repairs.push(`Reset ${path}[${idx}].style to aligned`);
+    dimensions.push({
+      id,
+      style,
+      points: style === 'chained' ? points : [points[0], points[points.length - 1]],
+      offset: isFiniteNumber(dimension.offset) ? dimension.offset : 0,
+    });
+  });
+  return dimensions;
+}
+
+function repairLayers(value: unknown, path: string, repairs: string[]): Layer[] {
+  if (!Array.isArray(value)) {
+    if (value !== undefined) repairs.push(`Removed ${path}: not an array`);
+    return [];
+  }
+  const seenIds = new Set<string>();
+  const layers: Layer[] = [];
+  value.forEach((layer, idx) => {
+    if (!isRecord(layer)) {
+      repairs.push(`Dropped ${path}[${idx}]: not a layer object`);
+      return;
+    }
+    let id = isNonEmptyString(layer.id) ? layer.id : '';
+    if (!id || seenIds.has(id)) {
+      id = crypto.randomUUID();
+      repairs.push(`Assigned a new id to ${path}[${idx}]`);
+    }
+    seenIds.add(id);
+    const opacity = isFiniteNumber(layer.opacity) ? Math.max(0, Math.min(1, layer.opacity)) : 1;
+    if (opacity !== layer.opacity) repairs.push(`Reset ${path}[${idx}].opacity`);
+    layers.push({
+      id,
+      name: typeof layer.name === 'string' ? layer.name : `Layer ${idx + 1}`,
+      visible: typeof layer.visible === 'boolean' ? layer.visible : true,
+      locked: typeof layer.locked === 'boolean' ? layer.locked : false,
+      opacity,
+    });
+  });
+  return layers;
+}
+
+function repairLevel(
+  value: unknown,
+  path: string,
+  units: Units,
+  seenLevelIds: Set<string>,
+  repairs: string[],
+): Level | null {
+  if (!isRecord(value)) {
+    repairs.push(`Dropped ${path}: not a level object`);
+    return null;
+  }
+  let id = isNonEmptyString(value.id) ? value.id : '';
+  if (!id || seenLevelIds.has(id)) {
+    id = crypto.randomUUID();
+    repairs.push(`Assigned a new id to ${path}`);
+  }
+  seenLevelIds.add(id);
+  const seenIds = new Set<string>();
+  const rawAreas = Array.isArray(value.areas) ? value.areas : [];
+  if (!Array.isArray(value.areas)) repairs.push(`Replaced ${path}.areas with an empty list`);
+  const areas = rawAreas
+    .map((area, idx) => repairArea(area, `${path}.areas[${idx}]`, units, seenIds, repairs))
+    .filter((area): area is Area => Boolean(area));
+  const elevation = isFiniteNumber(value.elevation) ? value.elevation : 0;
+  if (elevation !== value.elevation) repairs.push(`Reset ${path}.elevation`);
+  const layers = repairLayers(value.layers, `${path}.layers`, repairs);
+  if (!layers.length) {
+    layers.push(createLayer('Layer 1'));
+    repairs.push(`Added a layer to ${path}`);
+  }
+  const layerIds = new Set(layers.map((layer) => layer.id));
+  const activeLayerId =
+    typeof value.activeLayerId === 'string' && layerIds.has(value.activeLayerId)
+      ? value.activeLayerId
+      : layers[layers.length - 1].id;
+  if (activeLayerId !== value.activeLayerId) repairs.push(`Reset ${path}.activeLayerId`);
+  areas.forEach((area, idx) => {
+    if (layerIds.has(area.layerId)) return;
+    area.layerId = layers[0].id;
+    repairs.push(`Moved ${path}.areas[${idx}] to ${layers[0].name}`);
+  });
+  return {
+    id,
+    name: typeof value.name === 'string' ? value.name : 'Level',
+    elevation,
+    layers,
+    activeLayerId,
+    areas,
+    areaGroups: repairGroups(value.areaGroups, `${path}.areaGroups`, seenIds, repairs),
+    walls: repairWalls(value.walls, `${path}.walls`, repairs),
+    fixtures: repairFixtures(value.fixtures, `${path}.fixtures`, repairs),
+    annotations: repairAnnotations(value.annotations, `${path}.annotations`, repairs),
+    dimensions: repairDimensions(value.dimensions, `${path}.dimensions`, repairs),
+    openings: repairOpenings(value.openings, `${path}.openings`, seenIds, repairs),
+  };
+}
+
+export function repairPlan(value: unknown): PlanRepairResult {
+  const { errors } = validatePlan(value);
+  if (!isRecord(value)) return { plan: null, errors, repairs: [] };
+  const repairs: string[] = [];
+  const units = UNITS.includes(value.units as Units) ? (value.units as Units) : 'm';
+  if (units !== value.units) repairs.push(`Reset units to ${units}`);
+  const seenLevelIds = new Set<string>();
+  const levels = (Array.isArray(value.levels) ? value.levels : [])
+    .map((level, idx) => repairLevel(level, `levels[${idx}]`, units, seenLevelIds, repairs))
+    .filter((level): level is Level => Boolean(level));
+  if (!levels.length) {
+    levels.push(createLevel('Level 1'));
+    repairs.push('Added an empty level');
+  }
+  const activeLevelId =
+    typeof value.activeLevelId === 'string' && seenLevelIds.has(value.activeLevelId) ? value.activeLevelId : levels[0].id;
+  if (activeLevelId !== value.activeLevelId) repairs.push('Reset activeLevelId');
+
+  const canvas = isRecord(value.canvas) ? value.canvas : {};
+  const validPan = repairPoint(canvas.pan);
+  const pan = validPan ?? { x: 0, y: 0 };
+  const width = isFiniteNumber(canvas.width) && canvas.width > 0 ? canvas.width : 10;
+  const height = isFiniteNumber(canvas.height) && canvas.height > 0 ? canvas.height : 10;
+  const zoom = isFiniteNumber(canvas.zoom) && canvas.zoom > 0 ? canvas.zoom : 1;
+  if (width !== canvas.width || height !== canvas.height) repairs.push('Reset canvas size');
+  if (zoom !== canvas.zoom || !validPan) repairs.push('Reset canvas viewport');
+
+  const meta = isRecord(value.meta) ? value.meta : {};
+  const timestamp = new Date().toISOString();
+
+  const roomTypes = repairRoomTypes(value.roomTypes, repairs);
+  const roomTypeIds = new Set((roomTypes ?? DEFAULT_ROOM_TYPES).map((type) => type.id));
+  levels.forEach((level) =>
+    level.areas.forEach((area) => {
+      if (area.roomType === undefined || roomTypeIds.has(area.roomType)) return;
+      repairs.push(`Cleared unknown room type on ${area.name || area.id}`);
+      delete area.roomType;
+    }),
+  );
+
+  const plan: Plan = {
+    version: value.version as Plan['version'],
+    units,
+    canvas: { width, height, zoom, pan },
+    levels,
+    activeLevelId,
+    meta: {
+      name: typeof meta.name === 'string' ? meta.name : 'Recovered Plan',
+      createdAt: isNonEmptyString(meta.createdAt) ? meta.createdAt : timestamp,
+      updatedAt: isNonEmptyString(meta.updatedAt) ? meta.updatedAt : timestamp,
+    },
+  };
+  if (roomTypes) plan.roomTypes = roomTypes;
+  const display = repairDisplaySettings(value.display, repairs);
+  if (display) plan.display = display;
+  if (typeof value.snapGrid === 'number' && value.snapGrid > 0) plan.snapGrid = value.snapGrid;
+  else if (value.snapGrid !== undefined) repairs.push('Removed invalid snap grid');
+  return { plan, errors, repairs };
+}
@@ -0,0 +1,158 @@
+import polygonClipping from 'polygon-clipping';
+import type { Units, Wall } from './types';
+
+type Point = { x: number; y: number };
+type Ring = [number, number][];
+
+export const DEFAULT_WALL_THICKNESS: Record<Units, number> = { mm: 200, cm: 20, m: 0.2, in: 6, ft: 0.5 };
+
+const JOIN_EPSILON = 1e-6;
+const MITRE_LIMIT = 4;
+
+export function pointsEqual(a: Point, b: Point, epsilon = JOIN_EPSILON) {
+  return Math.abs(a.x - b.x) <= epsilon && Math.abs(a.y - b.y) <= epsilon;
+}
+
+export function wallLength(wall: Wall) {
+  return Math.hypot(wall.end.x - wall.start.x, wall.end.y - wall.start.y);
+}
+
+function wallDirection(wall: Wall) {
+  const len = wallLength(wall) || 1;
+  return { x: (wall.end.x - wall.start.x) / len, y: (wall.end.y - wall.start.y) / len };
+}
+
+// Distance of each face from the reference line, measured along the left normal (left)
+// and the right normal (right) of the start→end direction.
+export function wallSideOffsets(wall: Wall) {
+  if (wall.alignment === 'inside') return { left: wall.thickness, right: 0 };
+  if (wall.alignment === 'outside') return { left: 0, right: wall.thickness };
+  return { left: wall.thickness / 2, right: wall.thickness / 2 };
+}
+
+function lineIntersection(p: Point, u: Point, q: Point, v: Point): Point | null {
+  const cross = u.x * v.y - u.y * v.x;
+  if (Math.abs(cross) < 1e-9) return null;
+  const t = ((q.x - p.x) * v.y - (q.y - p.y) * v.x) / cross;
+  return { x: p.x + u.x * t, y: p.y + u.y * t };
+}
+
+// Faces of a wall as seen walking away from one of its endpoints.
+function facesAwayFrom(wall: Wall, atStart: boolean) {
+  const dir = wallDirection(wall);
+  const away = atStart ? dir : { x: -dir.x, y: -dir.y };
+  const normal = { x: -away.y, y: away.x };
+  const offsets = wallSideOffsets(wall);
+  return {
+    point: atStart ? wall.start : wall.end,
+    away,
+    normal,
+    left: atStart ? offsets.left : offsets.right,
+    right: atStart ? offsets.right : offsets.left,
+  };
+}
+
+function endCorners(wall: Wall, atStart: boolean, walls: Wall[]) {
+  const a = facesAwayFrom(wall, atStart);
+  const squareLeft = { x: a.point.x + a.normal.x * a.left, y: a.point.y + a.normal.y * a.left };
+  const squareRight = { x: a.point.x - a.normal.x * a.right, y: a.point.y - a.normal.y * a.right };
+  let left = squareLeft;
+  let right = squareRight;
+
+  const joined = walls.filter(
+    (other) => other.id !== wall.id && (pointsEqual(other.start, a.point) || pointsEqual(other.end, a.point)),
+  );
+  // Only a plain corner (two walls meeting) gets a mitre; T and cross joins keep square
+  // ends and are cleaned up when the solids are unioned for rendering.
+  if (joined.length === 1) {
+    const other = joined[0];
+    const b = facesAwayFrom(other, pointsEqual(other.start, a.point));
+    const limit = MITRE_LIMIT * Math.max(wall.thickness, other.thickness);
+    const mitreLeft = lineIntersection(
+      squareLeft,
+      a.away,
+      { x: b.point.x - b.normal.x * b.right, y: b.point.y - b.normal.y * b.right },
+      b.away,
+    );
+    const mitreRight = lineIntersection(
+      squareRight,
+      a.away,
+      { x: b.point.x + b.normal.x * b.left, y: b.point.y + b.normal.y * b.left },
+      b.away,
+    );
+    if (mitreLeft && Math.hypot(mitreLeft.x - a.point.x, mitreLeft.y - a.point.y) <= limit) left = mitreLeft;
+    if (mitreRight && Math.hypot(mitreRight.x - a.point.x, mitreRight.y - a.point.y) <= limit) right = mitreRight;
+  }
+
+  // Map back from "walking away from the endpoint" to the stored start→end orientation.
+  return atStart ? { left, right } : { left: right, right: left };
+}
+
+/** Outline of a wall's solid, mitred against the wall it shares a corner with. */
+export function wallOutline(wall: Wall, walls: Wall[]): Point[] {
+  const start = endCorners(wall, true, walls);
+  const end = endCorners(wall, false, walls);
+  return [start.left, end.left, end.right, start.right];
+}
+
+function toRing(points: Point[]): Ring {
+  const ring: Ring = points.map((p) => [p.x, p.y]);
+  if (ring.length) ring.push([ring[0][0], ring[0][1]]);
+  return ring;
+}
+
+function fromRing(ring: Ring): Point[] {
+  const trimmed =
+    ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1]
+      ? ring.slice(0, -1)
+      : ring;
+  return trimmed.map(([x, y]) => ({ x, y }));
+}
+
+/** All wall solids unioned into polygons with holes, ready to render as one fill. */
+export function wallSolids(walls: Wall[]): { outer: Point[]; holes: Point[][] }[] {
+  const outlines = walls.filter((wall) => wallLength(wall) > 0).map((wall) => [toRing(wallOutline(wall, walls))]);
+  if (!outlines.length) return [];
+  const merged = polygonClipping.union(...outlines);
+  return (merged ?? []).map((poly) => ({ outer: fromRing(poly[0] ?? []), holes: poly.slice(1).map(fromRing) }));
+}
+
+/** Spaces fully enclosed by walls, i.e. the holes left inside the wall solids. */
+export function enclosedSpaces(walls: Wall[], minArea = 0): Point[][] {
+  return wallSolids(walls)
+    .flatMap((solid) => solid.holes)
+    .filter((ring) => ring.length >= 3 && Math.abs(signedArea(ring)) > minArea);
+}
+
+function signedArea(points: Point[]) {
+  let sum = 0;
+  for (let i = 0; i < points.length; i += 1) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return sum / 2;
+}
+
+/**
+ * Moves the given walls by (dx, dy). Walls joined to them follow the shared endpoint so
+ * corners stay connected.
+ */
+export function translateWalls(walls: Wall[], ids: string[], dx: number, dy: number): Wall[] {
+  const shift = (p: Point) => ({ x: p.x + dx, y: p.y + dy });
+  const endpoints = walls.filter((wall) => ids.includes(wall.id)).flatMap((wall) => [wall.start, wall.end]);
+  return walls.map((wall) => {
+    if (ids.includes(wall.id)) return { ...wall, start: shift(wall.start), end: shift(wall.end) };
+    const start = endpoints.some((p) => pointsEqual(p, wall.start)) ? shift(wall.start) : wall.start;
+    const end = endpoints.some((p) => pointsEqual(p, wall.end)) ? shift(wall.end) : wall.end;
+    return start === wall.start && end === wall.end ? wall : { ...wall, start, end };
+  });
+}
+
+export function projectOntoWall(wall: Wall, point: Point) {
+  const dx = wall.end.x - wall.start.x;
+  const dy = wall.end.y - wall.start.y;
+  const lenSq = dx * dx + dy * dy;
+  const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - wall.start.x) * dx + (point.y - wall.start.y) * dy) / lenSq));
+  return { t, point: { x: wall.start.x + dx * t, y: wall.start.y + dy * t } };
+}
@@ -2,7 +2,7 @@ import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import { performCommand } from '../domain/commands';
 import { seedPlan } from '../domain/planFactory';
-import type { Command, CommandRecord, HistoryStack, Plan, Selection, Tool } from '../domain/types';
+import type { Command, CommandRecord, DimensionStyle, HistoryStack, Plan, Selection, Tool } from '../domain/types';
 
 type PlanStoreState = {
   plan: Plan;
@@ -10,15 +10,22 @@ type PlanStoreState = {
   history: HistoryStack;
   activeTool: Tool;
   paletteColor: string;
+  /** Library symbol placed by the fixture tool. */
+  activeFixture: string;
+  /** Style of the dimension lines placed by the dimension tool. */
+  activeDimensionStyle: DimensionStyle;
   snapEnabled: boolean;
   showDimensions: boolean;
   showGrid: boolean;
+  /** Short message about a refused edit, shown over the canvas until dismissed. */
+  notice: string | null;
   apply: (command: Command) => void;
   undo: () => void;
   redo: () => void;
   setTool: (tool: Tool) => void;
   setSelection: (selection: Selection) => void;
   loadPlan: (plan: Plan) => void;
+  dismissNotice: () => void;
 };
 
 function clonePlan(plan: Plan) {
@@ -43,13 +50,17 @@ export const usePlanStore = create<PlanStoreState>()(
       history: { undo: [], redo: [] },
       activeTool: 'select',
       paletteColor: '#f59e0b',
+      activeFixture: 'desk',
+      activeDimensionStyle: 'aligned',
       snapEnabled: true,
       showDimensions: true,
       showGrid: true,
+      notice: null,
       apply: (command: Command) =>
         set((state) => {
           const before = clonePlan(state.plan);
-          const { plan: after, selection, description } = performCommand(state.plan, command);
+          const { plan: after, selection, description, blocked } = performCommand(state.plan, command);
+          if (blocked) return { notice: blocked };
           const changed = JSON.stringify(before) !== JSON.stringify(after);
           if (!changed) {
             return selection ? { selection } : {};
@@ -86,6 +97,7 @@ export const usePlanStore = create<PlanStoreState>()(
         }),
       setTool: (tool) => set({ activeTool: tool }),
       setSelection: (selection) => set({ selection }),
+      dismissNotice: () => set({ notice: null }),
       loadPlan: (plan) =>
         set(() => ({
           plan: clonePlan(plan),